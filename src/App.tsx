@@ -1,12 +1,13 @@
 import { useState } from 'react';
-import { Shield, Download, Upload, Share2, Settings } from 'lucide-react';
+import { Shield, Download, Upload, Share2, Wrench, Settings } from 'lucide-react';
 import { BackupFlow } from './components/BackupFlow';
 import { RestoreFlow } from './components/RestoreFlow';
 import { ExportTab } from './components/ExportTab';
+import { ToolsTab } from './components/ToolsTab';
 import { SettingsTab } from './components/SettingsTab';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
-type Tab = 'backup' | 'restore' | 'export' | 'settings';
+type Tab = 'backup' | 'restore' | 'export' | 'tools' | 'settings';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('backup');
@@ -92,6 +93,22 @@ function App() {
             <Share2 className="w-4 h-4" aria-hidden="true" />
             Export
           </button>
+          <button
+            role="tab"
+            aria-selected={activeTab === 'tools'}
+            aria-controls="tools-panel"
+            id="tools-tab"
+            onClick={() => {
+              setActiveTab('tools');
+              resetState();
+            }}
+            className={`tab-button ${
+              activeTab === 'tools' ? 'tab-button-active' : 'tab-button-inactive'
+            }`}
+          >
+            <Wrench className="w-4 h-4" aria-hidden="true" />
+            Tools
+          </button>
           <button
             role="tab"
             aria-selected={activeTab === 'settings'}
@@ -157,6 +174,15 @@ function App() {
             )}
           </div>
 
+          <div
+            role="tabpanel"
+            id="tools-panel"
+            aria-labelledby="tools-tab"
+            hidden={activeTab !== 'tools'}
+          >
+            {activeTab === 'tools' && <ToolsTab />}
+          </div>
+
           <div
             role="tabpanel"
             id="settings-panel"
@@ -1,7 +1,10 @@
 import browser from 'webextension-polyfill';
-import { getSettings } from './utils/storage';
+import { getOrCreateSigningKey, getSettings } from './utils/storage';
 import { getAllCookies } from './utils/cookies';
+import { listCookieStores } from './utils/cookieStores';
 import { encryptData } from './utils/crypto';
+import { createPayload } from './utils/payload';
+import { importSigningKey } from './utils/signing';
 import { downloadBlob } from './utils/downloadBlob';
 import { getGoogleDriveToken, getDropboxToken } from './utils/cloud-sync/oauth';
 import { uploadToDrive } from './utils/cloud-sync/google-drive';
@@ -35,8 +38,21 @@ browser.alarms.onAlarm.addListener(async (alarm) => {
   }
 
   try {
-    const cookies = await getAllCookies();
-    const blob = await encryptData(cookies, settings.autoBackupPassword);
+    // Same stores as a manual backup's default: everything but private browsing
+    const stores = (await listCookieStores()).filter((store) => !store.incognito);
+    const cookies = await getAllCookies(
+      stores.length > 0 ? stores.map((store) => store.id) : undefined
+    );
+    const signingKey = await importSigningKey(await getOrCreateSigningKey());
+    const blob = await encryptData(
+      createPayload(cookies, { stores }),
+      settings.autoBackupPassword,
+      undefined,
+      {
+        signingKey,
+        recoveryKey: settings.recoveryKey?.publicKey,
+      }
+    );
 
     const d = new Date();
     const timestamp = d.toISOString().replace(/[:.]/g, '-').slice(0, 19);
@@ -0,0 +1,190 @@
+import { useRef, useState } from 'react';
+import { Download, Lock, ShieldCheck } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { getAllCookies } from '../utils/cookies';
+import { formatNetscape } from '../utils/netscape';
+import { createPayload } from '../utils/payload';
+import { isValidAgeRecipient, type AgeRecipient } from '../utils/age';
+import { encryptAgeInWorker } from '../utils/cryptoWorker';
+import { downloadBlob } from '../utils/downloadBlob';
+
+interface AgeExportProps {
+  onStatusChange: (status: 'idle' | 'loading' | 'success' | 'error', message: string) => void;
+  status: 'idle' | 'loading' | 'success' | 'error';
+}
+
+/**
+ * Exports cookies as an age file, for opening with `age -d` on another machine
+ */
+export function AgeExport({ onStatusChange, status }: AgeExportProps) {
+  const [format, setFormat] = useState<'netscape' | 'json'>('netscape');
+  const [mode, setMode] = useState<'scrypt' | 'x25519'>('scrypt');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [recipient, setRecipient] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleExport = async () => {
+    let ageRecipient: AgeRecipient;
+    if (mode === 'scrypt') {
+      if (!passphrase || passphrase !== confirmPassphrase) {
+        onStatusChange('error', passphrase ? 'Passphrases do not match' : 'Passphrase is required');
+        return;
+      }
+      ageRecipient = { type: 'scrypt', passphrase };
+    } else {
+      if (!isValidAgeRecipient(recipient)) {
+        onStatusChange('error', 'Enter an age recipient (age1...)');
+        return;
+      }
+      ageRecipient = { type: 'x25519', recipient: recipient.trim() };
+    }
+
+    try {
+      onStatusChange('loading', 'Fetching cookies...');
+      const cookies = await getAllCookies();
+      // Restoring an age cookies.txt reads the HttpOnly prefix back
+      const content =
+        format === 'netscape'
+          ? formatNetscape(cookies, { markHttpOnly: true })
+          : JSON.stringify(createPayload(cookies), null, 2);
+
+      onStatusChange('loading', 'Encrypting...');
+      abortRef.current = new AbortController();
+      const file = await encryptAgeInWorker(
+        new TextEncoder().encode(content),
+        [ageRecipient],
+        (current, total) =>
+          onStatusChange('loading', `Encrypting... (${Math.round((current / total) * 100)}%)`),
+        { signal: abortRef.current.signal }
+      );
+      await downloadBlob(
+        new Blob([file], { type: 'application/octet-stream' }),
+        format === 'netscape' ? 'cookies.txt.age' : 'cookies.json.age'
+      );
+
+      setPassphrase('');
+      setConfirmPassphrase('');
+      onStatusChange('success', `Exported ${cookies.length} cookies as an age file`);
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        onStatusChange('idle', 'Export cancelled');
+        return;
+      }
+      onStatusChange('error', err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-3 bg-card">
+      <div className="flex items-start gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center flex-shrink-0">
+          <ShieldCheck className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-medium text-sm">age Encrypted</h3>
+          <p className="text-xs text-muted-foreground mt-0.5">
+            Open on a server with <code className="bg-secondary px-1 rounded">age -d</code>
+          </p>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant={format === 'netscape' ? 'default' : 'secondary'}
+          size="sm"
+          onClick={() => setFormat('netscape')}
+        >
+          cookies.txt
+        </Button>
+        <Button
+          type="button"
+          variant={format === 'json' ? 'default' : 'secondary'}
+          size="sm"
+          onClick={() => setFormat('json')}
+        >
+          JSON
+        </Button>
+        <span className="flex-1" />
+        <Button
+          type="button"
+          variant={mode === 'scrypt' ? 'default' : 'secondary'}
+          size="sm"
+          onClick={() => setMode('scrypt')}
+        >
+          Passphrase
+        </Button>
+        <Button
+          type="button"
+          variant={mode === 'x25519' ? 'default' : 'secondary'}
+          size="sm"
+          onClick={() => setMode('x25519')}
+        >
+          Recipient
+        </Button>
+      </div>
+
+      {mode === 'scrypt' ? (
+        <div className="space-y-2">
+          <div className="relative">
+            <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="password"
+              placeholder="Passphrase"
+              aria-label="age passphrase"
+              className="pl-9"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          <div className="relative">
+            <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="password"
+              placeholder="Confirm passphrase"
+              aria-label="Confirm age passphrase"
+              className="pl-9"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+            />
+          </div>
+        </div>
+      ) : (
+        <Input
+          type="text"
+          placeholder="age1..."
+          aria-label="age recipient"
+          className="font-mono"
+          spellCheck={false}
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value)}
+        />
+      )}
+
+      <Button
+        type="button"
+        className="w-full"
+        onClick={handleExport}
+        disabled={status === 'loading'}
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Download {format === 'netscape' ? 'cookies.txt.age' : 'cookies.json.age'}
+      </Button>
+
+      {status === 'loading' && abortRef.current && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => abortRef.current?.abort()}
+        >
+          Cancel
+        </Button>
+      )}
+    </div>
+  );
+}
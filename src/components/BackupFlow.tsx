@@ -1,12 +1,24 @@
-import { useState } from 'react';
-import { Lock, ArrowLeft } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Lock, ArrowLeft, Plus, X, KeyRound } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Label } from './ui/Label';
+import { Checkbox } from './ui/Checkbox';
+import { Textarea } from './ui/Textarea';
 import { PasswordStrengthMeter } from './ui/PasswordStrengthMeter';
 import { DomainPicker } from './DomainPicker';
-import { encryptData } from '../utils/crypto';
+import { ShareList } from './ShareList';
+import { createBackupInfo } from '../utils/crypto';
+import { createPayload, encryptPayload, getExtensionVersion } from '../utils/payload';
+import { KDF_PRESETS, type KdfAlgorithm } from '../utils/kdf';
+import { generateKeyfile, hashKeyfile } from '../utils/keyfile';
+import { createShareKey, MAX_SHARES } from '../utils/shamir';
 import { getAllCookies } from '../utils/cookies';
+import { listCookieStores, type CookieStore } from '../utils/cookieStores';
+import { getOrCreateSigningKey, getSettings } from '../utils/storage';
+import { importSigningKey } from '../utils/signing';
+import type { Recipient } from '../utils/identity';
+import type { StoredRecoveryKey } from '../utils/recovery';
 import { downloadBlob } from '../utils/downloadBlob';
 import { useDomainSelection } from '../hooks/useDomainSelection';
 
@@ -16,15 +28,75 @@ export function BackupFlow() {
   const [step, setStep] = useState<BackupStep>('password');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [extraPasswords, setExtraPasswords] = useState<string[]>([]);
+  const [keyfile, setKeyfile] = useState<File | null>(null);
+  const [knownRecipients, setKnownRecipients] = useState<Recipient[]>([]);
+  const [selectedRecipients, setSelectedRecipients] = useState<string[]>([]);
+  const [kdfAlgorithm, setKdfAlgorithm] = useState<KdfAlgorithm>('PBKDF2-SHA256');
+  const [includeInfo, setIncludeInfo] = useState(true);
+  const [signBackup, setSignBackup] = useState(true);
+  const [recoveryKey, setRecoveryKey] = useState<StoredRecoveryKey | null>(null);
+  const [includeRecovery, setIncludeRecovery] = useState(true);
+  const [splitShares, setSplitShares] = useState(false);
+  const [shareThreshold, setShareThreshold] = useState(3);
+  const [shareCount, setShareCount] = useState(5);
+  const [createdShares, setCreatedShares] = useState<{
+    shares: string[];
+    threshold: number;
+  } | null>(null);
+  const [label, setLabel] = useState('');
+  const [notes, setNotes] = useState('');
+  const [tags, setTags] = useState('');
+  const [stores, setStores] = useState<CookieStore[]>([]);
+  const [selectedStores, setSelectedStores] = useState<string[]>([]);
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [message, setMessage] = useState('');
   const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const abortRef = useRef<AbortController | null>(null);
 
   const ds = useDomainSelection();
 
+  useEffect(() => {
+    getSettings()
+      .then((s) => {
+        setKnownRecipients(s.recipients);
+        setRecoveryKey(s.recoveryKey);
+      })
+      .catch(() => setKnownRecipients([]));
+    listCookieStores().then((list) => {
+      setStores(list);
+      // Private browsing cookies are only backed up when asked for
+      setSelectedStores(list.filter((store) => !store.incognito).map((store) => store.id));
+    });
+  }, []);
+
+  const toggleStore = (id: string) =>
+    setSelectedStores(
+      selectedStores.includes(id) ? selectedStores.filter((s) => s !== id) : [...selectedStores, id]
+    );
+
+  const toggleRecipient = (publicKey: string) =>
+    setSelectedRecipients(
+      selectedRecipients.includes(publicKey)
+        ? selectedRecipients.filter((k) => k !== publicKey)
+        : [...selectedRecipients, publicKey]
+    );
+
+  const handleGenerateKeyfile = async () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    const generated = new File([generateKeyfile()], `cookie-vault-${timestamp}.keyfile`);
+    try {
+      await downloadBlob(generated, generated.name);
+      setKeyfile(generated);
+    } catch (err: unknown) {
+      setStatus('error');
+      setMessage(err instanceof Error ? err.message : 'Failed to save keyfile');
+    }
+  };
+
   const handleBackupPreview = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!password) {
+    if (!password && selectedRecipients.length === 0) {
       setStatus('error');
       setMessage('Password is required');
       return;
@@ -36,11 +108,38 @@ export function BackupFlow() {
       return;
     }
 
+    if (extraPasswords.some((p) => !p)) {
+      setStatus('error');
+      setMessage('Additional passwords cannot be empty');
+      return;
+    }
+
+    if (
+      splitShares &&
+      !(shareThreshold >= 2 && shareCount >= shareThreshold && shareCount <= MAX_SHARES)
+    ) {
+      setStatus('error');
+      setMessage(`Shares need a threshold of at least 2, and at most ${MAX_SHARES} shares`);
+      return;
+    }
+
+    if (keyfile && !password) {
+      setStatus('error');
+      setMessage('A keyfile is used together with a password');
+      return;
+    }
+
+    if (stores.length > 0 && selectedStores.length === 0) {
+      setStatus('error');
+      setMessage('Select at least one cookie store');
+      return;
+    }
+
     try {
       setStatus('loading');
       setMessage('Fetching cookies...');
 
-      const cookies = await getAllCookies();
+      const cookies = await getAllCookies(stores.length > 0 ? selectedStores : undefined);
       ds.loadCookies(cookies);
 
       setStatus('idle');
@@ -65,34 +164,84 @@ export function BackupFlow() {
       setStatus('loading');
       setMessage(`Encrypting ${cookiesToBackup.length} cookies...`);
 
-      const blob = await encryptData(cookiesToBackup, password, (current, total) => {
-        setProgress({ current, total });
-        setMessage(
-          `Encrypting ${cookiesToBackup.length} cookies... (${Math.round((current / total) * 100)}%)`
-        );
-      });
+      const signingKey = signBackup
+        ? await importSigningKey(await getOrCreateSigningKey())
+        : undefined;
+
+      const split = splitShares ? createShareKey(shareThreshold, shareCount) : null;
+
+      abortRef.current = new AbortController();
+      const blob = await encryptPayload(
+        createPayload(cookiesToBackup, {
+          notes,
+          tags: tags.split(','),
+          stores: stores.filter((store) => selectedStores.includes(store.id)),
+        }),
+        password,
+        (current, total) => {
+          setProgress({ current, total });
+          setMessage(
+            `Encrypting ${cookiesToBackup.length} cookies... (${Math.round((current / total) * 100)}%)`
+          );
+        },
+        {
+          kdf: KDF_PRESETS[kdfAlgorithm],
+          additionalPasswords: extraPasswords,
+          keyfile: keyfile ? await hashKeyfile(keyfile) : undefined,
+          recipients: selectedRecipients,
+          recoveryKey: includeRecovery ? recoveryKey?.publicKey : undefined,
+          shareKey: split?.shareKey,
+          info: includeInfo
+            ? createBackupInfo(cookiesToBackup, getExtensionVersion(), label)
+            : undefined,
+          signingKey,
+          signal: abortRef.current.signal,
+        }
+      );
 
       const d = new Date();
       const timestamp = d.toISOString().replace(/[:.]/g, '-').slice(0, 19);
       const filename = `cookies-${timestamp}.cv`;
       await downloadBlob(blob, filename);
 
+      if (split) setCreatedShares({ shares: split.shares, threshold: shareThreshold });
       setStatus('success');
       setMessage(
         `Successfully backed up ${cookiesToBackup.length} cookies from ${ds.selectedCount} domains!`
       );
       setPassword('');
       setConfirmPassword('');
+      setExtraPasswords([]);
+      setKeyfile(null);
+      setSelectedRecipients([]);
+      setLabel('');
+      setNotes('');
+      setTags('');
       setStep('password');
       ds.reset();
     } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        setStatus('idle');
+        setMessage('Backup cancelled');
+        return;
+      }
       setStatus('error');
       setMessage(err instanceof Error ? err.message : 'Backup failed');
+    } finally {
+      abortRef.current = null;
     }
   };
 
   return (
     <div className="space-y-4">
+      {createdShares && (
+        <ShareList
+          shares={createdShares.shares}
+          threshold={createdShares.threshold}
+          onDone={() => setCreatedShares(null)}
+        />
+      )}
+
       {step === 'password' ? (
         <form onSubmit={handleBackupPreview} className="space-y-4">
           <div className="space-y-2">
@@ -129,6 +278,283 @@ export function BackupFlow() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Additional Passwords</Label>
+            {extraPasswords.map((extra, i) => (
+              <div key={i} className="flex gap-2">
+                <div className="relative flex-1">
+                  <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="password"
+                    placeholder={`Additional password ${i + 1}`}
+                    aria-label={`Additional password ${i + 1}`}
+                    className="pl-9"
+                    value={extra}
+                    onChange={(e) =>
+                      setExtraPasswords(
+                        extraPasswords.map((p, j) => (j === i ? e.target.value : p))
+                      )
+                    }
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove additional password ${i + 1}`}
+                  onClick={() => setExtraPasswords(extraPasswords.filter((_, j) => j !== i))}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => setExtraPasswords([...extraPasswords, ''])}
+            >
+              <Plus className="w-4 h-4 mr-1" aria-hidden="true" />
+              Add password
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Any of these passwords will also open the backup, e.g. a shared break-glass password.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="backup-keyfile">Keyfile</Label>
+            {keyfile ? (
+              <div className="flex items-center gap-2">
+                <KeyRound
+                  className="w-4 h-4 text-muted-foreground flex-shrink-0"
+                  aria-hidden="true"
+                />
+                <span className="text-sm flex-1 min-w-0 truncate">{keyfile.name}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove keyfile"
+                  onClick={() => setKeyfile(null)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="backup-keyfile"
+                  type="file"
+                  className="flex-1"
+                  onChange={(e) => setKeyfile(e.target.files?.[0] ?? null)}
+                />
+                <Button type="button" variant="secondary" size="sm" onClick={handleGenerateKeyfile}>
+                  Generate
+                </Button>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Optional. Passwords will only open the backup together with this file, so keep a copy
+              somewhere safe: it cannot be recovered if lost.
+            </p>
+          </div>
+
+          {knownRecipients.length > 0 && (
+            <div className="space-y-2">
+              <Label>Recipients</Label>
+              {knownRecipients.map((recipient) => (
+                <div key={recipient.publicKey} className="flex items-center gap-3">
+                  <Checkbox
+                    checked={selectedRecipients.includes(recipient.publicKey)}
+                    onChange={() => toggleRecipient(recipient.publicKey)}
+                    id={`recipient-${recipient.publicKey}`}
+                  />
+                  <Label
+                    htmlFor={`recipient-${recipient.publicKey}`}
+                    className="text-sm cursor-pointer"
+                  >
+                    {recipient.name}
+                  </Label>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Selected recipients can open the backup with their own identity. The password is
+                optional when at least one recipient is selected.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Key Derivation</Label>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant={kdfAlgorithm === 'PBKDF2-SHA256' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => setKdfAlgorithm('PBKDF2-SHA256')}
+              >
+                PBKDF2
+              </Button>
+              <Button
+                type="button"
+                variant={kdfAlgorithm === 'Argon2id' ? 'default' : 'secondary'}
+                size="sm"
+                onClick={() => setKdfAlgorithm('Argon2id')}
+              >
+                Argon2id
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Argon2id resists GPU cracking better but takes a few seconds to encrypt and restore.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={includeInfo}
+                onChange={() => setIncludeInfo(!includeInfo)}
+                id="include-info"
+              />
+              <Label htmlFor="include-info" className="text-sm cursor-pointer">
+                Include file info
+              </Label>
+            </div>
+            {includeInfo && (
+              <Input
+                id="backup-label"
+                type="text"
+                placeholder="Optional label, e.g. Work laptop"
+                maxLength={100}
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            )}
+            <p className="text-xs text-muted-foreground">
+              Date, cookie and domain counts and the label stay readable without the password.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="backup-notes">Notes</Label>
+            <Textarea
+              id="backup-notes"
+              placeholder="Optional, e.g. why this backup was made"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <Input
+              id="backup-tags"
+              type="text"
+              placeholder="Optional tags, separated by commas"
+              aria-label="Tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Notes and tags are encrypted with the cookies.
+            </p>
+          </div>
+
+          {recoveryKey && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <Checkbox
+                  checked={includeRecovery}
+                  onChange={() => setIncludeRecovery(!includeRecovery)}
+                  id="include-recovery"
+                />
+                <Label htmlFor="include-recovery" className="text-sm cursor-pointer">
+                  Add recovery key
+                </Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Your recovery key words can open this backup if the password is forgotten.
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={splitShares}
+                onChange={() => setSplitShares(!splitShares)}
+                id="split-shares"
+              />
+              <Label htmlFor="split-shares" className="text-sm cursor-pointer">
+                Split into shares
+              </Label>
+            </div>
+            {splitShares && (
+              <div className="flex items-center gap-2 text-sm">
+                <span>Any</span>
+                <Input
+                  type="number"
+                  aria-label="Shares needed"
+                  className="w-16"
+                  min={2}
+                  max={shareCount}
+                  value={shareThreshold}
+                  onChange={(e) => setShareThreshold(Number(e.target.value))}
+                />
+                <span>of</span>
+                <Input
+                  type="number"
+                  aria-label="Shares to create"
+                  className="w-16"
+                  min={shareThreshold}
+                  max={MAX_SHARES}
+                  value={shareCount}
+                  onChange={(e) => setShareCount(Number(e.target.value))}
+                />
+                <span>shares</span>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Teammates who together hold enough shares can open the backup without the password.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={signBackup}
+                onChange={() => setSignBackup(!signBackup)}
+                id="sign-backup"
+              />
+              <Label htmlFor="sign-backup" className="text-sm cursor-pointer">
+                Sign backup
+              </Label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Lets whoever restores it check that the file came from this browser, unchanged.
+            </p>
+          </div>
+
+          {stores.length > 1 && (
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium">Cookie stores</legend>
+              {stores.map((store) => (
+                <div key={store.id} className="flex items-center gap-3">
+                  <Checkbox
+                    checked={selectedStores.includes(store.id)}
+                    onChange={() => toggleStore(store.id)}
+                    id={`store-${store.id}`}
+                  />
+                  <Label htmlFor={`store-${store.id}`} className="text-sm cursor-pointer">
+                    {store.name}
+                  </Label>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Containers and private windows keep their own cookies. Private browsing cookies are
+                left out unless selected.
+              </p>
+            </fieldset>
+          )}
+
           <Button type="submit" className="w-full" disabled={status === 'loading'}>
             {status === 'loading' ? 'Loading...' : 'Next: Select Domains'}
           </Button>
@@ -158,6 +584,11 @@ export function BackupFlow() {
             totalCookiesSelected={ds.totalCookiesSelected}
             totalDomains={ds.totalDomains}
             totalCookies={ds.totalCookies}
+            storeNames={
+              selectedStores.length > 1
+                ? Object.fromEntries(stores.map((store) => [store.id, store.name]))
+                : undefined
+            }
           />
 
           <Button
@@ -169,6 +600,17 @@ export function BackupFlow() {
             {status === 'loading' ? 'Encrypting...' : `Backup ${ds.totalCookiesSelected} Cookies`}
           </Button>
 
+          {status === 'loading' && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => abortRef.current?.abort()}
+            >
+              Cancel
+            </Button>
+          )}
+
           {status === 'loading' && progress.total > 0 && (
             <div
               className="w-full bg-secondary h-2 rounded-full overflow-hidden"
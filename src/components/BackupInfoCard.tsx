@@ -0,0 +1,71 @@
+import { Info } from 'lucide-react';
+import type { BackupHeader } from '../utils/crypto';
+import type { KeySlot } from '../utils/keyslots';
+
+interface BackupInfoCardProps {
+  header: BackupHeader;
+  keySlots: KeySlot[];
+}
+
+/**
+ * Shows the plaintext header of a v5 backup before it is decrypted
+ */
+export function BackupInfoCard({ header, keySlots }: BackupInfoCardProps) {
+  const { info } = header;
+  const passwordSlots = keySlots.filter((slot) => slot.type === 'password');
+  const recipientCount = keySlots.filter((slot) => slot.type === 'recipient').length;
+  const hasRecoverySlot = keySlots.some((slot) => slot.type === 'recovery');
+  const algorithms = [...new Set(passwordSlots.map((slot) => slot.kdf.algorithm))];
+
+  const openers: string[] = [];
+  if (passwordSlots.length > 0) {
+    const keyfileCount = passwordSlots.filter((slot) => slot.keyfile).length;
+    const keyfileNote =
+      keyfileCount === 0
+        ? ''
+        : keyfileCount === passwordSlots.length
+          ? ' + keyfile'
+          : ` (${keyfileCount} with keyfile)`;
+    openers.push(
+      `${passwordSlots.length} password${passwordSlots.length === 1 ? '' : 's'}${keyfileNote}`
+    );
+  }
+  if (recipientCount > 0) {
+    openers.push(`${recipientCount} recipient key${recipientCount === 1 ? '' : 's'}`);
+  }
+  if (hasRecoverySlot) openers.push('recovery key');
+  const sharesSlot = keySlots.find((slot) => slot.type === 'shares');
+  if (sharesSlot) openers.push(`any ${sharesSlot.threshold} of ${sharesSlot.count} shares`);
+
+  const rows: [string, string][] = [];
+  if (info?.label) rows.push(['Label', info.label]);
+  if (info) {
+    rows.push(['Created', new Date(info.createdAt).toLocaleString()]);
+    rows.push(['Contents', `${info.cookieCount} cookies · ${info.domainCount} domains`]);
+    rows.push(['Extension', `v${info.extensionVersion}`]);
+  }
+  rows.push(['Opens with', openers.join(' · ')]);
+  if (algorithms.length > 0) rows.push(['Key derivation', algorithms.join(', ')]);
+
+  return (
+    <div className="border border-border rounded-xl p-3 space-y-2 bg-card text-xs">
+      <p className="font-medium text-sm flex items-center gap-1.5">
+        <Info className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+        File info
+      </p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {rows.map(([term, value]) => (
+          <div key={term} className="contents">
+            <dt className="text-muted-foreground">{term}</dt>
+            <dd className="truncate">{value}</dd>
+          </div>
+        ))}
+      </dl>
+      <p className="text-muted-foreground">
+        {info
+          ? 'Details are verified when the file is decrypted.'
+          : 'This backup was created without file info.'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Columns2 } from 'lucide-react';
+import type { Cookie } from '../utils/crypto';
+import type { CookieAttribute, CookieDiff, CookieDiffEntry } from '../utils/cookieDiff';
+
+interface CookieDiffViewProps {
+  diff: CookieDiff;
+}
+
+/** Longest value shown before it is cut short */
+const MAX_VALUE_LENGTH = 40;
+
+const STATUS_LABELS: Record<CookieDiffEntry['status'], string> = {
+  new: 'Missing from browser',
+  'value-changed': 'Value differs',
+  'attributes-changed': 'Attributes differ',
+  unchanged: 'Same',
+  'live-only': 'Only in browser',
+};
+
+function formatValue(value: string): string {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+}
+
+function formatAttribute(cookie: Cookie, attribute: CookieAttribute): string {
+  switch (attribute) {
+    case 'expirationDate':
+      return cookie.expirationDate
+        ? new Date(cookie.expirationDate * 1000).toLocaleString()
+        : 'Session';
+    case 'sameSite':
+      return cookie.sameSite ?? 'unspecified';
+    default:
+      return cookie[attribute] ? 'yes' : 'no';
+  }
+}
+
+/** One side of a row: the cookie's value and the attributes that differ */
+function DiffSide({ cookie, entry }: { cookie?: Cookie; entry: CookieDiffEntry }) {
+  if (!cookie) return <div className="text-muted-foreground italic">Not present</div>;
+  return (
+    <div className="min-w-0 space-y-0.5">
+      <div className="font-mono break-all">{formatValue(cookie.value)}</div>
+      {entry.changedAttributes.map((attribute) => (
+        <div key={attribute} className="text-muted-foreground">
+          {attribute}: {formatAttribute(cookie, attribute)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of a backup's cookies with the browser's current ones.
+ * Identical cookies are counted but not listed.
+ */
+export function CookieDiffView({ diff }: CookieDiffViewProps) {
+  const [expanded, setExpanded] = useState(false);
+  const differences = diff.entries.filter((entry) => entry.status !== 'unchanged');
+  const { counts } = diff;
+
+  return (
+    <div className="border border-border rounded-xl bg-card text-xs overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        disabled={differences.length === 0}
+        aria-expanded={expanded}
+        aria-controls="cookie-diff-panel"
+        className="w-full flex items-center gap-2 p-3 text-left disabled:cursor-default"
+      >
+        <Columns2 className="w-4 h-4 text-muted-foreground flex-shrink-0" aria-hidden="true" />
+        <span className="flex-1">
+          <span className="font-medium text-sm block">Compared with this browser</span>
+          <span className="text-muted-foreground">
+            {counts.new} missing · {counts['value-changed']} value · {counts['attributes-changed']}{' '}
+            attributes · {counts.unchanged} same · {counts['live-only']} only in browser
+          </span>
+        </span>
+        {differences.length > 0 &&
+          (expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+      </button>
+
+      {expanded && (
+        <div id="cookie-diff-panel" className="max-h-64 overflow-y-auto border-t border-border">
+          <div className="grid grid-cols-2 gap-3 px-3 py-1.5 bg-secondary/50 font-medium sticky top-0">
+            <span>Backup</span>
+            <span>Browser</span>
+          </div>
+          <ul className="divide-y divide-border">
+            {differences.map((entry) => {
+              const cookie = entry.backup ?? entry.live;
+              return (
+                <li key={entry.key} className="px-3 py-2 space-y-1">
+                  <p className="truncate">
+                    <span className="font-medium">{cookie?.name}</span>{' '}
+                    <span className="text-muted-foreground">
+                      {cookie?.domain}
+                      {cookie?.path} · {STATUS_LABELS[entry.status]}
+                    </span>
+                  </p>
+                  <div className="grid grid-cols-2 gap-3">
+                    <DiffSide cookie={entry.backup} entry={entry} />
+                    <DiffSide cookie={entry.live} entry={entry} />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { DomainPicker } from './DomainPicker';
 import type { DomainSelection } from '../hooks/useDomainSelection';
+import { diffCookies } from '../utils/cookieDiff';
 
 const mockGroups: DomainSelection[] = [
   {
@@ -182,4 +183,39 @@ describe('DomainPicker', () => {
     fireEvent.click(screen.getByRole('button', { name: 'Deselect All' }));
     expect(onDeselectAll).toHaveBeenCalled();
   });
+
+  it('should show diff badges on cookie rows and live-only cookies', () => {
+    const [exampleGroup] = mockGroups;
+    const backupCookie = exampleGroup.cookies[0].cookie;
+    const diff = diffCookies(
+      [backupCookie],
+      [
+        { ...backupCookie, value: 'changed' },
+        { ...backupCookie, name: 'live_extra' },
+      ]
+    );
+
+    render(
+      <DomainPicker
+        groups={[{ ...exampleGroup, expanded: true }]}
+        onToggleDomain={vi.fn()}
+        onToggleCookie={vi.fn()}
+        onToggleExpand={vi.fn()}
+        onSelectAll={vi.fn()}
+        onDeselectAll={vi.fn()}
+        searchQuery=""
+        onSearch={vi.fn()}
+        selectedCount={1}
+        totalCookiesSelected={1}
+        totalDomains={1}
+        totalCookies={1}
+        diff={diff}
+      />
+    );
+
+    expect(screen.getByText('2 differ')).toBeInTheDocument();
+    expect(screen.getByText('Value')).toBeInTheDocument();
+    expect(screen.getByText('live_extra')).toBeInTheDocument();
+    expect(screen.getByText('Live only')).toBeInTheDocument();
+  });
 });
@@ -3,12 +3,19 @@ import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Checkbox } from './ui/Checkbox';
 import type { DomainSelection } from '../hooks/useDomainSelection';
+import { cookieKey, type CookieDiff, type CookieDiffStatus } from '../utils/cookieDiff';
 import { useMemo } from 'react';
 
 interface DomainPickerProps {
   groups: DomainSelection[];
   onToggleDomain: (domain: string) => void;
-  onToggleCookie: (domain: string, cookieName: string, cookiePath: string) => void;
+  onToggleCookie: (
+    domain: string,
+    cookieName: string,
+    cookiePath: string,
+    topLevelSite?: string,
+    storeId?: string
+  ) => void;
   onToggleExpand: (domain: string) => void;
   onSelectAll: () => void;
   onDeselectAll: () => void;
@@ -18,6 +25,27 @@ interface DomainPickerProps {
   totalCookiesSelected: number;
   totalDomains: number;
   totalCookies: number;
+  /** Comparison with the browser's cookies; adds a badge to each row that differs */
+  diff?: CookieDiff | null;
+  /** Store names by id; when given, each cookie row shows which store it is in */
+  storeNames?: Record<string, string>;
+}
+
+const DIFF_BADGES: Record<Exclude<CookieDiffStatus, 'unchanged'>, [string, string]> = {
+  new: ['New', 'bg-green-500/10 text-green-600 dark:text-green-400'],
+  'value-changed': ['Value', 'bg-blue-500/10 text-blue-600 dark:text-blue-400'],
+  'attributes-changed': ['Attributes', 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400'],
+  'live-only': ['Live only', 'bg-secondary text-muted-foreground'],
+};
+
+function DiffBadge({ status, title }: { status: CookieDiffStatus; title?: string }) {
+  if (status === 'unchanged') return null;
+  const [label, className] = DIFF_BADGES[status];
+  return (
+    <span className={`text-[10px] px-1.5 py-0.5 rounded flex-shrink-0 ${className}`} title={title}>
+      {label}
+    </span>
+  );
 }
 
 export function DomainPicker({
@@ -33,6 +61,8 @@ export function DomainPicker({
   totalCookiesSelected,
   totalDomains,
   totalCookies,
+  diff,
+  storeNames,
 }: DomainPickerProps) {
   const filteredDomains = useMemo(() => {
     if (!searchQuery.trim()) return groups;
@@ -40,6 +70,18 @@ export function DomainPicker({
     return groups.filter((g) => g.domain.toLowerCase().includes(query));
   }, [groups, searchQuery]);
 
+  // Per-domain change counts and live-only cookies, for the domain rows
+  const domainDiffs = useMemo(() => {
+    const map = new Map<string, { changed: number; entries: CookieDiff['entries'] }>();
+    for (const entry of diff?.entries ?? []) {
+      const domainDiff = map.get(entry.domain) ?? { changed: 0, entries: [] };
+      if (entry.status !== 'unchanged') domainDiff.changed++;
+      domainDiff.entries.push(entry);
+      map.set(entry.domain, domainDiff);
+    }
+    return map;
+  }, [diff]);
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -86,6 +128,8 @@ export function DomainPicker({
           const domainSelectedCount = group.cookies.filter((c) => c.selected).length;
           const allSelected = domainSelectedCount === group.cookies.length;
           const someSelected = domainSelectedCount > 0 && !allSelected;
+          const domainDiff = domainDiffs.get(group.domain);
+          const liveOnly = domainDiff?.entries.filter((e) => e.status === 'live-only') ?? [];
 
           return (
             <div key={group.domain} className="divide-y divide-border">
@@ -115,6 +159,11 @@ export function DomainPicker({
                   >
                     {group.domain}
                   </span>
+                  {!!domainDiff?.changed && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-600 dark:text-blue-400">
+                      {domainDiff.changed} differ
+                    </span>
+                  )}
                   <span className="text-xs text-muted-foreground bg-secondary px-2 py-0.5 rounded-full">
                     {domainSelectedCount}/{group.cookies.length}
                   </span>
@@ -135,28 +184,73 @@ export function DomainPicker({
               {/* Cookie Rows */}
               {group.expanded && (
                 <div id={`cookies-${group.domain}`} className="bg-muted/30">
-                  {group.cookies.map((c) => (
-                    <label
-                      key={`${c.cookie.name}-${c.cookie.path}`}
-                      className={`flex items-center gap-3 px-3 py-2 pl-10 cursor-pointer transition-colors hover:bg-muted/50 ${
-                        c.selected ? 'bg-primary/[0.03]' : ''
-                      }`}
-                    >
-                      <Checkbox
-                        checked={c.selected}
-                        onChange={() => onToggleCookie(group.domain, c.cookie.name, c.cookie.path)}
-                        id={`cookie-${group.domain}-${c.cookie.name}-${c.cookie.path}`}
-                        aria-label={`${c.cookie.name} ${c.cookie.path}`}
-                      />
-                      <span
-                        className={`flex-1 text-sm truncate ${
-                          c.selected ? 'text-foreground' : 'text-muted-foreground'
+                  {group.cookies.map((c) => {
+                    const cookieDiff = diff?.byKey.get(cookieKey(c.cookie));
+                    return (
+                      <label
+                        key={cookieKey(c.cookie)}
+                        className={`flex items-center gap-3 px-3 py-2 pl-10 cursor-pointer transition-colors hover:bg-muted/50 ${
+                          c.selected ? 'bg-primary/[0.03]' : ''
                         }`}
                       >
-                        {c.cookie.name}
-                      </span>
-                      <span className="text-xs text-muted-foreground">{c.cookie.path}</span>
-                    </label>
+                        <Checkbox
+                          checked={c.selected}
+                          onChange={() =>
+                            onToggleCookie(
+                              group.domain,
+                              c.cookie.name,
+                              c.cookie.path,
+                              c.cookie.partitionKey?.topLevelSite,
+                              c.cookie.storeId
+                            )
+                          }
+                          id={`cookie-${cookieKey(c.cookie)}`}
+                          aria-label={`${c.cookie.name} ${c.cookie.path}${
+                            c.cookie.partitionKey?.topLevelSite
+                              ? ` partitioned by ${c.cookie.partitionKey.topLevelSite}`
+                              : ''
+                          }`}
+                        />
+                        <span
+                          className={`flex-1 text-sm truncate ${
+                            c.selected ? 'text-foreground' : 'text-muted-foreground'
+                          }`}
+                        >
+                          {c.cookie.name}
+                        </span>
+                        {storeNames && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-secondary text-muted-foreground flex-shrink-0">
+                            {storeNames[c.cookie.storeId] ?? c.cookie.storeId}
+                          </span>
+                        )}
+                        {c.cookie.partitionKey?.topLevelSite && (
+                          <span
+                            className="text-[10px] px-1.5 py-0.5 rounded bg-secondary text-muted-foreground flex-shrink-0"
+                            title={`Partitioned by ${c.cookie.partitionKey.topLevelSite}`}
+                          >
+                            Partitioned
+                          </span>
+                        )}
+                        {cookieDiff && (
+                          <DiffBadge
+                            status={cookieDiff.status}
+                            title={cookieDiff.changedAttributes.join(', ') || undefined}
+                          />
+                        )}
+                        <span className="text-xs text-muted-foreground">{c.cookie.path}</span>
+                      </label>
+                    );
+                  })}
+                  {liveOnly.map((entry) => (
+                    <div
+                      key={entry.key}
+                      className="flex items-center gap-3 px-3 py-2 pl-10 text-muted-foreground"
+                    >
+                      <span className="w-4 flex-shrink-0" aria-hidden="true" />
+                      <span className="flex-1 text-sm truncate italic">{entry.live?.name}</span>
+                      <DiffBadge status="live-only" />
+                      <span className="text-xs">{entry.live?.path}</span>
+                    </div>
                   ))}
                 </div>
               )}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Download, FileText, FileKey, Clipboard, CheckCheck } from 'lucide-react';
 import { Button } from './ui/Button';
+import { AgeExport } from './AgeExport';
 import { getAllCookies } from '../utils/cookies';
 import { downloadNetscape } from '../utils/netscape';
 import { downloadJDownloader, copyJDownloaderToClipboard } from '../utils/jdownloader';
@@ -128,6 +129,9 @@ export function ExportTab({ onStatusChange, status }: ExportTabProps) {
         </div>
       </div>
 
+      {/* age Export */}
+      <AgeExport onStatusChange={onStatusChange} status={status} />
+
       {/* Info Box */}
       <div className="bg-secondary/50 rounded-xl p-3 text-xs text-muted-foreground">
         <p className="font-medium text-foreground mb-1">💡 Usage Tips</p>
@@ -139,6 +143,9 @@ export function ExportTab({ onStatusChange, status }: ExportTabProps) {
             <code className="bg-secondary px-1 rounded">wget --load-cookies cookies.txt URL</code>
           </li>
           <li>JDownloader: Paste JSON in Settings → Account Manager</li>
+          <li>
+            <code className="bg-secondary px-1 rounded">age -d -o cookies.txt cookies.txt.age</code>
+          </li>
         </ul>
       </div>
     </div>
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Fingerprint, Copy, Users } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { NamedKeyList } from './NamedKeyList';
+import { setSettings, type VaultSettings } from '../utils/storage';
+import { decodePublicKey, generateIdentity, PUBLIC_KEY_PREFIX } from '../utils/identity';
+
+interface IdentitySettingsProps {
+  settings: VaultSettings;
+  onChange: () => Promise<void>;
+  onMessage: (text: string, type: 'success' | 'error') => void;
+}
+
+/**
+ * Manages this install's identity keypair and the list of known recipients
+ */
+export function IdentitySettings({ settings, onChange, onMessage }: IdentitySettingsProps) {
+  const [identityPassword, setIdentityPassword] = useState('');
+  const [confirmIdentityPassword, setConfirmIdentityPassword] = useState('');
+  const [generating, setGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    if (!identityPassword) {
+      onMessage('Enter a password to protect your identity', 'error');
+      return;
+    }
+    if (identityPassword !== confirmIdentityPassword) {
+      onMessage('Passwords do not match', 'error');
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const { stored } = await generateIdentity(identityPassword);
+      await setSettings({ identity: stored });
+      setIdentityPassword('');
+      setConfirmIdentityPassword('');
+      await onChange();
+      onMessage('Identity created', 'success');
+    } catch (err) {
+      onMessage(err instanceof Error ? err.message : 'Failed to create identity', 'error');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!settings.identity) return;
+    await navigator.clipboard.writeText(settings.identity.publicKey);
+    onMessage('Public key copied', 'success');
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-4 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <Fingerprint className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Identity</h3>
+          <p className="text-xs text-muted-foreground">
+            Receive backups encrypted to your public key, without sharing a password
+          </p>
+        </div>
+      </div>
+
+      {settings.identity ? (
+        <div className="space-y-2">
+          <Label htmlFor="identity-public-key">Your Public Key</Label>
+          <div className="flex gap-2">
+            <Input
+              id="identity-public-key"
+              type="text"
+              readOnly
+              value={settings.identity.publicKey}
+              className="flex-1 font-mono text-xs"
+            />
+            <Button type="button" variant="outline" onClick={handleCopy}>
+              <Copy className="w-4 h-4 mr-2" aria-hidden="true" />
+              Copy
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Share this with teammates. Your private key is encrypted with your identity password.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="identity-password">Identity Password</Label>
+          <Input
+            id="identity-password"
+            type="password"
+            placeholder="Protects your private key on this device"
+            value={identityPassword}
+            onChange={(e) => setIdentityPassword(e.target.value)}
+          />
+          <Input
+            id="identity-password-confirm"
+            type="password"
+            placeholder="Confirm identity password"
+            aria-label="Confirm identity password"
+            value={confirmIdentityPassword}
+            onChange={(e) => setConfirmIdentityPassword(e.target.value)}
+          />
+          <Button type="button" size="sm" onClick={handleGenerate} disabled={generating}>
+            {generating ? 'Generating...' : 'Generate Identity'}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <p className="text-sm font-medium flex items-center gap-1.5">
+          <Users className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+          Recipients
+        </p>
+
+        <NamedKeyList
+          kind="recipient"
+          items={settings.recipients}
+          prefix={PUBLIC_KEY_PREFIX}
+          validate={decodePublicKey}
+          onChange={async (recipients) => {
+            await setSettings({ recipients });
+            await onChange();
+          }}
+          onMessage={onMessage}
+        />
+      </div>
+    </div>
+  );
+}
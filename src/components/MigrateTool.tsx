@@ -0,0 +1,189 @@
+import { useRef, useState } from 'react';
+import { ArrowUpCircle, Lock, XCircle, CheckCircle, MinusCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { migrateBackups, type MigrateFileResult } from '../utils/rekey';
+import { getOrCreateSigningKey, getSettings } from '../utils/storage';
+import { importSigningKey } from '../utils/signing';
+import { downloadBlob } from '../utils/downloadBlob';
+
+function formatLabel(result: MigrateFileResult): string {
+  if (!result.format) return '';
+  return result.format === 'sjcl' ? 'SJCL' : result.format;
+}
+
+/**
+ * Upgrades legacy backup files to the current format, keeping their password
+ */
+export function MigrateTool() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [password, setPassword] = useState('');
+  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [results, setResults] = useState<MigrateFileResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0 || !password) {
+      setStatus('error');
+      setMessage('Files and password are required');
+      return;
+    }
+
+    try {
+      setStatus('loading');
+      setResults([]);
+      abortRef.current = new AbortController();
+
+      const settings = await getSettings();
+      const signingKey = await importSigningKey(await getOrCreateSigningKey());
+      const { archive, results } = await migrateBackups(
+        files,
+        password,
+        {
+          signingKey,
+          recoveryKey: settings.recoveryKey?.publicKey,
+          signal: abortRef.current.signal,
+        },
+        (index, total) => setMessage(`Checking file ${index + 1} of ${total}...`)
+      );
+      setResults(results);
+
+      const migrated = results.filter((r) => r.status === 'migrated').length;
+      const failed = results.filter((r) => r.status === 'failed').length;
+      if (archive) {
+        const d = new Date();
+        const timestamp = d.toISOString().replace(/[:.]/g, '-').slice(0, 19);
+        await downloadBlob(archive, `cookies-migrated-${timestamp}.zip`);
+      }
+
+      setStatus(failed > 0 ? 'error' : 'success');
+      setMessage(
+        migrated === 0 && failed === 0
+          ? results.every((r) => r.status === 'current')
+            ? 'All files are already in the current format'
+            : 'No legacy backups to migrate'
+          : `Migrated ${migrated} of ${results.length} file${results.length === 1 ? '' : 's'}`
+      );
+      setPassword('');
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        setStatus('idle');
+        setMessage('Migration cancelled');
+        return;
+      }
+      setStatus('error');
+      setMessage(err instanceof Error ? err.message : 'Migration failed');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-4 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <ArrowUpCircle className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Upgrade Old Backups</h3>
+          <p className="text-xs text-muted-foreground">
+            Rewrite v2–v4 and SJCL backups in the current format, with the same password
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="migrate-files">Backup Files</Label>
+          <Input
+            id="migrate-files"
+            type="file"
+            multiple
+            accept=".json,.ckz,.cv,.txt"
+            onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="migrate-password">Password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="migrate-password"
+              type="password"
+              placeholder="Password the files open with"
+              className="pl-9"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={status === 'loading'}>
+          {status === 'loading'
+            ? 'Upgrading...'
+            : `Upgrade ${files.length || ''} File${files.length === 1 ? '' : 's'}`}
+        </Button>
+
+        {status === 'loading' && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => abortRef.current?.abort()}
+          >
+            Cancel
+          </Button>
+        )}
+      </form>
+
+      {results.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {results.map((result, i) => (
+            <li key={i} className="flex items-start gap-2">
+              {result.status === 'failed' ? (
+                <XCircle className="w-4 h-4 text-destructive flex-shrink-0" aria-hidden="true" />
+              ) : result.status === 'current' || result.status === 'skipped' ? (
+                <MinusCircle
+                  className="w-4 h-4 text-muted-foreground flex-shrink-0"
+                  aria-hidden="true"
+                />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" aria-hidden="true" />
+              )}
+              <span className="min-w-0 break-all">
+                {result.name}
+                <span className="text-muted-foreground">
+                  {result.status === 'migrated' && ` — ${formatLabel(result)} → v5`}
+                  {result.status === 'current' && ' — already v5'}
+                  {result.status === 'skipped' && ` — ${result.reason}`}
+                  {result.status === 'failed' &&
+                    ` — ${result.format ? `${formatLabel(result)}: ` : ''}${result.error}`}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div aria-live="polite" aria-atomic="true">
+        {message && (
+          <div
+            className={`p-3 rounded-xl text-sm font-medium ${
+              status === 'error'
+                ? 'bg-destructive/10 text-destructive border border-destructive/20'
+                : status === 'success'
+                  ? 'bg-green-500/10 text-green-600 dark:text-green-400 border border-green-500/20'
+                  : 'bg-secondary text-secondary-foreground'
+            }`}
+          >
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
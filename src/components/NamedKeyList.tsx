@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+
+export interface NamedKey {
+  name: string;
+  publicKey: string;
+}
+
+interface NamedKeyListProps {
+  /** Used for element ids and labels, e.g. "recipient" */
+  kind: string;
+  items: NamedKey[];
+  /** Expected public key prefix, shown as the input placeholder */
+  prefix: string;
+  /** Throws if the key is not valid */
+  validate: (publicKey: string) => void;
+  onChange: (items: NamedKey[]) => Promise<void>;
+  onMessage: (text: string, type: 'success' | 'error') => void;
+}
+
+/**
+ * Editable list of named public keys (recipients, trusted signers)
+ */
+export function NamedKeyList({
+  kind,
+  items,
+  prefix,
+  validate,
+  onChange,
+  onMessage,
+}: NamedKeyListProps) {
+  const [name, setName] = useState('');
+  const [publicKey, setPublicKey] = useState('');
+
+  const handleAdd = async () => {
+    const trimmedName = name.trim();
+    const trimmedKey = publicKey.trim();
+    if (!trimmedName) {
+      onMessage(`Enter a name for the ${kind}`, 'error');
+      return;
+    }
+    try {
+      validate(trimmedKey);
+    } catch {
+      onMessage('Invalid public key', 'error');
+      return;
+    }
+    if (items.some((item) => item.publicKey === trimmedKey)) {
+      onMessage('Key already added', 'error');
+      return;
+    }
+
+    await onChange([...items, { name: trimmedName, publicKey: trimmedKey }]);
+    setName('');
+    setPublicKey('');
+    onMessage(`Added ${trimmedName}`, 'success');
+  };
+
+  return (
+    <div className="space-y-2">
+      {items.length > 0 ? (
+        <ul className="divide-y divide-border text-xs">
+          {items.map((item) => (
+            <li key={item.publicKey} className="flex items-center gap-2 py-1.5">
+              <div className="min-w-0 flex-1">
+                <p className="font-medium truncate">{item.name}</p>
+                <p className="text-muted-foreground font-mono truncate">{item.publicKey}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove ${item.name}`}
+                onClick={() => onChange(items.filter((i) => i.publicKey !== item.publicKey))}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-muted-foreground">None yet.</p>
+      )}
+
+      <Input
+        id={`${kind}-name`}
+        type="text"
+        placeholder="Name"
+        aria-label={`${kind} name`}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <Input
+          id={`${kind}-key`}
+          type="text"
+          placeholder={`${prefix}...`}
+          aria-label={`${kind} public key`}
+          value={publicKey}
+          onChange={(e) => setPublicKey(e.target.value)}
+          className="flex-1 font-mono text-xs"
+        />
+        <Button type="button" variant="secondary" onClick={handleAdd}>
+          <Plus className="w-4 h-4 mr-1" aria-hidden="true" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
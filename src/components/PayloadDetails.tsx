@@ -0,0 +1,44 @@
+import { StickyNote } from 'lucide-react';
+import type { BackupPayload } from '../utils/payload';
+
+interface PayloadDetailsProps {
+  payload: BackupPayload;
+}
+
+/**
+ * Shows the encrypted metadata of a decrypted backup (notes, tags, source).
+ * Renders nothing for files without any, such as those from before the envelope.
+ */
+export function PayloadDetails({ payload }: PayloadDetailsProps) {
+  const { source } = payload;
+
+  const rows: [string, string][] = [];
+  if (payload.notes) rows.push(['Notes', payload.notes]);
+  if (payload.tags && payload.tags.length > 0) rows.push(['Tags', payload.tags.join(', ')]);
+  if (payload.createdAt) rows.push(['Created', new Date(payload.createdAt).toLocaleString()]);
+  const origin = [
+    source?.browser,
+    source?.profile && `profile "${source.profile}"`,
+    source?.extensionVersion && `v${source.extensionVersion}`,
+  ].filter(Boolean);
+  if (origin.length > 0) rows.push(['Made in', origin.join(' · ')]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="border border-border rounded-xl p-3 space-y-2 bg-card text-xs">
+      <p className="font-medium text-sm flex items-center gap-1.5">
+        <StickyNote className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+        Backup details
+      </p>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+        {rows.map(([term, value]) => (
+          <div key={term} className="contents">
+            <dt className="text-muted-foreground">{term}</dt>
+            <dd className="whitespace-pre-wrap break-words">{value}</dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { LifeBuoy, Printer } from 'lucide-react';
+import { Button } from './ui/Button';
+import { setSettings, type VaultSettings } from '../utils/storage';
+import { createRecoverySheet, generateRecoveryKey } from '../utils/recovery';
+import { downloadBlob } from '../utils/downloadBlob';
+
+interface RecoverySettingsProps {
+  settings: VaultSettings;
+  onChange: () => Promise<void>;
+  onMessage: (text: string, type: 'success' | 'error') => void;
+}
+
+/**
+ * Sets up the recovery key. Its words are shown once, right after creation.
+ */
+export function RecoverySettings({ settings, onChange, onMessage }: RecoverySettingsProps) {
+  const [words, setWords] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const created = await generateRecoveryKey();
+      await setSettings({ recoveryKey: created.stored });
+      setWords(created.words);
+      await onChange();
+    } catch (err) {
+      onMessage(err instanceof Error ? err.message : 'Failed to create recovery key', 'error');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSaveSheet = async () => {
+    if (!words || !settings.recoveryKey) return;
+    await downloadBlob(
+      createRecoverySheet(words, settings.recoveryKey),
+      'cookie-vault-recovery-key.html'
+    );
+  };
+
+  const handleRemove = async () => {
+    await setSettings({ recoveryKey: null });
+    await onChange();
+    onMessage('Recovery key removed', 'success');
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-4 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <LifeBuoy className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Recovery Key</h3>
+          <p className="text-xs text-muted-foreground">
+            24 words that open your backups if you forget the password
+          </p>
+        </div>
+      </div>
+
+      {words ? (
+        <div className="space-y-3">
+          <p className="text-xs text-destructive">
+            Write these words down or save the recovery sheet now. They are not stored and will not
+            be shown again.
+          </p>
+          <ol className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs font-mono list-decimal list-inside">
+            {words.split(' ').map((word, i) => (
+              <li key={i}>{word}</li>
+            ))}
+          </ol>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleSaveSheet}>
+              <Printer className="w-4 h-4 mr-2" aria-hidden="true" />
+              Save Recovery Sheet
+            </Button>
+            <Button type="button" onClick={() => setWords(null)}>
+              I&apos;ve Saved It
+            </Button>
+          </div>
+        </div>
+      ) : settings.recoveryKey ? (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Created {new Date(settings.recoveryKey.createdAt).toLocaleDateString()}. New backups
+            include a recovery slot. Replacing the key does not change existing backups; they still
+            open with the old words.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={handleGenerate}
+              disabled={generating}
+            >
+              {generating ? 'Generating...' : 'Replace'}
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={handleRemove}>
+              Remove
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" size="sm" onClick={handleGenerate} disabled={generating}>
+          {generating ? 'Generating...' : 'Create Recovery Key'}
+        </Button>
+      )}
+    </div>
+  );
+}
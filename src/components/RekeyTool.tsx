@@ -0,0 +1,225 @@
+import { useRef, useState } from 'react';
+import { KeyRound, Lock, XCircle, CheckCircle } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { PasswordStrengthMeter } from './ui/PasswordStrengthMeter';
+import { rekeyBackups, type RekeyFileResult } from '../utils/rekey';
+import { getOrCreateSigningKey, getSettings } from '../utils/storage';
+import { importSigningKey } from '../utils/signing';
+import { hashKeyfile } from '../utils/keyfile';
+import { downloadBlob } from '../utils/downloadBlob';
+
+/**
+ * Changes the password of backup files without restoring them
+ */
+export function RekeyTool() {
+  const [files, setFiles] = useState<File[]>([]);
+  const [oldPassword, setOldPassword] = useState('');
+  const [keyfile, setKeyfile] = useState<File | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [results, setResults] = useState<RekeyFileResult[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0 || !oldPassword || !newPassword) {
+      setStatus('error');
+      setMessage('Files, current password and new password are required');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setStatus('error');
+      setMessage('Passwords do not match');
+      return;
+    }
+
+    try {
+      setStatus('loading');
+      setResults([]);
+      abortRef.current = new AbortController();
+
+      const settings = await getSettings();
+      const signingKey = await importSigningKey(await getOrCreateSigningKey());
+      const { archive, results } = await rekeyBackups(
+        files,
+        oldPassword,
+        newPassword,
+        {
+          keyfile: keyfile ? await hashKeyfile(keyfile) : undefined,
+          signingKey,
+          recoveryKey: settings.recoveryKey?.publicKey,
+          signal: abortRef.current.signal,
+        },
+        (index, total) => setMessage(`Re-keying file ${index + 1} of ${total}...`)
+      );
+      setResults(results);
+
+      const failed = results.filter((r) => r.error).length;
+      if (!archive) {
+        setStatus('error');
+        setMessage('No file could be re-keyed');
+        return;
+      }
+
+      const d = new Date();
+      const timestamp = d.toISOString().replace(/[:.]/g, '-').slice(0, 19);
+      await downloadBlob(archive, `cookies-rekeyed-${timestamp}.zip`);
+
+      setStatus(failed > 0 ? 'error' : 'success');
+      setMessage(
+        failed > 0
+          ? `Re-keyed ${results.length - failed} of ${results.length} files`
+          : `Re-keyed ${results.length} file${results.length === 1 ? '' : 's'}`
+      );
+      setOldPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        setStatus('idle');
+        setMessage('Re-keying cancelled');
+        return;
+      }
+      setStatus('error');
+      setMessage(err instanceof Error ? err.message : 'Re-keying failed');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-4 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <KeyRound className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Change Password</h3>
+          <p className="text-xs text-muted-foreground">
+            Replace the password of backups without restoring them. Other passwords, recipients and
+            recovery keys are kept.
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="rekey-files">Backup Files</Label>
+          <Input
+            id="rekey-files"
+            type="file"
+            multiple
+            accept=".json,.ckz,.cv,.txt"
+            onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rekey-old-password">Current Password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="rekey-old-password"
+              type="password"
+              placeholder="Password the files open with today"
+              className="pl-9"
+              value={oldPassword}
+              onChange={(e) => setOldPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rekey-keyfile">Keyfile (optional)</Label>
+          <Input
+            id="rekey-keyfile"
+            type="file"
+            onChange={(e) => setKeyfile(e.target.files?.[0] ?? null)}
+          />
+          <p className="text-xs text-muted-foreground">
+            For backups made with a keyfile. The re-keyed files still need it.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rekey-new-password">New Password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="rekey-new-password"
+              type="password"
+              placeholder="Enter a strong password"
+              className="pl-9"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+            />
+          </div>
+          <PasswordStrengthMeter password={newPassword} />
+          <Input
+            id="rekey-confirm-password"
+            type="password"
+            placeholder="Confirm new password"
+            aria-label="Confirm new password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={status === 'loading'}>
+          {status === 'loading'
+            ? 'Re-keying...'
+            : `Re-key ${files.length || ''} File${files.length === 1 ? '' : 's'}`}
+        </Button>
+
+        {status === 'loading' && (
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => abortRef.current?.abort()}
+          >
+            Cancel
+          </Button>
+        )}
+      </form>
+
+      {results.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {results.map((result, i) => (
+            <li key={i} className="flex items-start gap-2">
+              {result.error ? (
+                <XCircle className="w-4 h-4 text-destructive flex-shrink-0" aria-hidden="true" />
+              ) : (
+                <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" aria-hidden="true" />
+              )}
+              <span className="min-w-0 break-all">
+                {result.name}
+                {result.error && <span className="text-muted-foreground"> — {result.error}</span>}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div aria-live="polite" aria-atomic="true">
+        {message && (
+          <div
+            className={`p-3 rounded-xl text-sm font-medium ${
+              status === 'error'
+                ? 'bg-destructive/10 text-destructive border border-destructive/20'
+                : status === 'success'
+                  ? 'bg-green-500/10 text-green-600 dark:text-green-400 border border-green-500/20'
+                  : 'bg-secondary text-secondary-foreground'
+            }`}
+          >
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   Lock,
   FileKey,
@@ -8,13 +8,55 @@ import {
   ChevronDown,
   CheckCircle,
   XCircle,
+  LifeBuoy,
 } from 'lucide-react';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Label } from './ui/Label';
+import { Checkbox } from './ui/Checkbox';
+import { Textarea } from './ui/Textarea';
 import { DomainPicker } from './DomainPicker';
-import { decryptData } from '../utils/crypto';
-import { restoreCookies, type RestoreResult, type CookieRestoreDetail } from '../utils/cookies';
+import { BackupInfoCard } from './BackupInfoCard';
+import { SignatureBadge } from './SignatureBadge';
+import { PayloadDetails } from './PayloadDetails';
+import { RestorePlanCard } from './RestorePlanCard';
+import { CookieDiffView } from './CookieDiffView';
+import { StoreMappingCard } from './StoreMappingCard';
+import {
+  readBackupHeader,
+  readKeySlots,
+  verifyBackupSignature,
+  type BackupHeader,
+} from '../utils/crypto';
+import type { SignatureStatus, TrustedSigner } from '../utils/signing';
+import type { KeySlot } from '../utils/keyslots';
+import { unlockIdentity, type StoredIdentity } from '../utils/identity';
+import { isValidRecoveryKey } from '../utils/recovery';
+import { getSettings } from '../utils/storage';
+import { hashKeyfile } from '../utils/keyfile';
+import { isAgeFile } from '../utils/age';
+import { readBlobBytes } from '../utils/container';
+import { looksLikeV4, salvageBackup, summarizeSalvage } from '../utils/salvage';
+import { decryptPayload, type BackupPayload } from '../utils/payload';
+import {
+  getAllCookies,
+  planRestore,
+  restoreCookies,
+  type RestoreResult,
+  type RestoreStrategy,
+  type CookieRestoreDetail,
+} from '../utils/cookies';
+import type { Cookie } from '../utils/crypto';
+import { diffCookies } from '../utils/cookieDiff';
+import {
+  defaultStoreMapping,
+  listCookieStores,
+  storesOfCookies,
+  type CookieStore,
+  type StoreMapping,
+} from '../utils/cookieStores';
+import { BackupError, describeBackupError } from '../utils/errors';
+import { summarizeValidation, validateCookies } from '../utils/validation';
 import { useDomainSelection } from '../hooks/useDomainSelection';
 
 type RestoreStep = 'file' | 'preview';
@@ -22,41 +64,218 @@ type RestoreStep = 'file' | 'preview';
 export function RestoreFlow() {
   const [step, setStep] = useState<RestoreStep>('file');
   const [password, setPassword] = useState('');
+  const [keyfile, setKeyfile] = useState<File | null>(null);
   const [file, setFile] = useState<File | null>(null);
+  const [fileHeader, setFileHeader] = useState<BackupHeader | null>(null);
+  const [fileKeySlots, setFileKeySlots] = useState<KeySlot[]>([]);
+  const [fileSignature, setFileSignature] = useState<SignatureStatus | null>(null);
+  const [payloadDetails, setPayloadDetails] = useState<BackupPayload | null>(null);
+  const [storedIdentity, setStoredIdentity] = useState<StoredIdentity | null>(null);
+  const [trustedSigners, setTrustedSigners] = useState<TrustedSigner[]>([]);
+  const [useIdentity, setUseIdentity] = useState(true);
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [useShares, setUseShares] = useState(false);
+  const [shareText, setShareText] = useState('');
+  const [isAge, setIsAge] = useState(false);
+  const [ageIdentity, setAgeIdentity] = useState('');
+  const [canSalvage, setCanSalvage] = useState(false);
+  const [strategy, setStrategy] = useState<RestoreStrategy>('overwrite');
+  const [liveCookies, setLiveCookies] = useState<Cookie[] | null>(null);
+  const [liveError, setLiveError] = useState<string | undefined>();
+  const [targetStores, setTargetStores] = useState<CookieStore[]>([]);
+  const [backupStores, setBackupStores] = useState<CookieStore[]>([]);
+  const [storeOverrides, setStoreOverrides] = useState<StoreMapping>({});
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [message, setMessage] = useState('');
   const [progress, setProgress] = useState({ current: 0, total: 0 });
   const [restoreDetails, setRestoreDetails] = useState<CookieRestoreDetail[]>([]);
   const [showWarnings, setShowWarnings] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
 
   const ds = useDomainSelection();
 
+  useEffect(() => {
+    getSettings()
+      .then((s) => {
+        setStoredIdentity(s.identity);
+        // Backups signed by this install are trusted as well
+        setTrustedSigners([
+          ...(s.signingKey ? [{ name: 'this browser', publicKey: s.signingKey.publicKey }] : []),
+          ...s.trustedSigners,
+        ]);
+      })
+      .catch(() => setStoredIdentity(null));
+    listCookieStores().then(setTargetStores);
+  }, []);
+
+  // Backed-up stores go to the local store of the same name unless the user picks another
+  const storeMapping = useMemo(
+    () => ({ ...defaultStoreMapping(backupStores, targetStores), ...storeOverrides }),
+    [backupStores, targetStores, storeOverrides]
+  );
+
+  // Read the browser's cookies when the preview opens, for the dry-run plan
+  useEffect(() => {
+    if (step !== 'preview') return;
+    let cancelled = false;
+    setLiveCookies(null);
+    setLiveError(undefined);
+    // Every local store can be a restore target, private ones included
+    getAllCookies(targetStores.length > 0 ? targetStores.map((store) => store.id) : undefined)
+      .then((cookies) => {
+        if (!cancelled) setLiveCookies(cookies);
+      })
+      .catch((err: unknown) => {
+        console.error(err);
+        if (!cancelled) setLiveError('Current cookies could not be read');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [step, targetStores]);
+
+  const { getSelectedCookies } = ds;
+  const restorePlan = useMemo(
+    () =>
+      liveCookies ? planRestore(getSelectedCookies(), liveCookies, strategy, storeMapping) : null,
+    [getSelectedCookies, liveCookies, strategy, storeMapping]
+  );
+  const cookieDiff = useMemo(
+    () => (liveCookies ? diffCookies(ds.allCookies, liveCookies, storeMapping) : null),
+    [ds.allCookies, liveCookies, storeMapping]
+  );
+
+  // The file has a key slot for this install's identity
+  const hasIdentitySlot =
+    !!storedIdentity &&
+    fileKeySlots.some(
+      (slot) => slot.type === 'recipient' && slot.recipient === storedIdentity.publicKey
+    );
+  const hasRecoverySlot = fileKeySlots.some((slot) => slot.type === 'recovery');
+  const sharesSlot = fileKeySlots.find((slot) => slot.type === 'shares');
+  const openWithRecovery = hasRecoverySlot && useRecovery;
+  const openWithShares = !!sharesSlot && useShares && !openWithRecovery;
+  const openWithIdentity = hasIdentitySlot && useIdentity && !openWithRecovery && !openWithShares;
+  const hasKeyfileSlot = fileKeySlots.some((slot) => slot.type === 'password' && slot.keyfile);
+  const openWithKeyfile =
+    hasKeyfileSlot && !openWithRecovery && !openWithShares && !openWithIdentity;
+
+  const handleFileChange = async (selected: File | null) => {
+    setFile(selected);
+    setFileHeader(null);
+    setFileKeySlots([]);
+    setPayloadDetails(null);
+    setFileSignature(null);
+    setIsAge(false);
+    setCanSalvage(false);
+    if (!selected) return;
+
+    try {
+      setIsAge(isAgeFile(await readBlobBytes(selected.slice(0, 128))));
+      const header = await readBackupHeader(selected);
+      setFileKeySlots(await readKeySlots(selected));
+      setFileHeader(header);
+      setFileSignature(await verifyBackupSignature(selected, trustedSigners));
+    } catch {
+      // Unreadable headers are reported when the user tries to decrypt
+    }
+  };
+
   const handleRestorePreview = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!password || !file) {
+    const openWithAgeIdentity = isAge && !!ageIdentity.trim();
+    if (!file || (!password && !openWithRecovery && !openWithShares && !openWithAgeIdentity)) {
       setStatus('error');
       setMessage('Password and file are required');
       return;
     }
 
+    if (openWithRecovery && !isValidRecoveryKey(recoveryPhrase)) {
+      setStatus('error');
+      setMessage('Invalid recovery key. Check the words and their order.');
+      return;
+    }
+
     try {
+      setCanSalvage(false);
       setStatus('loading');
       setMessage('Reading and decrypting file...');
-      const text = await file.text();
-      const cookies = await decryptData(text, password, (current, total) => {
+      const identity = openWithIdentity
+        ? await unlockIdentity(storedIdentity!, password)
+        : undefined;
+
+      abortRef.current = new AbortController();
+      const payload = await decryptPayload(
+        file,
+        identity || openWithRecovery || openWithShares ? '' : password,
+        (current, total) => {
+          setProgress({ current, total });
+          setMessage(`Decrypting file... (${Math.round((current / total) * 100)}%)`);
+        },
+        {
+          identity,
+          keyfile: openWithKeyfile && keyfile ? await hashKeyfile(keyfile) : undefined,
+          recoveryPhrase: openWithRecovery ? recoveryPhrase : undefined,
+          shares: openWithShares ? shareText.split('\n') : undefined,
+          ageIdentities: openWithAgeIdentity ? [ageIdentity.trim()] : undefined,
+          signal: abortRef.current.signal,
+        }
+      );
+
+      const validation = validateCookies(payload.cookies);
+      ds.loadCookies(validation.cookies);
+      setPayloadDetails(payload);
+      setBackupStores(storesOfCookies(validation.cookies, payload.stores));
+      setStoreOverrides({});
+
+      setStatus('idle');
+      // Entries that are not valid cookies are left out of the preview; say why
+      setMessage(summarizeValidation(validation));
+      setStep('preview');
+    } catch (err: unknown) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        setStatus('idle');
+        setMessage('Decryption cancelled');
+        return;
+      }
+      console.error(err);
+      setStatus('error');
+      setMessage(describeBackupError(err, 'Failed to decrypt. Check password.'));
+      // Only v4 backups can be salvaged, and only with their password. The file
+      // is sniffed rather than parsed, since salvage is for damaged JSON too.
+      setCanSalvage(err instanceof BackupError && !!password && (await looksLikeV4(file)));
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleSalvage = async () => {
+    if (!file) return;
+    try {
+      setCanSalvage(false);
+      setStatus('loading');
+      setMessage('Salvaging intact chunks...');
+      const { cookies, report } = await salvageBackup(file, password, (current, total) => {
         setProgress({ current, total });
-        setMessage(`Decrypting file... (${Math.round((current / total) * 100)}%)`);
+        setMessage(`Salvaging intact chunks... (${Math.round((current / total) * 100)}%)`);
       });
 
-      ds.loadCookies(cookies);
+      const validation = validateCookies(cookies);
+      ds.loadCookies(validation.cookies);
+      setPayloadDetails(null);
+      setBackupStores(storesOfCookies(validation.cookies));
+      setStoreOverrides({});
 
       setStatus('idle');
-      setMessage('');
+      setMessage(
+        [summarizeSalvage(report), summarizeValidation(validation)].filter(Boolean).join(' ')
+      );
       setStep('preview');
     } catch (err: unknown) {
       console.error(err);
       setStatus('error');
-      setMessage(err instanceof Error ? err.message : 'Failed to decrypt. Check password.');
+      setMessage(describeBackupError(err, 'Nothing could be salvaged from this file'));
     }
   };
 
@@ -75,9 +294,14 @@ export function RestoreFlow() {
       setRestoreDetails([]);
       setShowWarnings(false);
 
-      const result: RestoreResult = await restoreCookies(cookiesToRestore, (current, total) => {
-        setProgress({ current, total });
-      });
+      const result: RestoreResult = await restoreCookies(
+        cookiesToRestore,
+        (current, total) => {
+          setProgress({ current, total });
+        },
+        strategy,
+        storeMapping
+      );
 
       setRestoreDetails(result.details);
       setStatus('success');
@@ -86,16 +310,22 @@ export function RestoreFlow() {
       if (result.success > 0) parts.push(`✓ ${result.success} restored`);
       if (result.skipped > 0) parts.push(`⚠ ${result.skipped} skipped`);
       if (result.failed > 0) parts.push(`✗ ${result.failed} failed`);
+      if (result.unpartitioned > 0) parts.push(`⚠ ${result.unpartitioned} without partition`);
       setMessage(parts.join(' · '));
 
-      if (result.skipped > 0 || result.failed > 0) {
+      if (result.skipped > 0 || result.failed > 0 || result.unpartitioned > 0) {
         setShowWarnings(true);
       }
 
       setPassword('');
+      setKeyfile(null);
+      setShareText('');
+      setAgeIdentity('');
       setStep('file');
       ds.reset();
       setFile(null);
+      setFileHeader(null);
+      setPayloadDetails(null);
     } catch (err: unknown) {
       console.error(err);
       setStatus('error');
@@ -103,7 +333,9 @@ export function RestoreFlow() {
     }
   };
 
-  const warningCount = restoreDetails.filter((d) => d.status !== 'success').length;
+  // Cookies restored without their partition succeeded, but still need a look
+  const needsAttention = (d: CookieRestoreDetail) => d.status !== 'success' || !!d.unpartitioned;
+  const warningCount = restoreDetails.filter(needsAttention).length;
 
   return (
     <div className="space-y-4">
@@ -116,37 +348,160 @@ export function RestoreFlow() {
                 <FileKey className="w-6 h-6 text-muted-foreground" />
               </div>
               <span className="text-sm text-muted-foreground">
-                {file ? file.name : 'Click to select .cv or .ckz file'}
+                {file ? file.name : 'Click to select .cv, .ckz or .age file'}
               </span>
               <input
                 id="restore-file"
                 type="file"
                 className="absolute inset-0 opacity-0 cursor-pointer"
-                onChange={(e) => setFile(e.target.files?.[0] || null)}
-                accept=".json,.ckz,.cv,.txt"
+                onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                accept=".json,.ckz,.cv,.txt,.age"
               />
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="restore-password">Decryption Password</Label>
-            <div className="relative">
-              <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+          {fileHeader && <BackupInfoCard header={fileHeader} keySlots={fileKeySlots} />}
+          {fileSignature && <SignatureBadge signature={fileSignature} />}
+
+          {hasRecoverySlot && (
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={useRecovery}
+                onChange={() => setUseRecovery(!useRecovery)}
+                id="restore-use-recovery"
+              />
+              <Label htmlFor="restore-use-recovery" className="text-sm cursor-pointer">
+                Use recovery key
+              </Label>
+            </div>
+          )}
+
+          {sharesSlot && !openWithRecovery && (
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={useShares}
+                onChange={() => setUseShares(!useShares)}
+                id="restore-use-shares"
+              />
+              <Label htmlFor="restore-use-shares" className="text-sm cursor-pointer">
+                Combine shares
+              </Label>
+            </div>
+          )}
+
+          {hasIdentitySlot && !openWithRecovery && !openWithShares && (
+            <div className="flex items-center gap-3">
+              <Checkbox
+                checked={useIdentity}
+                onChange={() => setUseIdentity(!useIdentity)}
+                id="restore-use-identity"
+              />
+              <Label htmlFor="restore-use-identity" className="text-sm cursor-pointer">
+                Open with my identity
+              </Label>
+            </div>
+          )}
+
+          {openWithRecovery ? (
+            <div className="space-y-2">
+              <Label htmlFor="restore-recovery-key">Recovery Key</Label>
+              <Textarea
+                id="restore-recovery-key"
+                placeholder="Enter the 24 words in order"
+                className="font-mono"
+                autoComplete="off"
+                spellCheck={false}
+                value={recoveryPhrase}
+                onChange={(e) => setRecoveryPhrase(e.target.value)}
+              />
+            </div>
+          ) : openWithShares ? (
+            <div className="space-y-2">
+              <Label htmlFor="restore-shares">Shares</Label>
+              <Textarea
+                id="restore-shares"
+                placeholder={`Paste ${sharesSlot?.threshold} of the ${sharesSlot?.count} shares, one per line`}
+                className="font-mono"
+                autoComplete="off"
+                spellCheck={false}
+                value={shareText}
+                onChange={(e) => setShareText(e.target.value)}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="restore-password">
+                {openWithIdentity ? 'Identity Password' : 'Decryption Password'}
+              </Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="restore-password"
+                  type="password"
+                  placeholder="Enter password"
+                  className="pl-9"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {isAge && (
+            <div className="space-y-2">
+              <Label htmlFor="restore-age-identity">age Identity</Label>
               <Input
-                id="restore-password"
+                id="restore-age-identity"
                 type="password"
-                placeholder="Enter password"
-                className="pl-9"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
+                placeholder="AGE-SECRET-KEY-1..."
+                className="font-mono"
+                autoComplete="off"
+                value={ageIdentity}
+                onChange={(e) => setAgeIdentity(e.target.value)}
               />
+              <p className="text-xs text-muted-foreground">
+                This is an age file. Enter its passphrase as the password, or the identity it was
+                encrypted to.
+              </p>
             </div>
-          </div>
+          )}
+
+          {openWithKeyfile && (
+            <div className="space-y-2">
+              <Label htmlFor="restore-keyfile">Keyfile</Label>
+              <Input
+                id="restore-keyfile"
+                type="file"
+                onChange={(e) => setKeyfile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-muted-foreground">
+                This backup was made with a keyfile. Choose the same file to open it.
+              </p>
+            </div>
+          )}
 
           <Button type="submit" className="w-full" disabled={status === 'loading'}>
             {status === 'loading' ? 'Decrypting...' : 'Next: Select Domains'}
           </Button>
 
+          {canSalvage && status === 'error' && (
+            <Button type="button" variant="outline" className="w-full" onClick={handleSalvage}>
+              <LifeBuoy className="w-4 h-4 mr-2" aria-hidden="true" />
+              Try Salvage Mode
+            </Button>
+          )}
+
+          {status === 'loading' && (
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => abortRef.current?.abort()}
+            >
+              Cancel
+            </Button>
+          )}
+
           {status === 'loading' && progress.total > 0 && (
             <div
               className="w-full bg-secondary h-2 rounded-full overflow-hidden"
@@ -188,8 +543,38 @@ export function RestoreFlow() {
             totalCookiesSelected={ds.totalCookiesSelected}
             totalDomains={ds.totalDomains}
             totalCookies={ds.totalCookies}
+            diff={cookieDiff}
+            storeNames={
+              backupStores.length > 1
+                ? Object.fromEntries(backupStores.map((store) => [store.id, store.name]))
+                : undefined
+            }
           />
 
+          {cookieDiff && <CookieDiffView diff={cookieDiff} />}
+
+          {payloadDetails && <PayloadDetails payload={payloadDetails} />}
+
+          {(backupStores.length > 1 || targetStores.length > 1) && (
+            <StoreMappingCard
+              backupStores={backupStores}
+              targetStores={targetStores}
+              mapping={storeMapping}
+              onChange={(backupStoreId, targetStoreId) =>
+                setStoreOverrides({ ...storeOverrides, [backupStoreId]: targetStoreId })
+              }
+            />
+          )}
+
+          <RestorePlanCard
+            strategy={strategy}
+            onStrategyChange={setStrategy}
+            plan={restorePlan}
+            error={liveError}
+          />
+
+          {fileSignature && <SignatureBadge signature={fileSignature} />}
+
           <Button
             type="button"
             className="w-full"
@@ -252,27 +637,23 @@ export function RestoreFlow() {
 
           {showWarnings && (
             <div id="warnings-panel" className="max-h-48 overflow-y-auto divide-y divide-border">
-              {restoreDetails
-                .filter((d) => d.status !== 'success')
-                .map((detail, idx) => (
-                  <div
-                    key={`${detail.domain}-${detail.name}-${idx}`}
-                    className="p-3 flex items-start gap-3 text-xs"
-                  >
-                    {detail.status === 'skipped' ? (
-                      <AlertTriangle className="w-4 h-4 text-yellow-500 flex-shrink-0 mt-0.5" />
-                    ) : (
-                      <XCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
-                    )}
-                    <div className="min-w-0 flex-1">
-                      <p className="font-medium truncate">{detail.name}</p>
-                      <p className="text-muted-foreground truncate">{detail.domain}</p>
-                      {detail.reason && (
-                        <p className="text-muted-foreground mt-1">{detail.reason}</p>
-                      )}
-                    </div>
+              {restoreDetails.filter(needsAttention).map((detail, idx) => (
+                <div
+                  key={`${detail.domain}-${detail.name}-${idx}`}
+                  className="p-3 flex items-start gap-3 text-xs"
+                >
+                  {detail.status !== 'failed' ? (
+                    <AlertTriangle className="w-4 h-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <XCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{detail.name}</p>
+                    <p className="text-muted-foreground truncate">{detail.domain}</p>
+                    {detail.reason && <p className="text-muted-foreground mt-1">{detail.reason}</p>}
                   </div>
-                ))}
+                </div>
+              ))}
             </div>
           )}
         </div>
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, GitCompare } from 'lucide-react';
+import { Button } from './ui/Button';
+import type { RestoreAction, RestorePlan, RestoreStrategy } from '../utils/cookies';
+
+interface RestorePlanCardProps {
+  strategy: RestoreStrategy;
+  onStrategyChange: (strategy: RestoreStrategy) => void;
+  /** Dry-run of the selected cookies, or null while live cookies load */
+  plan: RestorePlan | null;
+  /** Shown instead of the plan when the live cookies could not be read */
+  error?: string;
+}
+
+const STRATEGIES: { value: RestoreStrategy; label: string; description: string }[] = [
+  { value: 'overwrite', label: 'Overwrite', description: 'Write every cookie from the backup.' },
+  {
+    value: 'skip-existing',
+    label: 'Skip Existing',
+    description: 'Only add cookies the browser does not have yet.',
+  },
+  {
+    value: 'keep-newer',
+    label: 'Keep Newer',
+    description: 'Replace a live cookie only if the backup copy expires later.',
+  },
+  {
+    value: 'replace-domain',
+    label: 'Replace Domain',
+    description: 'Clear other cookies on each restored domain, then write the backup.',
+  },
+];
+
+const ACTION_LABELS: Record<RestoreAction, string> = {
+  add: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  skip: 'Skip',
+};
+
+const ACTION_STYLES: Record<RestoreAction, string> = {
+  add: 'bg-green-500/10 text-green-600 dark:text-green-400',
+  update: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  unchanged: 'bg-secondary text-muted-foreground',
+  skip: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400',
+};
+
+/**
+ * Lets the user pick how conflicts with live cookies are handled, and shows
+ * what the restore will do before anything is written
+ */
+export function RestorePlanCard({ strategy, onStrategyChange, plan, error }: RestorePlanCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const changes = plan ? plan.entries.filter((entry) => entry.action !== 'unchanged') : [];
+
+  const summary = plan
+    ? [
+        `${plan.counts.add} new`,
+        `${plan.counts.update} updated`,
+        `${plan.counts.unchanged} unchanged`,
+        `${plan.counts.skip} skipped`,
+        ...(plan.removals.length > 0 ? [`${plan.removals.length} removed`] : []),
+      ].join(' · ')
+    : (error ?? 'Comparing with current cookies...');
+
+  return (
+    <div className="border border-border rounded-xl p-3 space-y-3 bg-card text-xs">
+      <p className="font-medium text-sm flex items-center gap-1.5">
+        <GitCompare className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+        Existing cookies
+      </p>
+
+      <div className="flex flex-wrap gap-2" role="group" aria-label="Restore strategy">
+        {STRATEGIES.map((option) => (
+          <Button
+            key={option.value}
+            type="button"
+            size="sm"
+            variant={strategy === option.value ? 'default' : 'secondary'}
+            aria-pressed={strategy === option.value}
+            onClick={() => onStrategyChange(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+      <p className="text-muted-foreground">
+        {STRATEGIES.find((option) => option.value === strategy)?.description}
+      </p>
+
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        disabled={changes.length === 0 && !plan?.removals.length}
+        aria-expanded={expanded}
+        aria-controls="restore-plan-list"
+        className="w-full flex items-center justify-between font-medium disabled:cursor-default"
+      >
+        <span>{summary}</span>
+        {(changes.length > 0 || !!plan?.removals.length) &&
+          (expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />)}
+      </button>
+
+      {expanded && plan && (
+        <ul id="restore-plan-list" className="max-h-48 overflow-y-auto divide-y divide-border">
+          {changes.map((entry, idx) => (
+            <li
+              key={`${entry.cookie.domain}-${entry.cookie.name}-${idx}`}
+              className="py-1.5 flex items-center gap-2"
+            >
+              <span className={`px-1.5 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>
+                {ACTION_LABELS[entry.action]}
+              </span>
+              <span className="min-w-0 flex-1 truncate">
+                {entry.cookie.name}{' '}
+                <span className="text-muted-foreground">{entry.cookie.domain}</span>
+              </span>
+              {entry.reason && <span className="text-muted-foreground">{entry.reason}</span>}
+            </li>
+          ))}
+          {plan.removals.map((cookie, idx) => (
+            <li
+              key={`removed-${cookie.domain}-${cookie.name}-${idx}`}
+              className="py-1.5 flex items-center gap-2"
+            >
+              <span className="px-1.5 py-0.5 rounded bg-destructive/10 text-destructive">
+                Remove
+              </span>
+              <span className="min-w-0 flex-1 truncate">
+                {cookie.name} <span className="text-muted-foreground">{cookie.domain}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
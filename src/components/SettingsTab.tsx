@@ -12,6 +12,9 @@ import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Label } from './ui/Label';
 import { Checkbox } from './ui/Checkbox';
+import { IdentitySettings } from './IdentitySettings';
+import { SigningSettings } from './SigningSettings';
+import { RecoverySettings } from './RecoverySettings';
 import browser from 'webextension-polyfill';
 import { getSettings, setSettings, clearCloudToken, type VaultSettings } from '../utils/storage';
 import { authorizeGoogleDrive, authorizeDropbox } from '../utils/cloud-sync/oauth';
@@ -342,6 +345,15 @@ export function SettingsTab() {
         )}
       </div>
 
+      {/* Identity Section */}
+      <IdentitySettings settings={settings} onChange={loadSettings} onMessage={showMessage} />
+
+      {/* Signing Section */}
+      <SigningSettings settings={settings} onChange={loadSettings} onMessage={showMessage} />
+
+      {/* Recovery Section */}
+      <RecoverySettings settings={settings} onChange={loadSettings} onMessage={showMessage} />
+
       {/* Storage Info */}
       <div className="border border-border rounded-xl p-4 space-y-3 bg-card">
         <div className="flex items-center gap-3">
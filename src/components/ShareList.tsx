@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Copy, Download, Users } from 'lucide-react';
+import { Button } from './ui/Button';
+import { downloadBlob } from '../utils/downloadBlob';
+
+interface ShareListProps {
+  shares: string[];
+  threshold: number;
+  onDone: () => void;
+}
+
+/**
+ * Shows the Shamir shares of a new backup. They are not stored and are shown once.
+ */
+export function ShareList({ shares, threshold, onDone }: ShareListProps) {
+  const [copied, setCopied] = useState<number | null>(null);
+
+  const handleCopy = async (index: number) => {
+    await navigator.clipboard.writeText(shares[index]);
+    setCopied(index);
+  };
+
+  const handleSave = async () => {
+    const text = shares
+      .map(
+        (share, i) =>
+          `Share ${i + 1} of ${shares.length} (any ${threshold} open the backup)\n${share}\n`
+      )
+      .join('\n');
+    await downloadBlob(new Blob([text], { type: 'text/plain' }), 'cookie-vault-shares.txt');
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-3 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <Users className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Backup Shares</h3>
+          <p className="text-xs text-muted-foreground">
+            Any {threshold} of these {shares.length} shares open the backup
+          </p>
+        </div>
+      </div>
+
+      <p className="text-xs text-destructive">
+        Give each share to a different person now. They are not stored and will not be shown again.
+      </p>
+      <ol className="space-y-2">
+        {shares.map((share, i) => (
+          <li key={share} className="flex items-start gap-2">
+            <code className="flex-1 min-w-0 break-all text-xs font-mono">{share}</code>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              aria-label={copied === i ? `Share ${i + 1} copied` : `Copy share ${i + 1}`}
+              onClick={() => handleCopy(i)}
+            >
+              <Copy className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" onClick={handleSave}>
+          <Download className="w-4 h-4 mr-2" aria-hidden="true" />
+          Save as Text
+        </Button>
+        <Button type="button" onClick={onDone}>
+          I&apos;ve Handed Them Out
+        </Button>
+      </div>
+    </div>
+  );
+}
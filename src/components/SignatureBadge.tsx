@@ -0,0 +1,48 @@
+import { ShieldCheck, ShieldAlert, ShieldQuestion, ShieldOff } from 'lucide-react';
+import type { SignatureStatus } from '../utils/signing';
+
+interface SignatureBadgeProps {
+  signature: SignatureStatus;
+}
+
+/**
+ * Shows who signed a backup, checked before it is restored
+ */
+export function SignatureBadge({ signature }: SignatureBadgeProps) {
+  if (signature.status === 'invalid') {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-destructive" role="alert">
+        <ShieldAlert className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        Signature invalid: this file was changed after it was signed
+      </p>
+    );
+  }
+
+  if (signature.status === 'unsigned') {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <ShieldOff className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        Unsigned: the origin of this file cannot be verified
+      </p>
+    );
+  }
+
+  if (signature.trustedName) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-green-600 dark:text-green-400">
+        <ShieldCheck className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        Signed by {signature.trustedName}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1 text-xs text-yellow-600 dark:text-yellow-400">
+      <p className="flex items-center gap-1.5">
+        <ShieldQuestion className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+        Signed by an unknown key
+      </p>
+      <p className="font-mono truncate text-muted-foreground">{signature.signer}</p>
+    </div>
+  );
+}
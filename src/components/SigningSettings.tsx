@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { PenLine, Copy, ShieldCheck } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { NamedKeyList } from './NamedKeyList';
+import { getOrCreateSigningKey, setSettings, type VaultSettings } from '../utils/storage';
+import { decodePublicKey } from '../utils/identity';
+import { SIGNING_KEY_PREFIX } from '../utils/signing';
+
+interface SigningSettingsProps {
+  settings: VaultSettings;
+  onChange: () => Promise<void>;
+  onMessage: (text: string, type: 'success' | 'error') => void;
+}
+
+/**
+ * Shows this install's signing key and manages the trusted signers list
+ */
+export function SigningSettings({ settings, onChange, onMessage }: SigningSettingsProps) {
+  const [creating, setCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await getOrCreateSigningKey();
+      await onChange();
+      onMessage('Signing key created', 'success');
+    } catch (err) {
+      onMessage(err instanceof Error ? err.message : 'Failed to create signing key', 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!settings.signingKey) return;
+    await navigator.clipboard.writeText(settings.signingKey.publicKey);
+    onMessage('Signing key copied', 'success');
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-4 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <PenLine className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Backup Signing</h3>
+          <p className="text-xs text-muted-foreground">
+            Check who made a backup before restoring it
+          </p>
+        </div>
+      </div>
+
+      {settings.signingKey ? (
+        <div className="space-y-2">
+          <Label htmlFor="signing-public-key">Your Signing Key</Label>
+          <div className="flex gap-2">
+            <Input
+              id="signing-public-key"
+              type="text"
+              readOnly
+              value={settings.signingKey.publicKey}
+              className="flex-1 font-mono text-xs"
+            />
+            <Button type="button" variant="outline" onClick={handleCopy}>
+              <Copy className="w-4 h-4 mr-2" aria-hidden="true" />
+              Copy
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Add this key as a trusted signer on the browsers that restore your backups.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            A signing key is created with the first signed backup.
+          </p>
+          <Button type="button" size="sm" onClick={handleCreate} disabled={creating}>
+            {creating ? 'Creating...' : 'Create Signing Key'}
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <p className="text-sm font-medium flex items-center gap-1.5">
+          <ShieldCheck className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+          Trusted Signers
+        </p>
+
+        <NamedKeyList
+          kind="signer"
+          items={settings.trustedSigners}
+          prefix={SIGNING_KEY_PREFIX}
+          validate={(publicKey) => decodePublicKey(publicKey, SIGNING_KEY_PREFIX)}
+          onChange={async (trustedSigners) => {
+            await setSettings({ trustedSigners });
+            await onChange();
+          }}
+          onMessage={onMessage}
+        />
+      </div>
+    </div>
+  );
+}
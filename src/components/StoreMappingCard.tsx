@@ -0,0 +1,54 @@
+import { ArrowRight, Boxes } from 'lucide-react';
+import type { CookieStore, StoreMapping } from '../utils/cookieStores';
+
+interface StoreMappingCardProps {
+  /** Stores the backup's cookies came from */
+  backupStores: CookieStore[];
+  /** Stores of this browser */
+  targetStores: CookieStore[];
+  mapping: StoreMapping;
+  onChange: (backupStoreId: string, targetStoreId: string) => void;
+}
+
+/**
+ * Lets the user choose which local cookie store each backed-up store is
+ * restored into, e.g. a "Work" container into this browser's "Work" container
+ */
+export function StoreMappingCard({
+  backupStores,
+  targetStores,
+  mapping,
+  onChange,
+}: StoreMappingCardProps) {
+  return (
+    <div className="border border-border rounded-xl p-3 space-y-2 bg-card text-xs">
+      <p className="font-medium text-sm flex items-center gap-1.5">
+        <Boxes className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+        Cookie stores
+      </p>
+      {backupStores.map((store) => (
+        <div key={store.id} className="flex items-center gap-2">
+          <span className="flex-1 min-w-0 truncate">{store.name}</span>
+          <ArrowRight className="w-3.5 h-3.5 text-muted-foreground" aria-hidden="true" />
+          <select
+            aria-label={`Restore ${store.name} cookies into`}
+            className="flex-1 min-w-0 h-8 rounded-md border border-input bg-background px-2 text-xs"
+            value={mapping[store.id] ?? ''}
+            onChange={(e) => onChange(store.id, e.target.value)}
+          >
+            {targetStores.map((target) => (
+              <option key={target.id} value={target.id}>
+                {target.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+      {!targetStores.some((store) => store.incognito) && (
+        <p className="text-muted-foreground">
+          Open a private window to restore into private browsing.
+        </p>
+      )}
+    </div>
+  );
+}
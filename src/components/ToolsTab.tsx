@@ -0,0 +1,22 @@
+import { MigrateTool } from './MigrateTool';
+import { RekeyTool } from './RekeyTool';
+import { VerifyTool } from './VerifyTool';
+
+/**
+ * Utilities that work on backup files without touching the browser's cookies
+ */
+export function ToolsTab() {
+  return (
+    <div className="space-y-4">
+      <div className="text-center mb-4">
+        <p className="text-sm text-muted-foreground">
+          Work with backup files directly. Your browser&apos;s cookies are not changed.
+        </p>
+      </div>
+
+      <VerifyTool />
+      <RekeyTool />
+      <MigrateTool />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { FileCheck, Lock } from 'lucide-react';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Label } from './ui/Label';
+import { SignatureBadge } from './SignatureBadge';
+import { verifyBackup, type VerifyReport } from '../utils/verify';
+import { getSettings } from '../utils/storage';
+import { describeBackupError } from '../utils/errors';
+import type { KdfParams } from '../utils/kdf';
+
+function formatKdf(kdf: KdfParams): string {
+  return kdf.algorithm === 'Argon2id'
+    ? `Argon2id (${kdf.iterations} passes, ${Math.round((kdf.memoryCost ?? 0) / 1024)} MiB)`
+    : `${kdf.algorithm} (${kdf.iterations.toLocaleString()} iterations)`;
+}
+
+/**
+ * Checks that a backup file decrypts and is intact, without restoring it
+ */
+export function VerifyTool() {
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState('');
+  const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
+  const [message, setMessage] = useState('');
+  const [report, setReport] = useState<VerifyReport | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !password) {
+      setStatus('error');
+      setMessage('File and password are required');
+      return;
+    }
+
+    try {
+      setStatus('loading');
+      setMessage('Verifying...');
+      setReport(null);
+
+      const settings = await getSettings();
+      setReport(await verifyBackup(file, password, { trustedSigners: settings.trustedSigners }));
+      setStatus('success');
+      setMessage('Backup decrypts and is intact');
+    } catch (err: unknown) {
+      setStatus('error');
+      setMessage(describeBackupError(err, 'Verification failed'));
+    }
+  };
+
+  return (
+    <div className="border border-border rounded-xl p-4 space-y-4 bg-card">
+      <div className="flex items-center gap-3">
+        <div className="w-10 h-10 bg-secondary rounded-lg flex items-center justify-center">
+          <FileCheck className="w-5 h-5 text-muted-foreground" />
+        </div>
+        <div>
+          <h3 className="font-medium text-sm">Verify Backup</h3>
+          <p className="text-xs text-muted-foreground">
+            Check that a backup still decrypts and is intact, without restoring it
+          </p>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="verify-file">Backup File</Label>
+          <Input
+            id="verify-file"
+            type="file"
+            accept=".json,.ckz,.cv,.txt,.age"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              setReport(null);
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="verify-password">Password</Label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="verify-password"
+              type="password"
+              placeholder="Password the file opens with"
+              className="pl-9"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Button type="submit" className="w-full" disabled={status === 'loading'}>
+          {status === 'loading' ? 'Verifying...' : 'Verify'}
+        </Button>
+      </form>
+
+      {report && (
+        <div className="space-y-3">
+          <SignatureBadge signature={report.signature} />
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Format</dt>
+            <dd>{report.format === 'sjcl' ? 'Legacy (SJCL)' : report.format}</dd>
+            <dt className="text-muted-foreground">Key derivation</dt>
+            <dd>{report.kdf.length > 0 ? report.kdf.map(formatKdf).join(', ') : 'None'}</dd>
+            <dt className="text-muted-foreground">Chunks</dt>
+            <dd>{report.chunkCount}</dd>
+            <dt className="text-muted-foreground">Checksum</dt>
+            <dd>{report.checksum === 'verified' ? 'Verified' : 'Not stored in this format'}</dd>
+            <dt className="text-muted-foreground">Cookies</dt>
+            <dd>
+              {report.cookieCount}
+              {report.expiredCount > 0 && ` (${report.expiredCount} expired)`}
+              {report.invalidCount > 0 && `, ${report.invalidCount} invalid entries skipped`}
+            </dd>
+            <dt className="text-muted-foreground">Domains</dt>
+            <dd className="break-all">
+              {report.domains.length}
+              {report.domains.length > 0 && `: ${report.domains.join(', ')}`}
+            </dd>
+          </dl>
+        </div>
+      )}
+
+      <div aria-live="polite" aria-atomic="true">
+        {message && (
+          <div
+            className={`p-3 rounded-xl text-sm font-medium ${
+              status === 'error'
+                ? 'bg-destructive/10 text-destructive border border-destructive/20'
+                : status === 'success'
+                  ? 'bg-green-500/10 text-green-600 dark:text-green-400 border border-green-500/20'
+                  : 'bg-secondary text-secondary-foreground'
+            }`}
+          >
+            {message}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
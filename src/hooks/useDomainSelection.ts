@@ -56,21 +56,35 @@ export function useDomainSelection() {
     );
   }, []);
 
-  const toggleCookie = useCallback((domain: string, cookieName: string, cookiePath: string) => {
-    setDomainSelections((prev) =>
-      prev.map((g) => {
-        if (g.domain !== domain) return g;
-        return {
-          ...g,
-          cookies: g.cookies.map((c) =>
-            c.cookie.name === cookieName && c.cookie.path === cookiePath
-              ? { ...c, selected: !c.selected }
-              : c
-          ),
-        };
-      })
-    );
-  }, []);
+  const toggleCookie = useCallback(
+    (
+      domain: string,
+      cookieName: string,
+      cookiePath: string,
+      topLevelSite?: string,
+      /** Limits the toggle to one store; by default the cookie is toggled in every store */
+      storeId?: string
+    ) => {
+      setDomainSelections((prev) =>
+        prev.map((g) => {
+          if (g.domain !== domain) return g;
+          return {
+            ...g,
+            cookies: g.cookies.map((c) =>
+              c.cookie.name === cookieName &&
+              c.cookie.path === cookiePath &&
+              // Partitioned copies of a cookie share its name and path
+              c.cookie.partitionKey?.topLevelSite === topLevelSite &&
+              (storeId === undefined || c.cookie.storeId === storeId)
+                ? { ...c, selected: !c.selected }
+                : c
+            ),
+          };
+        })
+      );
+    },
+    []
+  );
 
   const toggleExpand = useCallback((domain: string) => {
     setDomainSelections((prev) =>
@@ -0,0 +1,52 @@
+/**
+ * age files made by a reference implementation.
+ *
+ * Generated once with age-encryption 0.3.1 (typage, the TypeScript
+ * implementation by the authors of age) and checked in, so age.ts is tested
+ * against files it did not write. The identity below exists only for these
+ * fixtures.
+ */
+
+/** X25519 identity the X25519 fixtures are encrypted to */
+export const REFERENCE_AGE_IDENTITY =
+  'AGE-SECRET-KEY-1TS54MG5V6ZMQAR97ZUXFPG768P2FTAZJC06NLWJ8VSXUNNM5W8QQKFF65L';
+
+/** Recipient (public key) of REFERENCE_AGE_IDENTITY */
+export const REFERENCE_AGE_RECIPIENT =
+  'age1hywndcfsm9s8te7glzg05ym5e03qtmmxajply2r42l86xhfgdphqdgn7ph';
+
+/** Passphrase of the scrypt fixture (work factor 10) */
+export const REFERENCE_AGE_PASSPHRASE = 'correct horse battery staple';
+
+/** Plaintext of every fixture: a cookies.txt with one HttpOnly cookie */
+export const REFERENCE_AGE_PLAINTEXT =
+  '# Netscape HTTP Cookie File\n#HttpOnly_.example.com\tTRUE\t/\tTRUE\t1893456000\tsid\treference\n';
+
+/** Binary age file for REFERENCE_AGE_RECIPIENT, base64-encoded */
+export const REFERENCE_AGE_X25519_FILE = [
+  'YWdlLWVuY3J5cHRpb24ub3JnL3YxCi0+IFgyNTUxOSBNYlNSS2dNMXRUNTkxd0NsTldYT0FKTkFLVlFXY3RQa2Jza3A2cnZv',
+  'cG1vCkI1ZlM2SzVNcWNzclRxaURGYjR6UmZOWGNQa3dvdFlHS3Z2a1dZUWpuRGMKLS0tIG1QMmh1amxBNVlIYXhwOFRBRmE4',
+  'eXk0dU1vSlJrajE4RE5UUzVWT3JkcGsKrMH0jymj7XIwDLIKlJKCZxpLMaV3LXwa5UEKtT9ebPBZtYFIeYkHB43QHQkz/+7d',
+  'zx7z34KQT863TBnDQFbnD5XQ9KxkFONgg+jIf/9p8IenCBIxEQtnAX5HwoQrBmHB8C5GrkixBbg3G/4uesplMX1KeVRtb7VE',
+].join('');
+
+/** Binary age file for REFERENCE_AGE_PASSPHRASE, base64-encoded */
+export const REFERENCE_AGE_SCRYPT_FILE = [
+  'YWdlLWVuY3J5cHRpb24ub3JnL3YxCi0+IHNjcnlwdCBOZHhwZm10UHp4Y2ZnRVpLNFNWa1pRIDEwClJudlZaNnZYOUs4TmEw',
+  'dFJ3WmRSdEZjc1oyQ2ptenNGb3hlVCtoN3NNQWsKLS0tIFE4dGRjbld2VmRFck5lc2cwazMybHgzSVI2S3FFZlVTTEVVK2Fn',
+  'bUNOb28KYrup5RnKsc8DwWRz31uw2DxVOZ7+LURmWd+/tMPGgYpBgGwduE6yO/ikATCLlHaKKpL3XYR+GYBfr6qyLzQY5mem',
+  '1NJ7UKocO+D88j/PJL2I6qS/KjByzTtzPR5qDSN9jrR5wby9Ka1+JGrq2FowH94F5VIPJDTD',
+].join('');
+
+/** The X25519 file, armored */
+export const REFERENCE_AGE_ARMORED_FILE = [
+  '-----BEGIN AGE ENCRYPTED FILE-----',
+  'YWdlLWVuY3J5cHRpb24ub3JnL3YxCi0+IFgyNTUxOSBNYlNSS2dNMXRUNTkxd0Ns',
+  'TldYT0FKTkFLVlFXY3RQa2Jza3A2cnZvcG1vCkI1ZlM2SzVNcWNzclRxaURGYjR6',
+  'UmZOWGNQa3dvdFlHS3Z2a1dZUWpuRGMKLS0tIG1QMmh1amxBNVlIYXhwOFRBRmE4',
+  'eXk0dU1vSlJrajE4RE5UUzVWT3JkcGsKrMH0jymj7XIwDLIKlJKCZxpLMaV3LXwa',
+  '5UEKtT9ebPBZtYFIeYkHB43QHQkz/+7dzx7z34KQT863TBnDQFbnD5XQ9KxkFONg',
+  'g+jIf/9p8IenCBIxEQtnAX5HwoQrBmHB8C5GrkixBbg3G/4uesplMX1KeVRtb7VE',
+  '-----END AGE ENCRYPTED FILE-----',
+  '',
+].join('\n');
@@ -0,0 +1,84 @@
+import { generateChecksum } from '../utils/password';
+
+/**
+ * Writers for the retired v3/v4 JSON formats.
+ *
+ * encryptData now always produces v5 containers, but decryptData must keep
+ * reading older backups (see docs/ADR/001-encryption-formats.md). These
+ * helpers reproduce the exact output of the pre-v5 writers so tests can
+ * build real v2/v3/v4 files.
+ */
+
+async function deriveFixtureKey(password: string, salt: Uint8Array<ArrayBuffer>) {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    { name: 'PBKDF2' },
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: 100000, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+}
+
+/**
+ * Encrypts data as a v3 (single-pass) JSON backup string
+ */
+export async function encryptV3(data: unknown, password: string): Promise<string> {
+  const rawData = JSON.stringify(data);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveFixtureKey(password, salt);
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(rawData)
+  );
+
+  return JSON.stringify({
+    version: 'v3',
+    salt: Array.from(salt),
+    iv: Array.from(iv),
+    data: Array.from(new Uint8Array(encrypted)),
+    checksum: await generateChecksum(rawData),
+  });
+}
+
+/**
+ * Encrypts data as a v4 (chunked) JSON backup string
+ */
+export async function encryptV4(
+  data: unknown,
+  password: string,
+  chunkSize: number = 1024 * 1024
+): Promise<string> {
+  const rawData = JSON.stringify(data);
+  const dataBytes = new TextEncoder().encode(rawData);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveFixtureKey(password, salt);
+  const chunks: { iv: number[]; data: number[] }[] = [];
+
+  for (let start = 0; start < dataBytes.length; start += chunkSize) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      dataBytes.slice(start, start + chunkSize)
+    );
+    chunks.push({ iv: Array.from(iv), data: Array.from(new Uint8Array(encrypted)) });
+  }
+
+  return JSON.stringify({
+    version: 'v4',
+    salt: Array.from(salt),
+    chunks,
+    chunkSize,
+    totalSize: dataBytes.length,
+    checksum: await generateChecksum(rawData),
+  });
+}
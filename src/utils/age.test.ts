@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'vitest';
+import { base64 } from '@scure/base';
+import { Decrypter } from 'age-encryption';
+import {
+  countAgeChunks,
+  decryptAge,
+  encryptAge,
+  generateAgeIdentity,
+  isAgeFile,
+  isValidAgeRecipient,
+} from './age';
+import { decryptData, describeBackup, type Cookie } from './crypto';
+import { formatNetscape } from './netscape';
+import {
+  MalformedFileError,
+  TruncatedChunkError,
+  UnsupportedVersionError,
+  WrongPasswordError,
+} from './errors';
+import {
+  REFERENCE_AGE_ARMORED_FILE,
+  REFERENCE_AGE_IDENTITY,
+  REFERENCE_AGE_PASSPHRASE,
+  REFERENCE_AGE_PLAINTEXT,
+  REFERENCE_AGE_RECIPIENT,
+  REFERENCE_AGE_SCRYPT_FILE,
+  REFERENCE_AGE_X25519_FILE,
+} from '../test/ageFixtures';
+
+const enc = new TextEncoder();
+const scrypt = (passphrase: string) => ({ type: 'scrypt' as const, passphrase, workFactor: 10 });
+
+describe('age files', () => {
+  it('should write an age v1 header with a scrypt stanza', async () => {
+    const file = await encryptAge(enc.encode('hello'), [scrypt('pw')]);
+    const lines = new TextDecoder().decode(file).split('\n');
+
+    expect(isAgeFile(file)).toBe(true);
+    expect(lines[0]).toBe('age-encryption.org/v1');
+    expect(lines[1]).toMatch(/^-> scrypt [A-Za-z0-9+/]{22} 10$/);
+    expect(lines[2]).toMatch(/^[A-Za-z0-9+/]{43}$/);
+    expect(lines[3]).toMatch(/^--- [A-Za-z0-9+/]{43}$/);
+    expect(new TextDecoder().decode(await decryptAge(file, { passphrase: 'pw' }))).toBe('hello');
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const file = await encryptAge(enc.encode('hello'), [scrypt('pw')]);
+
+    await expect(decryptAge(file, { passphrase: 'wrong' })).rejects.toBeInstanceOf(
+      WrongPasswordError
+    );
+  });
+
+  it('should encrypt to several X25519 recipients', async () => {
+    const alice = generateAgeIdentity();
+    const bob = generateAgeIdentity();
+    const file = await encryptAge(enc.encode('hello'), [
+      { type: 'x25519', recipient: alice.recipient },
+      { type: 'x25519', recipient: bob.recipient },
+    ]);
+
+    expect(alice.recipient).toMatch(/^age1[a-z0-9]{58}$/);
+    expect(alice.identity).toMatch(/^AGE-SECRET-KEY-1[A-Z0-9]{58}$/);
+    expect(isValidAgeRecipient(alice.recipient)).toBe(true);
+    expect(isValidAgeRecipient(alice.identity)).toBe(false);
+    expect(new TextDecoder().decode(await decryptAge(file, { identities: [bob.identity] }))).toBe(
+      'hello'
+    );
+    await expect(
+      decryptAge(file, { identities: [generateAgeIdentity().identity] })
+    ).rejects.toBeInstanceOf(WrongPasswordError);
+  });
+
+  it('should not mix a passphrase with other recipients', async () => {
+    const { recipient } = generateAgeIdentity();
+
+    await expect(
+      encryptAge(enc.encode('x'), [scrypt('pw'), { type: 'x25519', recipient }])
+    ).rejects.toThrow('A passphrase cannot be combined');
+  });
+
+  it('should round-trip payloads of several chunks, and empty ones', async () => {
+    const large = new Uint8Array(64 * 1024 * 2 + 5).map((_, i) => i % 256);
+    const exact = new Uint8Array(64 * 1024);
+    const { identity, recipient } = generateAgeIdentity();
+    const to = [{ type: 'x25519' as const, recipient }];
+
+    const file = await encryptAge(large, to);
+    expect(countAgeChunks(file)).toBe(3);
+    expect(await decryptAge(file, { identities: [identity] })).toEqual(large);
+    expect(await decryptAge(await encryptAge(exact, to), { identities: [identity] })).toEqual(
+      exact
+    );
+    expect(
+      await decryptAge(await encryptAge(new Uint8Array(), to), { identities: [identity] })
+    ).toEqual(new Uint8Array());
+  });
+
+  it('should detect tampering and truncation', async () => {
+    const { identity, recipient } = generateAgeIdentity();
+    const file = await encryptAge(new Uint8Array(64 * 1024 * 2), [{ type: 'x25519', recipient }]);
+    const identities = { identities: [identity] };
+
+    const truncated = file.slice(0, file.length - 16);
+    await expect(decryptAge(truncated, identities)).rejects.toBeInstanceOf(MalformedFileError);
+    // Dropping the whole last chunk leaves a middle chunk at the end
+    const cut = file.slice(0, file.length - (64 * 1024 + 16));
+    await expect(decryptAge(cut, identities)).rejects.toBeInstanceOf(TruncatedChunkError);
+
+    const text = new TextDecoder().decode(file.subarray(0, 200));
+    const stanzaEnd = text.indexOf('\n---');
+    const tampered = file.slice();
+    tampered[stanzaEnd - 1] ^= 1;
+    await expect(decryptAge(tampered, identities)).rejects.toThrow();
+
+    const badPayload = file.slice();
+    badPayload[badPayload.length - 1] ^= 1;
+    await expect(decryptAge(badPayload, identities)).rejects.toThrow('chunk 2 is damaged');
+  });
+
+  it('should read armored files and refuse other versions', async () => {
+    const file = await encryptAge(enc.encode('hello'), [scrypt('pw')]);
+    const armored = [
+      '-----BEGIN AGE ENCRYPTED FILE-----',
+      ...(base64.encode(file).match(/.{1,64}/g) ?? []),
+      '-----END AGE ENCRYPTED FILE-----',
+      '',
+    ].join('\n');
+
+    expect(
+      new TextDecoder().decode(await decryptAge(enc.encode(armored), { passphrase: 'pw' }))
+    ).toBe('hello');
+    await expect(
+      decryptAge(enc.encode('age-encryption.org/v2\n'), { passphrase: 'pw' })
+    ).rejects.toBeInstanceOf(UnsupportedVersionError);
+  });
+
+  describe('restoring', () => {
+    const cookies: Cookie[] = [
+      {
+        name: 'session',
+        value: 'abc',
+        domain: '.example.com',
+        path: '/',
+        secure: true,
+        httpOnly: false,
+        expirationDate: 1893456000,
+        storeId: '0',
+        session: false,
+        hostOnly: false,
+      },
+      {
+        name: 'sid',
+        value: 'secret',
+        domain: 'example.com',
+        path: '/',
+        secure: true,
+        httpOnly: true,
+        storeId: '0',
+        session: true,
+        hostOnly: true,
+      },
+    ];
+
+    it('should decrypt an age cookies.txt with decryptData', async () => {
+      const file = await encryptAge(enc.encode(formatNetscape(cookies, { markHttpOnly: true })), [
+        scrypt('pw'),
+      ]);
+
+      expect(await decryptData(new Blob([file]), 'pw')).toEqual(cookies);
+      expect(await describeBackup(new Blob([file]))).toEqual({
+        format: 'age',
+        kdf: [],
+        chunkCount: 1,
+        hasChecksum: false,
+      });
+    });
+
+    it('should decrypt an age JSON payload with an identity', async () => {
+      const { identity, recipient } = generateAgeIdentity();
+      const file = await encryptAge(enc.encode(JSON.stringify({ schema: 1, cookies })), [
+        { type: 'x25519', recipient },
+      ]);
+
+      expect(await decryptData(file, '', undefined, { ageIdentities: [identity] })).toEqual({
+        schema: 1,
+        cookies,
+      });
+    });
+  });
+
+  describe('reference files', () => {
+    const dec = new TextDecoder();
+
+    it('should decrypt an X25519 file from the reference implementation', async () => {
+      const file = base64.decode(REFERENCE_AGE_X25519_FILE);
+
+      expect(dec.decode(await decryptAge(file, { identities: [REFERENCE_AGE_IDENTITY] }))).toBe(
+        REFERENCE_AGE_PLAINTEXT
+      );
+    });
+
+    it('should decrypt a scrypt file from the reference implementation', async () => {
+      const file = base64.decode(REFERENCE_AGE_SCRYPT_FILE);
+
+      expect(dec.decode(await decryptAge(file, { passphrase: REFERENCE_AGE_PASSPHRASE }))).toBe(
+        REFERENCE_AGE_PLAINTEXT
+      );
+    });
+
+    it('should decrypt an armored file from the reference implementation', async () => {
+      const file = enc.encode(REFERENCE_AGE_ARMORED_FILE);
+
+      expect(isAgeFile(file)).toBe(true);
+      expect(
+        await decryptData(new Blob([file]), '', undefined, {
+          ageIdentities: [REFERENCE_AGE_IDENTITY],
+        })
+      ).toEqual([expect.objectContaining({ name: 'sid', domain: '.example.com', httpOnly: true })]);
+    });
+
+    it('should write files the reference implementation decrypts', async () => {
+      const decrypter = new Decrypter();
+      decrypter.addIdentity(REFERENCE_AGE_IDENTITY);
+      decrypter.addPassphrase(REFERENCE_AGE_PASSPHRASE);
+
+      const x25519 = await encryptAge(enc.encode(REFERENCE_AGE_PLAINTEXT), [
+        { type: 'x25519', recipient: REFERENCE_AGE_RECIPIENT },
+      ]);
+      const passphrase = await encryptAge(enc.encode(REFERENCE_AGE_PLAINTEXT), [
+        scrypt(REFERENCE_AGE_PASSPHRASE),
+      ]);
+
+      expect(await decrypter.decrypt(x25519, 'text')).toBe(REFERENCE_AGE_PLAINTEXT);
+      expect(await decrypter.decrypt(passphrase, 'text')).toBe(REFERENCE_AGE_PLAINTEXT);
+    });
+  });
+});
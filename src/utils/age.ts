@@ -0,0 +1,493 @@
+import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import { x25519 } from '@noble/curves/ed25519.js';
+import { hkdf } from '@noble/hashes/hkdf.js';
+import { hmac } from '@noble/hashes/hmac.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { base64, base64nopad, bech32 } from '@scure/base';
+import { concatBytes } from './container';
+import {
+  MalformedFileError,
+  TruncatedChunkError,
+  UnsupportedVersionError,
+  WrongPasswordError,
+} from './errors';
+
+/**
+ * age Files
+ *
+ * Reads and writes the age v1 format (https://age-encryption.org/v1), so
+ * cookie exports can be opened with `age -d` on a server and files made by
+ * `age` can be restored here. Supports the two native recipient types:
+ * scrypt (a passphrase) and X25519 (an `age1…` public key, whose
+ * `AGE-SECRET-KEY-1…` identity opens the file).
+ *
+ * A random 16-byte file key encrypts the payload with ChaCha20-Poly1305 in
+ * 64 KiB chunks (the STREAM construction). The header holds one stanza per
+ * recipient wrapping the file key, and an HMAC that binds the stanzas to it.
+ */
+
+const AGE_INTRO = 'age-encryption.org/v1';
+const ARMOR_BEGIN = '-----BEGIN AGE ENCRYPTED FILE-----';
+const ARMOR_END = '-----END AGE ENCRYPTED FILE-----';
+
+const FILE_KEY_LENGTH = 16;
+const PAYLOAD_NONCE_LENGTH = 16;
+const PAYLOAD_CHUNK_SIZE = 64 * 1024;
+const TAG_LENGTH = 16;
+const STANZA_LINE_LENGTH = 64;
+
+const SCRYPT_SALT_LABEL = 'age-encryption.org/v1/scrypt';
+const SCRYPT_SALT_LENGTH = 16;
+const X25519_INFO = 'age-encryption.org/v1/X25519';
+
+/** scrypt work factor (log2 N) for new files; the age CLI default */
+export const DEFAULT_SCRYPT_WORK_FACTOR = 18;
+
+/** Highest scrypt work factor accepted when decrypting (2^20 uses 1 GiB of memory) */
+export const MAX_SCRYPT_WORK_FACTOR = 20;
+
+const RECIPIENT_PREFIX = 'age';
+const IDENTITY_PREFIX = 'AGE-SECRET-KEY-';
+
+const enc = new TextEncoder();
+
+/**
+ * Who an age file is encrypted to
+ */
+export type AgeRecipient =
+  | { type: 'scrypt'; passphrase: string; workFactor?: number }
+  | { type: 'x25519'; recipient: string };
+
+/**
+ * What an age file can be opened with
+ */
+export interface AgeIdentities {
+  passphrase?: string;
+  /** X25519 identities (`AGE-SECRET-KEY-1…`) */
+  identities?: string[];
+}
+
+interface Stanza {
+  type: string;
+  args: string[];
+  body: Uint8Array;
+}
+
+/**
+ * Checks for the age header, binary or armored
+ */
+export function isAgeFile(bytes: Uint8Array): boolean {
+  const start = new TextDecoder().decode(bytes.subarray(0, ARMOR_BEGIN.length + 64)).trimStart();
+  return start.startsWith(`${AGE_INTRO}\n`) || start.startsWith(ARMOR_BEGIN);
+}
+
+/**
+ * Generates an X25519 identity
+ * @returns The secret identity (`AGE-SECRET-KEY-1…`) and its public recipient (`age1…`)
+ */
+export function generateAgeIdentity(): { identity: string; recipient: string } {
+  const secretKey = x25519.utils.randomSecretKey();
+  return {
+    identity: bech32.encode(IDENTITY_PREFIX, bech32.toWords(secretKey)).toUpperCase(),
+    recipient: bech32.encode(RECIPIENT_PREFIX, bech32.toWords(x25519.getPublicKey(secretKey))),
+  };
+}
+
+function decodeBech32Key(text: string, prefix: string): Uint8Array {
+  let decoded;
+  try {
+    decoded = bech32.decode(text.trim() as `${string}1${string}`);
+  } catch {
+    throw new Error(`Not a valid age ${prefix === RECIPIENT_PREFIX ? 'recipient' : 'identity'}`);
+  }
+  const bytes = bech32.fromWords(decoded.words);
+  if (decoded.prefix !== prefix.toLowerCase() || bytes.length !== 32) {
+    throw new Error(`Not a valid age ${prefix === RECIPIENT_PREFIX ? 'recipient' : 'identity'}`);
+  }
+  return bytes;
+}
+
+/**
+ * Checks an `age1…` recipient
+ */
+export function isValidAgeRecipient(text: string): boolean {
+  try {
+    decodeBech32Key(text, RECIPIENT_PREFIX);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** ChaCha20-Poly1305 with an all-zero nonce, as used to wrap file keys */
+function wrapFileKey(key: Uint8Array, fileKey: Uint8Array): Uint8Array {
+  return chacha20poly1305(key, new Uint8Array(12)).encrypt(fileKey);
+}
+
+/**
+ * @returns The file key, or null if the key does not open the stanza
+ */
+function unwrapFileKey(key: Uint8Array, body: Uint8Array): Uint8Array | null {
+  if (body.length !== FILE_KEY_LENGTH + TAG_LENGTH) {
+    throw new MalformedFileError('Invalid age recipient stanza');
+  }
+  try {
+    return chacha20poly1305(key, new Uint8Array(12)).decrypt(body);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Derives an scrypt stanza key
+ * @param onProgress Called with the fraction done (0–1); may throw to stop early
+ */
+function scryptKey(
+  passphrase: string,
+  salt: Uint8Array,
+  workFactor: number,
+  onProgress?: (progress: number) => void
+): Promise<Uint8Array> {
+  return scryptAsync(enc.encode(passphrase), concatBytes([enc.encode(SCRYPT_SALT_LABEL), salt]), {
+    N: 2 ** workFactor,
+    r: 8,
+    p: 1,
+    dkLen: 32,
+    maxmem: 1024 * (2 ** workFactor + 2),
+    onProgress,
+  });
+}
+
+function x25519Key(sharedSecret: Uint8Array, ephemeral: Uint8Array, recipient: Uint8Array) {
+  if (sharedSecret.every((b) => b === 0)) {
+    throw new MalformedFileError('Invalid age X25519 share');
+  }
+  return hkdf(
+    sha256,
+    sharedSecret,
+    concatBytes([ephemeral, recipient]),
+    enc.encode(X25519_INFO),
+    32
+  );
+}
+
+async function createStanza(
+  recipient: AgeRecipient,
+  fileKey: Uint8Array,
+  onScryptProgress?: (progress: number) => void
+): Promise<Stanza> {
+  if (recipient.type === 'scrypt') {
+    const workFactor = recipient.workFactor ?? DEFAULT_SCRYPT_WORK_FACTOR;
+    const salt = crypto.getRandomValues(new Uint8Array(SCRYPT_SALT_LENGTH));
+    const key = await scryptKey(recipient.passphrase, salt, workFactor, onScryptProgress);
+    return {
+      type: 'scrypt',
+      args: [base64nopad.encode(salt), String(workFactor)],
+      body: wrapFileKey(key, fileKey),
+    };
+  }
+
+  const recipientKey = decodeBech32Key(recipient.recipient, RECIPIENT_PREFIX);
+  const ephemeralSecret = x25519.utils.randomSecretKey();
+  const ephemeral = x25519.getPublicKey(ephemeralSecret);
+  const key = x25519Key(
+    x25519.getSharedSecret(ephemeralSecret, recipientKey),
+    ephemeral,
+    recipientKey
+  );
+  return {
+    type: 'X25519',
+    args: [base64nopad.encode(ephemeral)],
+    body: wrapFileKey(key, fileKey),
+  };
+}
+
+function encodeStanza(stanza: Stanza): string {
+  const body = base64nopad.encode(stanza.body);
+  const lines = [];
+  // The last body line must be shorter than a full line, even if that leaves it empty
+  for (let i = 0; i <= body.length; i += STANZA_LINE_LENGTH) {
+    lines.push(body.slice(i, i + STANZA_LINE_LENGTH));
+  }
+  return `-> ${[stanza.type, ...stanza.args].join(' ')}\n${lines.join('\n')}\n`;
+}
+
+function headerMac(fileKey: Uint8Array, headerText: string): Uint8Array {
+  const macKey = hkdf(sha256, fileKey, new Uint8Array(), enc.encode('header'), 32);
+  return hmac(sha256, macKey, enc.encode(headerText));
+}
+
+function payloadKey(fileKey: Uint8Array, nonce: Uint8Array): Uint8Array {
+  return hkdf(sha256, fileKey, nonce, enc.encode('payload'), 32);
+}
+
+/** STREAM nonce: 11-byte big-endian chunk counter, then 1 on the final chunk */
+function chunkNonce(index: number, last: boolean): Uint8Array {
+  const nonce = new Uint8Array(12);
+  new DataView(nonce.buffer).setUint32(7, index);
+  nonce[11] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Options for encryptAge
+ */
+export interface AgeEncryptOptions {
+  /** Aborts during scrypt and between chunks */
+  signal?: AbortSignal;
+}
+
+/**
+ * Encrypts data as an age file
+ * @param plaintext The data to encrypt
+ * @param recipients One scrypt recipient, or one or more X25519 recipients
+ * @param onProgress Optional progress callback: key derivation (fractional), then one step per chunk
+ * @returns The binary age file
+ * @throws Error if a recipient is invalid, or scrypt is mixed with other recipients
+ */
+export async function encryptAge(
+  plaintext: Uint8Array,
+  recipients: AgeRecipient[],
+  onProgress?: (current: number, total: number) => void,
+  options: AgeEncryptOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { signal } = options;
+  if (recipients.length === 0) {
+    throw new Error('An age file needs a recipient');
+  }
+  if (recipients.length > 1 && recipients.some((r) => r.type === 'scrypt')) {
+    throw new Error('A passphrase cannot be combined with other age recipients');
+  }
+
+  const chunkCount = Math.max(1, Math.ceil(plaintext.length / PAYLOAD_CHUNK_SIZE));
+  // Progress: key derivation, then one step per chunk
+  const progressSteps = chunkCount + 1;
+  onProgress?.(0, progressSteps);
+
+  const fileKey = crypto.getRandomValues(new Uint8Array(FILE_KEY_LENGTH));
+  let header = `${AGE_INTRO}\n`;
+  for (const recipient of recipients) {
+    const stanza = await createStanza(recipient, fileKey, (progress) => {
+      // Throwing from scrypt's callback stops the derivation
+      signal?.throwIfAborted();
+      onProgress?.(progress, progressSteps);
+    });
+    header += encodeStanza(stanza);
+  }
+  signal?.throwIfAborted();
+  onProgress?.(1, progressSteps);
+  header += '---';
+  header += ` ${base64nopad.encode(headerMac(fileKey, header))}\n`;
+
+  const nonce = crypto.getRandomValues(new Uint8Array(PAYLOAD_NONCE_LENGTH));
+  const key = payloadKey(fileKey, nonce);
+  const parts: Uint8Array[] = [enc.encode(header), nonce];
+  for (let i = 0; i < chunkCount; i++) {
+    signal?.throwIfAborted();
+    const chunk = plaintext.subarray(i * PAYLOAD_CHUNK_SIZE, (i + 1) * PAYLOAD_CHUNK_SIZE);
+    parts.push(chacha20poly1305(key, chunkNonce(i, i === chunkCount - 1)).encrypt(chunk));
+    onProgress?.(i + 2, progressSteps);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Converts an armored age file to binary
+ */
+function dearmor(bytes: Uint8Array): Uint8Array {
+  const text = new TextDecoder().decode(bytes).trim();
+  if (!text.startsWith(ARMOR_BEGIN)) return bytes;
+  if (!text.endsWith(ARMOR_END)) {
+    throw new TruncatedChunkError('Armored age file is truncated');
+  }
+  try {
+    return base64.decode(text.slice(ARMOR_BEGIN.length, -ARMOR_END.length).replace(/\s+/g, ''));
+  } catch {
+    throw new MalformedFileError('Invalid armored age file');
+  }
+}
+
+/**
+ * Splits an age file into its header and payload
+ */
+function parseAgeFile(bytes: Uint8Array): {
+  stanzas: Stanza[];
+  /** Header text up to and including "---", as covered by the MAC */
+  macInput: string;
+  mac: Uint8Array;
+  payload: Uint8Array;
+} {
+  const lines: string[] = [];
+  let offset = 0;
+  const nextLine = (): string => {
+    const end = bytes.indexOf(0x0a, offset);
+    if (end === -1) {
+      throw new TruncatedChunkError('age header is truncated');
+    }
+    const line = new TextDecoder().decode(bytes.subarray(offset, end));
+    offset = end + 1;
+    lines.push(line);
+    return line;
+  };
+
+  const intro = nextLine();
+  if (intro !== AGE_INTRO) {
+    if (intro.startsWith('age-encryption.org/')) {
+      throw new UnsupportedVersionError(`Unsupported age version: ${intro}`);
+    }
+    throw new MalformedFileError('Not an age file');
+  }
+
+  const stanzas: Stanza[] = [];
+  let line = nextLine();
+  while (line.startsWith('-> ')) {
+    const [type, ...args] = line.slice(3).split(' ');
+    if (!type) {
+      throw new MalformedFileError('Invalid age recipient stanza');
+    }
+    let body = '';
+    for (;;) {
+      const bodyLine = nextLine();
+      body += bodyLine;
+      if (bodyLine.length < STANZA_LINE_LENGTH) break;
+    }
+    stanzas.push({ type, args, body: decodeBase64(body) });
+    line = nextLine();
+  }
+
+  if (!line.startsWith('--- ') || stanzas.length === 0) {
+    throw new MalformedFileError('Invalid age header');
+  }
+  const macInput = [...lines.slice(0, -1), '---'].join('\n');
+  return {
+    stanzas,
+    macInput,
+    mac: decodeBase64(line.slice(4)),
+    payload: bytes.subarray(offset),
+  };
+}
+
+function decodeBase64(text: string): Uint8Array {
+  try {
+    return base64nopad.decode(text);
+  } catch {
+    throw new MalformedFileError('Invalid base64 in age header');
+  }
+}
+
+/**
+ * Finds the file key with the given passphrase or identities
+ */
+async function findFileKey(stanzas: Stanza[], identities: AgeIdentities): Promise<Uint8Array> {
+  const scrypt = stanzas.find((stanza) => stanza.type === 'scrypt');
+  if (scrypt) {
+    if (stanzas.length > 1) {
+      throw new MalformedFileError('An age scrypt stanza must be the only one');
+    }
+    const [salt, workFactorText] = scrypt.args;
+    const saltBytes = decodeBase64(salt ?? '');
+    const workFactor = Number(workFactorText);
+    if (saltBytes.length !== SCRYPT_SALT_LENGTH || !/^[1-9][0-9]?$/.test(workFactorText ?? '')) {
+      throw new MalformedFileError('Invalid age scrypt stanza');
+    }
+    if (workFactor > MAX_SCRYPT_WORK_FACTOR) {
+      throw new UnsupportedVersionError(`age scrypt work factor ${workFactor} is too high`);
+    }
+    if (!identities.passphrase) {
+      throw new WrongPasswordError('This age file needs a passphrase');
+    }
+    const key = await scryptKey(identities.passphrase, saltBytes, workFactor);
+    const fileKey = unwrapFileKey(key, scrypt.body);
+    if (!fileKey) {
+      throw new WrongPasswordError('Incorrect passphrase or corrupted file');
+    }
+    return fileKey;
+  }
+
+  const secretKeys = (identities.identities ?? []).map((identity) =>
+    decodeBech32Key(identity, IDENTITY_PREFIX)
+  );
+  for (const stanza of stanzas) {
+    if (stanza.type !== 'X25519') continue;
+    const ephemeral = decodeBase64(stanza.args[0] ?? '');
+    if (ephemeral.length !== 32) {
+      throw new MalformedFileError('Invalid age X25519 stanza');
+    }
+    for (const secretKey of secretKeys) {
+      const key = x25519Key(
+        x25519.getSharedSecret(secretKey, ephemeral),
+        ephemeral,
+        x25519.getPublicKey(secretKey)
+      );
+      const fileKey = unwrapFileKey(key, stanza.body);
+      if (fileKey) return fileKey;
+    }
+  }
+  throw new WrongPasswordError('No identity opens this age file');
+}
+
+/**
+ * Decrypts an age file (binary or armored)
+ * @param file The age file
+ * @param identities The passphrase, or X25519 identities, to try
+ * @returns The plaintext
+ * @throws WrongPasswordError if nothing opens the file
+ * @throws MalformedFileError, TruncatedChunkError or UnsupportedVersionError for damaged or unsupported files
+ */
+export async function decryptAge(
+  file: Uint8Array,
+  identities: AgeIdentities
+): Promise<Uint8Array<ArrayBuffer>> {
+  const { stanzas, macInput, mac, payload } = parseAgeFile(dearmor(file));
+  const fileKey = await findFileKey(stanzas, identities);
+
+  const expectedMac = headerMac(fileKey, macInput);
+  if (mac.length !== expectedMac.length || mac.some((b, i) => b !== expectedMac[i])) {
+    throw new MalformedFileError('age header is damaged');
+  }
+
+  if (payload.length < PAYLOAD_NONCE_LENGTH + TAG_LENGTH) {
+    throw new TruncatedChunkError('age payload is truncated');
+  }
+  const key = payloadKey(fileKey, payload.subarray(0, PAYLOAD_NONCE_LENGTH));
+  const sealedSize = PAYLOAD_CHUNK_SIZE + TAG_LENGTH;
+  const chunks: Uint8Array[] = [];
+  for (let offset = PAYLOAD_NONCE_LENGTH, index = 0; offset < payload.length; index++) {
+    const sealed = payload.subarray(offset, offset + sealedSize);
+    offset += sealed.length;
+    const last = offset === payload.length;
+    try {
+      const chunk = chacha20poly1305(key, chunkNonce(index, last)).decrypt(sealed);
+      if (last && chunk.length === 0 && index > 0) {
+        throw new MalformedFileError('age payload ends with an empty chunk');
+      }
+      chunks.push(chunk);
+    } catch (err) {
+      if (err instanceof MalformedFileError) throw err;
+      // A full chunk that only opens as a middle chunk means the rest was cut off
+      if (last && sealed.length === sealedSize) {
+        try {
+          chacha20poly1305(key, chunkNonce(index, false)).decrypt(sealed);
+          throw new TruncatedChunkError('age payload is truncated');
+        } catch (inner) {
+          if (inner instanceof TruncatedChunkError) throw inner;
+        }
+      }
+      throw new MalformedFileError(`age payload chunk ${index + 1} is damaged`);
+    }
+  }
+  return concatBytes(chunks);
+}
+
+/**
+ * Counts the payload chunks of an age file without decrypting it
+ * @throws MalformedFileError if the header is invalid
+ */
+export function countAgeChunks(file: Uint8Array): number {
+  const { payload } = parseAgeFile(dearmor(file));
+  return Math.max(
+    1,
+    Math.ceil((payload.length - PAYLOAD_NONCE_LENGTH) / (PAYLOAD_CHUNK_SIZE + TAG_LENGTH))
+  );
+}
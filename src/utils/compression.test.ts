@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { compress, decompress } from './compression';
+
+const json = JSON.stringify(
+  Array.from({ length: 500 }, (_, i) => ({ name: `c${i}`, domain: '.example.com', path: '/' }))
+);
+const text = new TextEncoder().encode(json);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('Compression', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip and shrink repetitive data', async () => {
+    const compressed = await compress(text);
+
+    expect(compressed.length * 5).toBeLessThan(text.length);
+    expect(decode(await decompress(compressed, text.length))).toBe(json);
+  });
+
+  it('should read streams written by the fallback and the other way around', async () => {
+    const native = await compress(text);
+    vi.stubGlobal('CompressionStream', undefined);
+    vi.stubGlobal('DecompressionStream', undefined);
+    const fallback = await compress(text);
+
+    expect(decode(await decompress(native, text.length))).toBe(json);
+    vi.unstubAllGlobals();
+    expect(decode(await decompress(fallback, text.length))).toBe(json);
+  });
+
+  it('should refuse output larger than the limit', async () => {
+    const bomb = await compress(new Uint8Array(1024 * 1024));
+
+    await expect(decompress(bomb, 1000)).rejects.toThrow(
+      'Backup file corrupted (decompression failed)'
+    );
+    vi.stubGlobal('DecompressionStream', undefined);
+    await expect(decompress(bomb, 1000)).rejects.toThrow(
+      'Backup file corrupted (decompression failed)'
+    );
+  });
+
+  it('should reject data that is not gzip', async () => {
+    await expect(decompress(new Uint8Array([1, 2, 3, 4]), 100)).rejects.toThrow(
+      'Backup file corrupted (decompression failed)'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { Gunzip, gzipSync } from 'fflate';
+import { concatBytes } from './container';
+import { MalformedFileError } from './errors';
+
+/**
+ * Compression
+ *
+ * Cookie JSON is highly repetitive (domains, paths, flag names), so v5
+ * backups gzip each plaintext chunk before encrypting it. The browser's
+ * CompressionStream is used where it exists; fflate (pure JS) covers
+ * environments without it. Both produce standard gzip, so either side can
+ * read what the other wrote.
+ */
+
+/** Compression applied to each chunk before encryption */
+export type CompressionFormat = 'gzip';
+
+/**
+ * Runs bytes through a CompressionStream or DecompressionStream
+ * @param maxSize Stop with an error once the output grows past this many bytes
+ */
+async function pipeThrough(
+  data: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+  maxSize = Infinity
+): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  // Write without waiting: the readable side must be drained concurrently
+  writer
+    .write(data as Uint8Array<ArrayBuffer>)
+    .then(() => writer.close())
+    .catch(() => {
+      // Surfaced through the reader below
+    });
+
+  const reader = transform.readable.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error('Decompressed data is too large');
+    }
+    parts.push(value);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Gzips bytes
+ */
+export async function compress(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    return gzipSync(data);
+  }
+  return pipeThrough(data, new CompressionStream('gzip'));
+}
+
+/**
+ * Gunzips bytes, refusing output larger than maxSize so a small crafted chunk
+ * cannot expand without bound
+ * @param maxSize Largest expected output (the header's chunk size)
+ * @throws Error if the data is not valid gzip or expands past maxSize
+ */
+export async function decompress(data: Uint8Array, maxSize: number): Promise<Uint8Array> {
+  try {
+    if (typeof DecompressionStream !== 'undefined') {
+      return await pipeThrough(data, new DecompressionStream('gzip'), maxSize);
+    }
+
+    const parts: Uint8Array[] = [];
+    let size = 0;
+    const gunzip = new Gunzip((part) => {
+      size += part.length;
+      if (size > maxSize) throw new Error('Decompressed data is too large');
+      parts.push(part);
+    });
+    gunzip.push(data, true);
+    return concatBytes(parts);
+  } catch {
+    throw new MalformedFileError('Backup file corrupted (decompression failed)');
+  }
+}
@@ -0,0 +1,240 @@
+import { MalformedFileError, TruncatedChunkError, UnsupportedVersionError } from './errors';
+
+/**
+ * Cookie Vault v5 Binary Container
+ *
+ * Earlier formats (v2–v4) stored salt, IV and ciphertext as JSON number
+ * arrays, which costs 2–4 characters per byte. The v5 container stores the
+ * same material as raw bytes inside a small TLV (type-length-value) layout:
+ *
+ *   magic "CVLT" (4 bytes) | container version (1 byte)
+ *   section*: type (1 byte) | length (uint32, big-endian) | bytes
+ *
+ * The first section is always a JSON header. Unknown section types are
+ * preserved by the parser so newer writers can add sections without
+ * breaking older readers.
+ *
+ * For channels that only carry text (clipboard, email), the whole container
+ * can be "armored" as base64 between BEGIN/END marker lines.
+ *
+ * @see docs/ADR/001-encryption-formats.md
+ */
+
+/** File signature: ASCII "CVLT" */
+export const CONTAINER_MAGIC = new Uint8Array([0x43, 0x56, 0x4c, 0x54]);
+
+/** Container layout version stored after the magic bytes */
+export const CONTAINER_VERSION = 5;
+
+/** Known section type tags */
+export const SectionType = {
+  Header: 0x01,
+  KeySlot: 0x02,
+  Chunk: 0x10,
+  Signature: 0x20,
+} as const;
+
+const ARMOR_BEGIN = '-----BEGIN COOKIE VAULT BACKUP-----';
+const ARMOR_END = '-----END COOKIE VAULT BACKUP-----';
+const ARMOR_LINE_LENGTH = 64;
+
+const PREAMBLE_LENGTH = CONTAINER_MAGIC.length + 1;
+const SECTION_PREFIX_LENGTH = 5;
+
+/**
+ * A single typed section of a container
+ */
+export interface ContainerSection {
+  type: number;
+  data: Uint8Array;
+}
+
+/**
+ * Checks whether the bytes start with the v5 container signature.
+ */
+export function isContainer(bytes: Uint8Array): boolean {
+  if (bytes.length < PREAMBLE_LENGTH) return false;
+  return CONTAINER_MAGIC.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Encodes one section (type + length prefix + payload) as Blob parts,
+ * avoiding a copy of the payload.
+ */
+export function encodeSection(section: ContainerSection): Uint8Array<ArrayBuffer>[] {
+  const prefix = new Uint8Array(SECTION_PREFIX_LENGTH);
+  prefix[0] = section.type;
+  new DataView(prefix.buffer).setUint32(1, section.data.length);
+  return [prefix, section.data as Uint8Array<ArrayBuffer>];
+}
+
+/**
+ * Serializes sections into container Blob parts.
+ * Returned parts can be passed straight to the Blob constructor.
+ */
+export function packContainer(sections: ContainerSection[]): Uint8Array<ArrayBuffer>[] {
+  const preamble = new Uint8Array(PREAMBLE_LENGTH);
+  preamble.set(CONTAINER_MAGIC);
+  preamble[CONTAINER_MAGIC.length] = CONTAINER_VERSION;
+  return [preamble, ...sections.flatMap(encodeSection)];
+}
+
+/**
+ * Joins byte arrays into a single buffer.
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Parses a container into its sections.
+ * @throws Error if the signature, version or section framing is invalid
+ */
+export function unpackContainer(bytes: Uint8Array): ContainerSection[] {
+  if (!isContainer(bytes)) {
+    throw new MalformedFileError();
+  }
+
+  const version = bytes[CONTAINER_MAGIC.length];
+  if (version !== CONTAINER_VERSION) {
+    throw new UnsupportedVersionError(`Unsupported container version: ${version}`);
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sections: ContainerSection[] = [];
+  let offset = PREAMBLE_LENGTH;
+
+  while (offset < bytes.length) {
+    if (offset + SECTION_PREFIX_LENGTH > bytes.length) {
+      throw new TruncatedChunkError();
+    }
+    const type = bytes[offset];
+    const length = view.getUint32(offset + 1);
+    const start = offset + SECTION_PREFIX_LENGTH;
+    const end = start + length;
+    if (end > bytes.length) {
+      throw new TruncatedChunkError();
+    }
+    sections.push({ type, data: bytes.subarray(start, end) });
+    offset = end;
+  }
+
+  return sections;
+}
+
+/**
+ * Reads a Blob (or a slice of one) into memory.
+ * Falls back to FileReader where Blob.arrayBuffer is unavailable (jsdom).
+ */
+export async function readBlobBytes(blob: Blob): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof blob.arrayBuffer === 'function') {
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+/**
+ * Streams the sections of a container stored in a Blob.
+ * Only one section is held in memory at a time, so large files can be
+ * decrypted without loading them whole.
+ * @throws Error if the signature, version or section framing is invalid
+ */
+export async function* readContainer(blob: Blob): AsyncGenerator<ContainerSection> {
+  const preamble = await readBlobBytes(blob.slice(0, PREAMBLE_LENGTH));
+  if (!isContainer(preamble)) {
+    throw new MalformedFileError();
+  }
+
+  const version = preamble[CONTAINER_MAGIC.length];
+  if (version !== CONTAINER_VERSION) {
+    throw new UnsupportedVersionError(`Unsupported container version: ${version}`);
+  }
+
+  let offset = PREAMBLE_LENGTH;
+
+  while (offset < blob.size) {
+    if (offset + SECTION_PREFIX_LENGTH > blob.size) {
+      throw new TruncatedChunkError();
+    }
+    const prefix = await readBlobBytes(blob.slice(offset, offset + SECTION_PREFIX_LENGTH));
+    const length = new DataView(prefix.buffer).getUint32(1);
+    const start = offset + SECTION_PREFIX_LENGTH;
+    const end = start + length;
+    if (end > blob.size) {
+      throw new TruncatedChunkError();
+    }
+    yield { type: prefix[0], data: await readBlobBytes(blob.slice(start, end)) };
+    offset = end;
+  }
+}
+
+/**
+ * Encodes bytes as standard base64.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  // Build the binary string in slices to stay below argument-count limits
+  let binary = '';
+  const sliceSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += sliceSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decodes standard base64 (whitespace is ignored).
+ * @throws Error if the input is not valid base64
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  let binary: string;
+  try {
+    binary = atob(base64.replace(/\s+/g, ''));
+  } catch {
+    throw new MalformedFileError();
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Wraps container bytes in a text-safe base64 armor.
+ */
+export function armorContainer(bytes: Uint8Array): string {
+  const base64 = bytesToBase64(bytes);
+  const lines: string[] = [];
+  for (let i = 0; i < base64.length; i += ARMOR_LINE_LENGTH) {
+    lines.push(base64.slice(i, i + ARMOR_LINE_LENGTH));
+  }
+  return `${ARMOR_BEGIN}\n${lines.join('\n')}\n${ARMOR_END}\n`;
+}
+
+/**
+ * Extracts container bytes from armored text.
+ * @returns The container bytes, or null if the text is not armored
+ */
+export function dearmorContainer(text: string): Uint8Array<ArrayBuffer> | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith(ARMOR_BEGIN)) return null;
+
+  const endIndex = trimmed.indexOf(ARMOR_END);
+  if (endIndex === -1) {
+    throw new TruncatedChunkError();
+  }
+
+  return base64ToBytes(trimmed.slice(ARMOR_BEGIN.length, endIndex));
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { changedAttributes, cookieKey, diffCookies } from './cookieDiff';
+import type { Cookie } from './crypto';
+
+const baseCookie: Cookie = {
+  name: 'session',
+  value: 'abc',
+  domain: '.example.com',
+  path: '/',
+  secure: true,
+  httpOnly: true,
+  storeId: '0',
+  sameSite: 'lax',
+  expirationDate: 1_900_000_000,
+};
+
+describe('cookieKey', () => {
+  it('should include store, domain, name, path, partition and first-party domain', () => {
+    const partitioned: Cookie = {
+      ...baseCookie,
+      partitionKey: { topLevelSite: 'https://site.test' },
+    };
+
+    expect(cookieKey(baseCookie)).toBe('0|.example.com|session|/|||');
+    expect(cookieKey(partitioned)).toBe('0|.example.com|session|/|https://site.test||');
+    expect(
+      cookieKey({
+        ...baseCookie,
+        partitionKey: { topLevelSite: 'https://site.test', hasCrossSiteAncestor: true },
+      })
+    ).toBe('0|.example.com|session|/|https://site.test|true|');
+    expect(cookieKey({ ...baseCookie, firstPartyDomain: 'site.test' })).toBe(
+      '0|.example.com|session|/|||site.test'
+    );
+    // Firefox reports '' for cookies that are not isolated
+    expect(cookieKey({ ...baseCookie, firstPartyDomain: '' })).toBe(cookieKey(baseCookie));
+  });
+});
+
+describe('changedAttributes', () => {
+  it('should treat missing sameSite as unspecified and missing hostOnly as false', () => {
+    const live: Cookie = { ...baseCookie, sameSite: 'unspecified', hostOnly: false };
+
+    expect(changedAttributes({ ...baseCookie, sameSite: undefined }, live)).toEqual([]);
+  });
+
+  it('should ignore sub-second expiration differences', () => {
+    expect(
+      changedAttributes(baseCookie, { ...baseCookie, expirationDate: 1_900_000_000.4 })
+    ).toEqual([]);
+    expect(changedAttributes(baseCookie, { ...baseCookie, expirationDate: undefined })).toEqual([
+      'expirationDate',
+    ]);
+  });
+
+  it('should list every differing attribute', () => {
+    const live: Cookie = { ...baseCookie, secure: false, httpOnly: false, sameSite: 'strict' };
+
+    expect(changedAttributes(baseCookie, live)).toEqual(['secure', 'httpOnly', 'sameSite']);
+  });
+});
+
+describe('diffCookies', () => {
+  it('should classify backup and live cookies', () => {
+    const backup: Cookie[] = [
+      { ...baseCookie, name: 'new' },
+      { ...baseCookie, name: 'value', value: 'backup' },
+      { ...baseCookie, name: 'attrs' },
+      { ...baseCookie, name: 'same' },
+    ];
+    const live: Cookie[] = [
+      { ...baseCookie, name: 'value', value: 'live', secure: false },
+      { ...baseCookie, name: 'attrs', httpOnly: false },
+      { ...baseCookie, name: 'same' },
+      { ...baseCookie, name: 'extra', domain: 'example.com' },
+      { ...baseCookie, name: 'elsewhere', domain: 'other.com' },
+    ];
+
+    const diff = diffCookies(backup, live);
+
+    expect(diff.entries.map((e) => [e.backup?.name ?? e.live?.name, e.status])).toEqual([
+      ['new', 'new'],
+      ['value', 'value-changed'],
+      ['attrs', 'attributes-changed'],
+      ['same', 'unchanged'],
+      ['extra', 'live-only'],
+    ]);
+    expect(diff.byKey.get(cookieKey(backup[1]))?.changedAttributes).toEqual(['secure']);
+    expect(diff.counts).toEqual({
+      new: 1,
+      'value-changed': 1,
+      'attributes-changed': 1,
+      unchanged: 1,
+      'live-only': 1,
+    });
+  });
+
+  it('should tell apart partitioned cookies that differ only in their cross-site flag', () => {
+    const sameSite: Cookie = {
+      ...baseCookie,
+      partitionKey: { topLevelSite: 'https://site.test', hasCrossSiteAncestor: false },
+    };
+    const crossSite: Cookie = {
+      ...baseCookie,
+      value: 'cross',
+      partitionKey: { topLevelSite: 'https://site.test', hasCrossSiteAncestor: true },
+    };
+
+    const diff = diffCookies([sameSite, crossSite], [sameSite]);
+
+    expect(diff.byKey.get(cookieKey(sameSite))?.status).toBe('unchanged');
+    expect(diff.byKey.get(cookieKey(crossSite))?.status).toBe('new');
+    expect(diff.counts.new).toBe(1);
+  });
+
+  it('should group entries by domain without the leading dot', () => {
+    const diff = diffCookies([baseCookie], []);
+
+    expect(diff.entries[0].domain).toBe('example.com');
+  });
+});
@@ -0,0 +1,147 @@
+import type { Cookie } from './crypto';
+import { mapCookieStore, type StoreMapping } from './cookieStores';
+
+/**
+ * Cookie Diff
+ *
+ * Compares a backup's cookies with the browser's. Cookies are matched by the
+ * same key the browser uses to tell them apart (see cookieKey), and each
+ * match is classified as:
+ * - new: in the backup but missing from the browser
+ * - value-changed: the value differs (attributes may differ too)
+ * - attributes-changed: same value, different flags or expiry
+ * - unchanged: identical
+ * - live-only: in the browser on one of the backup's domains, but not in the backup
+ */
+
+export type CookieDiffStatus =
+  | 'new'
+  | 'value-changed'
+  | 'attributes-changed'
+  | 'unchanged'
+  | 'live-only';
+
+/** Attributes compared besides the value */
+const DIFF_ATTRIBUTES = ['secure', 'httpOnly', 'sameSite', 'hostOnly', 'expirationDate'] as const;
+
+export type CookieAttribute = (typeof DIFF_ATTRIBUTES)[number];
+
+export interface CookieDiffEntry {
+  key: string;
+  /** Domain without a leading dot, as in groupCookiesByDomain */
+  domain: string;
+  status: CookieDiffStatus;
+  backup?: Cookie;
+  live?: Cookie;
+  /** Attributes that differ between the backup and live cookie */
+  changedAttributes: CookieAttribute[];
+}
+
+export interface CookieDiff {
+  entries: CookieDiffEntry[];
+  /** Entries by cookieKey, for looking up a backup cookie's status */
+  byKey: Map<string, CookieDiffEntry>;
+  counts: Record<CookieDiffStatus, number>;
+}
+
+const normalizeDomain = (domain: string) => (domain.startsWith('.') ? domain.slice(1) : domain);
+
+/**
+ * Identifies a cookie the way the browser does: store, domain, name, path,
+ * partition (top-level site and cross-site ancestor flag) and first-party domain
+ */
+export function cookieKey(cookie: Cookie): string {
+  const partition = cookie.partitionKey?.topLevelSite ?? '';
+  const crossSite = cookie.partitionKey?.hasCrossSiteAncestor ?? '';
+  const firstParty = cookie.firstPartyDomain ?? '';
+  return `${cookie.storeId}|${cookie.domain}|${cookie.name}|${cookie.path}|${partition}|${crossSite}|${firstParty}`;
+}
+
+function attributeValue(cookie: Cookie, attribute: CookieAttribute): unknown {
+  switch (attribute) {
+    case 'sameSite':
+      return cookie.sameSite ?? 'unspecified';
+    case 'hostOnly':
+      return !!cookie.hostOnly;
+    default:
+      return cookie[attribute];
+  }
+}
+
+/**
+ * Lists the attributes (not the value) that differ between two cookies
+ */
+export function changedAttributes(a: Cookie, b: Cookie): CookieAttribute[] {
+  return DIFF_ATTRIBUTES.filter((attribute) => {
+    if (attribute === 'expirationDate') {
+      if (a.expirationDate === undefined || b.expirationDate === undefined) {
+        return a.expirationDate !== b.expirationDate;
+      }
+      // Browsers report fractional expiration times; a second either way is the same cookie
+      return Math.abs(a.expirationDate - b.expirationDate) >= 1;
+    }
+    return attributeValue(a, attribute) !== attributeValue(b, attribute);
+  });
+}
+
+/**
+ * Compares backup cookies with live ones. Live cookies on domains the backup
+ * does not touch are left out.
+ * @param storeMapping Where each backed-up store will be restored; backup
+ *   cookies are compared with live cookies in their mapped store, but keep
+ *   their own key in `byKey`
+ */
+export function diffCookies(
+  backup: Cookie[],
+  live: Cookie[],
+  storeMapping: StoreMapping = {}
+): CookieDiff {
+  const liveByKey = new Map(live.map((cookie) => [cookieKey(cookie), cookie]));
+  const counts: Record<CookieDiffStatus, number> = {
+    new: 0,
+    'value-changed': 0,
+    'attributes-changed': 0,
+    unchanged: 0,
+    'live-only': 0,
+  };
+  const entries: CookieDiffEntry[] = [];
+  const byKey = new Map<string, CookieDiffEntry>();
+
+  const add = (entry: CookieDiffEntry) => {
+    entries.push(entry);
+    byKey.set(entry.key, entry);
+    counts[entry.status]++;
+  };
+
+  const matched = new Set<string>();
+  for (const cookie of backup) {
+    const key = cookieKey(cookie);
+    const liveKey = cookieKey(mapCookieStore(cookie, storeMapping));
+    const existing = liveByKey.get(liveKey);
+    matched.add(liveKey);
+    const changed = existing ? changedAttributes(cookie, existing) : [];
+    let status: CookieDiffStatus;
+    if (!existing) status = 'new';
+    else if (cookie.value !== existing.value) status = 'value-changed';
+    else if (changed.length > 0) status = 'attributes-changed';
+    else status = 'unchanged';
+    add({
+      key,
+      domain: normalizeDomain(cookie.domain),
+      status,
+      backup: cookie,
+      live: existing,
+      changedAttributes: changed,
+    });
+  }
+
+  const domains = new Set(backup.map((cookie) => normalizeDomain(cookie.domain)));
+  for (const [key, cookie] of liveByKey) {
+    const domain = normalizeDomain(cookie.domain);
+    if (!matched.has(key) && domains.has(domain)) {
+      add({ key, domain, status: 'live-only', live: cookie, changedAttributes: [] });
+    }
+  }
+
+  return { entries, byKey, counts };
+}
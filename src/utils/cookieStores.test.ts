@@ -0,0 +1,115 @@
+/* eslint-disable @typescript-eslint/no-explicit-any -- Mock types require any assertions */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import browser from 'webextension-polyfill';
+import {
+  defaultStoreMapping,
+  listCookieStores,
+  mapCookieStore,
+  storesOfCookies,
+  type CookieStore,
+} from './cookieStores';
+import type { Cookie } from './crypto';
+
+vi.mock('webextension-polyfill', () => ({
+  default: {
+    cookies: { getAllCookieStores: vi.fn() },
+    contextualIdentities: { query: vi.fn() },
+  },
+}));
+
+const cookie: Cookie = {
+  name: 'session',
+  value: 'abc',
+  domain: 'example.com',
+  path: '/',
+  secure: true,
+  httpOnly: true,
+  storeId: 'firefox-container-1',
+};
+
+describe('listCookieStores', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should list Firefox stores and containers, default first', async () => {
+    vi.mocked(browser.cookies.getAllCookieStores).mockResolvedValue([
+      { id: 'firefox-private', incognito: true, tabIds: [] },
+      { id: 'firefox-default', incognito: false, tabIds: [] },
+    ]);
+    vi.mocked(browser.contextualIdentities.query).mockResolvedValue([
+      { cookieStoreId: 'firefox-container-1', name: 'Work' },
+      { cookieStoreId: 'firefox-container-2', name: 'Shopping' },
+    ] as any);
+
+    expect(await listCookieStores()).toEqual([
+      { id: 'firefox-default', name: 'Default', incognito: false },
+      { id: 'firefox-private', name: 'Private', incognito: true },
+      { id: 'firefox-container-1', name: 'Work', incognito: false },
+      { id: 'firefox-container-2', name: 'Shopping', incognito: false },
+    ]);
+  });
+
+  it('should work without containers', async () => {
+    vi.mocked(browser.cookies.getAllCookieStores).mockResolvedValue([
+      { id: '0', tabIds: [1] },
+      { id: '1', tabIds: [2] },
+    ] as any);
+    vi.mocked(browser.contextualIdentities.query).mockRejectedValue(
+      new Error('Contextual identities are disabled')
+    );
+
+    expect(await listCookieStores()).toEqual([
+      { id: '0', name: 'Default', incognito: false },
+      { id: '1', name: 'Incognito', incognito: true },
+    ]);
+  });
+});
+
+describe('storesOfCookies', () => {
+  it('should name stores from the backup, or by their well-known ids', () => {
+    const stores = storesOfCookies(
+      [cookie, { ...cookie, storeId: '0' }, { ...cookie, storeId: 'firefox-container-1' }],
+      [{ id: 'firefox-container-1', name: 'Work', incognito: false }]
+    );
+
+    expect(stores).toEqual([
+      { id: 'firefox-container-1', name: 'Work', incognito: false },
+      { id: '0', name: 'Default', incognito: false },
+    ]);
+  });
+});
+
+describe('defaultStoreMapping', () => {
+  const targetStores: CookieStore[] = [
+    { id: 'firefox-default', name: 'Default', incognito: false },
+    { id: 'firefox-private', name: 'Private', incognito: true },
+    { id: 'firefox-container-4', name: 'Work', incognito: false },
+  ];
+
+  it('should map stores by name, then kind, then to the default store', () => {
+    const mapping = defaultStoreMapping(
+      [
+        { id: '0', name: 'Default', incognito: false },
+        { id: '1', name: 'Incognito', incognito: true },
+        { id: 'firefox-container-1', name: 'work', incognito: false },
+        { id: 'firefox-container-2', name: 'Banking', incognito: false },
+      ],
+      targetStores
+    );
+
+    expect(mapping).toEqual({
+      '0': 'firefox-default',
+      '1': 'firefox-private',
+      'firefox-container-1': 'firefox-container-4',
+      'firefox-container-2': 'firefox-default',
+    });
+  });
+
+  it('should rewrite the store of mapped cookies only', () => {
+    const mapping = { 'firefox-container-1': 'firefox-container-4' };
+
+    expect(mapCookieStore(cookie, mapping).storeId).toBe('firefox-container-4');
+    expect(mapCookieStore({ ...cookie, storeId: '0' }, mapping).storeId).toBe('0');
+  });
+});
@@ -0,0 +1,135 @@
+import browser from 'webextension-polyfill';
+import type { Cookie } from './crypto';
+
+/**
+ * Cookie Stores
+ *
+ * Browsers keep cookies in separate stores. Chrome has the default store
+ * ("0") and, while an incognito window is open and the extension is allowed
+ * in it, an incognito store ("1"). Firefox has "firefox-default",
+ * "firefox-private" and one store per container ("firefox-container-N").
+ *
+ * Store ids only mean something in the browser that made them (container 3
+ * on one machine may be "Shopping" on another), so backups also record each
+ * store's name, and restores map backed-up stores to local ones by name.
+ */
+
+// Helper to check if we are in a browser extension environment
+const isExtension = typeof chrome !== 'undefined' && !!chrome.cookies;
+
+export interface CookieStore {
+  id: string;
+  /** "Default", "Incognito", or a container's name */
+  name: string;
+  /** Private browsing store */
+  incognito: boolean;
+}
+
+/**
+ * Target store id for each backed-up store id
+ */
+export type StoreMapping = Record<string, string>;
+
+const STORE_NAMES: Record<string, string> = {
+  '0': 'Default',
+  '1': 'Incognito',
+  'firefox-default': 'Default',
+  'firefox-private': 'Private',
+};
+
+const PRIVATE_STORES = new Set(['1', 'firefox-private']);
+
+/**
+ * Whether a store id is the browser's default (non-private, non-container) store
+ */
+export function isDefaultStore(id: string): boolean {
+  return id === '0' || id === 'firefox-default';
+}
+
+/**
+ * Lists the cookie stores of this browser, default store first.
+ * Firefox containers are listed even when none of their tabs are open.
+ */
+export async function listCookieStores(): Promise<CookieStore[]> {
+  if (!isExtension) {
+    return [{ id: '0', name: 'Default', incognito: false }];
+  }
+
+  const stores = new Map<string, CookieStore>();
+  try {
+    for (const store of await browser.cookies.getAllCookieStores()) {
+      stores.set(store.id, {
+        id: store.id,
+        name: STORE_NAMES[store.id] ?? store.id,
+        // Chrome does not report incognito, but its incognito store is always "1"
+        incognito: store.incognito ?? PRIVATE_STORES.has(store.id),
+      });
+    }
+  } catch {
+    console.debug('Cookie stores could not be listed');
+  }
+
+  try {
+    // Throws when containers are disabled, and is missing outside Firefox
+    for (const identity of await browser.contextualIdentities.query({})) {
+      stores.set(identity.cookieStoreId, {
+        id: identity.cookieStoreId,
+        name: identity.name,
+        incognito: false,
+      });
+    }
+  } catch {
+    // No containers
+  }
+
+  return [...stores.values()].sort(
+    (a, b) => Number(isDefaultStore(b.id)) - Number(isDefaultStore(a.id))
+  );
+}
+
+/**
+ * Lists the stores a set of cookies came from
+ * @param cookies Cookies from a backup
+ * @param named Stores recorded in the backup, for their names
+ */
+export function storesOfCookies(cookies: Cookie[], named: CookieStore[] = []): CookieStore[] {
+  const ids = [...new Set(cookies.map((cookie) => cookie.storeId))];
+  return ids.map(
+    (id) =>
+      named.find((store) => store.id === id) ?? {
+        id,
+        name: STORE_NAMES[id] ?? id,
+        incognito: PRIVATE_STORES.has(id),
+      }
+  );
+}
+
+/**
+ * Maps each backed-up store to the local store with the same name, falling
+ * back to the same id, any private store for private ones, and then the
+ * default store
+ */
+export function defaultStoreMapping(
+  backupStores: CookieStore[],
+  targetStores: CookieStore[]
+): StoreMapping {
+  const fallback = targetStores.find((store) => isDefaultStore(store.id)) ?? targetStores[0];
+  const mapping: StoreMapping = {};
+  for (const store of backupStores) {
+    const target =
+      targetStores.find((candidate) => candidate.name.toLowerCase() === store.name.toLowerCase()) ??
+      targetStores.find((candidate) => candidate.id === store.id) ??
+      // Chrome's "Incognito" and Firefox's "Private" stores are the same kind
+      (store.incognito ? targetStores.find((candidate) => candidate.incognito) : undefined);
+    mapping[store.id] = (target ?? fallback)?.id ?? store.id;
+  }
+  return mapping;
+}
+
+/**
+ * Returns the cookie as it will be written: in its mapped store
+ */
+export function mapCookieStore(cookie: Cookie, mapping: StoreMapping): Cookie {
+  const storeId = mapping[cookie.storeId];
+  return storeId && storeId !== cookie.storeId ? { ...cookie, storeId } : cookie;
+}
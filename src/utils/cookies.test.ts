@@ -1,7 +1,13 @@
 /* eslint-disable @typescript-eslint/no-explicit-any -- Mock types require any assertions */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import browser from 'webextension-polyfill';
-import { restoreCookies, groupCookiesByDomain, filterCookiesByDomains } from './cookies';
+import {
+  restoreCookies,
+  getAllCookies,
+  groupCookiesByDomain,
+  filterCookiesByDomains,
+  planRestore,
+} from './cookies';
 import type { Cookie } from './crypto';
 
 // Mock webextension-polyfill
@@ -9,7 +15,9 @@ vi.mock('webextension-polyfill', () => ({
   default: {
     cookies: {
       getAll: vi.fn(),
+      getAllCookieStores: vi.fn(),
       set: vi.fn(),
+      remove: vi.fn(),
     },
   },
 }));
@@ -19,6 +27,38 @@ describe('Cookie Utils', () => {
     vi.clearAllMocks();
   });
 
+  describe('getAllCookies', () => {
+    beforeEach(() => {
+      vi.mocked(browser.cookies.getAll).mockResolvedValue([]);
+      vi.mocked(browser.cookies.getAllCookieStores).mockResolvedValue([
+        { id: 'firefox-default', incognito: false, tabIds: [] },
+        { id: 'firefox-container-1', incognito: false, tabIds: [] },
+      ]);
+    });
+
+    it('should read only the default store when no stores are given', async () => {
+      await getAllCookies();
+
+      const queries = vi.mocked(browser.cookies.getAll).mock.calls.map(([details]) => details);
+      expect(queries).toEqual([{}, { partitionKey: {} }]);
+      expect(browser.cookies.getAllCookieStores).not.toHaveBeenCalled();
+    });
+
+    it('should read each of the given stores', async () => {
+      await getAllCookies(['firefox-default', 'firefox-container-1']);
+
+      const storeIds = vi
+        .mocked(browser.cookies.getAll)
+        .mock.calls.map(([details]) => (details as any).storeId);
+      expect(storeIds).toEqual([
+        'firefox-default',
+        'firefox-default',
+        'firefox-container-1',
+        'firefox-container-1',
+      ]);
+    });
+  });
+
   describe('restoreCookies', () => {
     const baseCookie: Cookie = {
       name: 'test_cookie',
@@ -158,6 +198,317 @@ describe('Cookie Utils', () => {
     });
   });
 
+  describe('restoreCookies with partitioned cookies', () => {
+    const partitionedCookie: Cookie = {
+      name: 'embed',
+      value: 'x',
+      domain: 'widget.test',
+      path: '/',
+      secure: true,
+      httpOnly: false,
+      storeId: '0',
+      sameSite: 'no_restriction',
+      expirationDate: Date.now() / 1000 + 3600,
+      partitionKey: { topLevelSite: 'https://site.test', hasCrossSiteAncestor: true },
+    };
+
+    it('should pass the partition key to cookies.set', async () => {
+      vi.mocked(browser.cookies.set).mockResolvedValue({} as any);
+
+      const result = await restoreCookies([partitionedCookie]);
+
+      expect(result.unpartitioned).toBe(0);
+      expect(vi.mocked(browser.cookies.set).mock.calls[0][0]).toMatchObject({
+        partitionKey: { topLevelSite: 'https://site.test', hasCrossSiteAncestor: true },
+      });
+    });
+
+    it('should drop hasCrossSiteAncestor when the browser rejects it', async () => {
+      vi.mocked(browser.cookies.set)
+        .mockRejectedValueOnce(new Error("Unexpected property: 'hasCrossSiteAncestor'."))
+        .mockResolvedValueOnce({} as any);
+
+      const result = await restoreCookies([partitionedCookie]);
+
+      expect(result.success).toBe(1);
+      expect(result.unpartitioned).toBe(0);
+      expect((vi.mocked(browser.cookies.set).mock.calls[1][0] as any).partitionKey).toEqual({
+        topLevelSite: 'https://site.test',
+      });
+    });
+
+    it('should restore unpartitioned and report it when partitions are unsupported', async () => {
+      vi.mocked(browser.cookies.set)
+        .mockRejectedValueOnce(new Error("Unexpected property: 'partitionKey'."))
+        .mockRejectedValueOnce(new Error("Unexpected property: 'partitionKey'."))
+        .mockResolvedValueOnce({} as any);
+
+      const result = await restoreCookies([partitionedCookie]);
+
+      expect(result.success).toBe(1);
+      expect(result.unpartitioned).toBe(1);
+      expect(result.details[0].unpartitioned).toBe(true);
+      expect(result.details[0].reason).toMatch(/unpartitioned/);
+      expect(vi.mocked(browser.cookies.set).mock.calls[2][0]).not.toHaveProperty('partitionKey');
+    });
+
+    it('should not fall back for errors unrelated to partitions', async () => {
+      vi.mocked(browser.cookies.set).mockRejectedValue(new Error('Permission denied'));
+
+      const result = await restoreCookies([partitionedCookie]);
+
+      expect(result.failed).toBe(1);
+      expect(browser.cookies.set).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('planRestore', () => {
+    const hourFromNow = Date.now() / 1000 + 3600;
+    const baseCookie: Cookie = {
+      name: 'session',
+      value: 'backup',
+      domain: '.example.com',
+      path: '/',
+      secure: true,
+      httpOnly: true,
+      storeId: '0',
+      expirationDate: hourFromNow,
+    };
+
+    it('should classify cookies as add, update, unchanged and skip', () => {
+      const cookies: Cookie[] = [
+        { ...baseCookie, name: 'new' },
+        { ...baseCookie, name: 'changed' },
+        { ...baseCookie, name: 'same' },
+        { ...baseCookie, name: 'expired', expirationDate: Date.now() / 1000 - 60 },
+      ];
+      const live: Cookie[] = [
+        { ...baseCookie, name: 'changed', value: 'live' },
+        // Browsers report fractional expiration times
+        { ...baseCookie, name: 'same', expirationDate: hourFromNow + 0.25 },
+      ];
+
+      const plan = planRestore(cookies, live, 'overwrite');
+
+      expect(plan.entries.map((e) => e.action)).toEqual(['add', 'update', 'unchanged', 'skip']);
+      expect(plan.entries[1].live?.value).toBe('live');
+      expect(plan.counts).toEqual({ add: 1, update: 1, unchanged: 1, skip: 1 });
+      expect(plan.removals).toEqual([]);
+    });
+
+    it('should skip existing cookies with skip-existing', () => {
+      const live: Cookie[] = [{ ...baseCookie, value: 'live' }];
+
+      const plan = planRestore([baseCookie], live, 'skip-existing');
+
+      expect(plan.entries[0].action).toBe('skip');
+      expect(plan.entries[0].reason).toBe('Cookie already exists');
+    });
+
+    it('should keep whichever cookie expires later with keep-newer', () => {
+      const cookies: Cookie[] = [
+        { ...baseCookie, name: 'backup-newer', expirationDate: hourFromNow + 600 },
+        { ...baseCookie, name: 'live-newer' },
+        { ...baseCookie, name: 'live-session' },
+      ];
+      const live: Cookie[] = [
+        { ...baseCookie, name: 'backup-newer', value: 'live' },
+        { ...baseCookie, name: 'live-newer', value: 'live', expirationDate: hourFromNow + 600 },
+        { ...baseCookie, name: 'live-session', value: 'live', expirationDate: undefined },
+      ];
+
+      const plan = planRestore(cookies, live, 'keep-newer');
+
+      expect(plan.entries.map((e) => e.action)).toEqual(['update', 'skip', 'update']);
+      expect(plan.entries[1].reason).toBe('Live cookie expires later');
+    });
+
+    it('should remove other live cookies of restored domains with replace-domain', () => {
+      const live: Cookie[] = [
+        { ...baseCookie, value: 'live' },
+        { ...baseCookie, name: 'stale' },
+        { ...baseCookie, name: 'host', domain: 'example.com' },
+        { ...baseCookie, name: 'other', domain: 'other.com' },
+      ];
+
+      const plan = planRestore([baseCookie], live, 'replace-domain');
+
+      expect(plan.entries[0].action).toBe('update');
+      expect(plan.removals.map((c) => c.name)).toEqual(['stale', 'host']);
+    });
+
+    it('should not match cookies that differ in path', () => {
+      const live: Cookie[] = [{ ...baseCookie, path: '/app' }];
+
+      const plan = planRestore([baseCookie], live, 'skip-existing');
+
+      expect(plan.entries[0].action).toBe('add');
+    });
+  });
+
+  describe('restoreCookies with a strategy', () => {
+    const baseCookie: Cookie = {
+      name: 'session',
+      value: 'backup',
+      domain: 'example.com',
+      path: '/',
+      secure: true,
+      httpOnly: false,
+      storeId: '0',
+      expirationDate: Date.now() / 1000 + 3600,
+    };
+
+    it('should not overwrite live cookies with skip-existing', async () => {
+      vi.mocked(browser.cookies.getAll).mockResolvedValue([
+        { ...baseCookie, value: 'live' },
+      ] as any);
+      vi.mocked(browser.cookies.set).mockResolvedValue({} as any);
+
+      const result = await restoreCookies(
+        [baseCookie, { ...baseCookie, name: 'new' }],
+        undefined,
+        'skip-existing'
+      );
+
+      expect(result.success).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.details[0].reason).toBe('Cookie already exists');
+      expect(browser.cookies.set).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(browser.cookies.set).mock.calls[0][0].name).toBe('new');
+    });
+
+    it('should count unchanged cookies as restored without writing them', async () => {
+      vi.mocked(browser.cookies.getAll).mockResolvedValue([baseCookie] as any);
+
+      const result = await restoreCookies([baseCookie], undefined, 'keep-newer');
+
+      expect(result.success).toBe(1);
+      expect(result.details[0].reason).toBe('Already up to date');
+      expect(browser.cookies.set).not.toHaveBeenCalled();
+    });
+
+    it('should clear the other cookies of the domain with replace-domain', async () => {
+      vi.mocked(browser.cookies.getAll).mockResolvedValue([
+        { ...baseCookie, name: 'stale', secure: false, path: '/app' },
+      ] as any);
+      vi.mocked(browser.cookies.set).mockResolvedValue({} as any);
+
+      await restoreCookies([baseCookie], undefined, 'replace-domain');
+
+      expect(browser.cookies.remove).toHaveBeenCalledWith({
+        url: 'http://example.com/app',
+        name: 'stale',
+        storeId: '0',
+      });
+      expect(browser.cookies.set).toHaveBeenCalledTimes(1);
+    });
+
+    it('should write cookies into their mapped store', async () => {
+      vi.mocked(browser.cookies.getAll).mockResolvedValue([
+        { ...baseCookie, storeId: 'firefox-container-4' },
+      ] as any);
+
+      const result = await restoreCookies([baseCookie], undefined, 'skip-existing', {
+        '0': 'firefox-container-4',
+      });
+
+      expect(browser.cookies.getAll).toHaveBeenCalledWith({ storeId: 'firefox-container-4' });
+      expect(result.details[0].reason).toBe('Already up to date');
+
+      vi.mocked(browser.cookies.set).mockResolvedValue({} as any);
+      await restoreCookies([baseCookie], undefined, 'overwrite', { '0': 'firefox-container-4' });
+
+      expect(vi.mocked(browser.cookies.set).mock.calls[0][0].storeId).toBe('firefox-container-4');
+    });
+
+    it('should not read live cookies with overwrite', async () => {
+      vi.mocked(browser.cookies.set).mockResolvedValue({} as any);
+
+      await restoreCookies([baseCookie]);
+
+      expect(browser.cookies.getAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Firefox first-party isolation', () => {
+    const FPI_ERROR = new Error(
+      "First-Party Isolation is enabled, but the required 'firstPartyDomain' attribute was not set."
+    );
+
+    const isolated: Cookie = {
+      name: 'sid',
+      value: 'isolated',
+      domain: 'example.com',
+      path: '/',
+      secure: true,
+      httpOnly: true,
+      storeId: 'firefox-default',
+      firstPartyDomain: 'example.com',
+    };
+
+    // Fake Firefox with privacy.firstparty.isolate enabled
+    beforeEach(() => {
+      vi.mocked(browser.cookies.getAll).mockImplementation(async (details: any) => {
+        if (!('firstPartyDomain' in details)) throw FPI_ERROR;
+        return details.partitionKey
+          ? []
+          : ([isolated, { ...isolated, value: 'other', firstPartyDomain: 'other.test' }] as any);
+      });
+      vi.mocked(browser.cookies.set).mockImplementation(async (details: any) => {
+        if (details.firstPartyDomain === undefined) throw FPI_ERROR;
+        return {} as any;
+      });
+      vi.mocked(browser.cookies.remove).mockImplementation(async (details: any) => {
+        if (details.firstPartyDomain === undefined) throw FPI_ERROR;
+        return null;
+      });
+    });
+
+    it('should read the cookies of every first-party domain', async () => {
+      const cookies = await getAllCookies();
+
+      expect(browser.cookies.getAll).toHaveBeenCalledWith({ firstPartyDomain: null });
+      expect(cookies.map((c) => c.firstPartyDomain)).toEqual(['example.com', 'other.test']);
+    });
+
+    it('should restore cookies into their first-party domain', async () => {
+      const result = await restoreCookies([
+        isolated,
+        { ...isolated, name: 'plain', firstPartyDomain: undefined },
+      ]);
+
+      expect(result.success).toBe(2);
+      const calls = vi.mocked(browser.cookies.set).mock.calls.map(([details]) => details as any);
+      // Isolation is detected on the first cookie, and sent upfront after that
+      expect(calls.map((details) => details.firstPartyDomain)).toEqual([
+        undefined,
+        'example.com',
+        '',
+      ]);
+    });
+
+    it('should not send firstPartyDomain to browsers without isolation', async () => {
+      vi.mocked(browser.cookies.set).mockImplementation(async (details: any) => {
+        if ('firstPartyDomain' in details)
+          throw new Error('Unexpected property "firstPartyDomain"');
+        return {} as any;
+      });
+
+      const result = await restoreCookies([isolated]);
+
+      expect(result.success).toBe(1);
+      expect(browser.cookies.set).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass firstPartyDomain when clearing a domain', async () => {
+      await restoreCookies([{ ...isolated, value: 'new' }], undefined, 'replace-domain');
+
+      expect(browser.cookies.remove).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'sid', firstPartyDomain: 'other.test' })
+      );
+    });
+  });
+
   describe('groupCookiesByDomain', () => {
     const baseCookie: Cookie = {
       name: 'test',
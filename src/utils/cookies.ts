@@ -1,5 +1,7 @@
 import type { Cookie } from './crypto';
 import browser from 'webextension-polyfill';
+import { changedAttributes, cookieKey } from './cookieDiff';
+import { mapCookieStore, type StoreMapping } from './cookieStores';
 
 // Helper to check if we are in a browser extension environment
 const isExtension = typeof chrome !== 'undefined' && !!chrome.cookies;
@@ -12,6 +14,8 @@ export interface CookieRestoreDetail {
   domain: string;
   status: 'success' | 'skipped' | 'failed';
   reason?: string;
+  /** Restored without its CHIPS partition because the browser does not support it */
+  unpartitioned?: boolean;
 }
 
 /**
@@ -21,9 +25,45 @@ export interface RestoreResult {
   success: number;
   failed: number;
   skipped: number;
+  /** Partitioned cookies restored as unpartitioned */
+  unpartitioned: number;
   details: CookieRestoreDetail[];
 }
 
+/**
+ * How restoreCookies treats cookies that already exist in the browser
+ * - overwrite: write every cookie from the backup
+ * - skip-existing: only add cookies the browser does not have
+ * - keep-newer: replace a live cookie only if the backup's copy expires later
+ * - replace-domain: clear the live cookies of each restored domain that the
+ *   backup does not hold, then write the backup's cookies
+ */
+export type RestoreStrategy = 'overwrite' | 'skip-existing' | 'keep-newer' | 'replace-domain';
+
+/**
+ * What a restore will do with one cookie from the backup
+ */
+export type RestoreAction = 'add' | 'update' | 'unchanged' | 'skip';
+
+export interface RestorePlanEntry {
+  cookie: Cookie;
+  action: RestoreAction;
+  /** The live cookie with the same key, if any */
+  live?: Cookie;
+  reason?: string;
+}
+
+/**
+ * Dry-run result of a restore: one entry per backup cookie, plus the live
+ * cookies that replace-domain would remove
+ */
+export interface RestorePlan {
+  strategy: RestoreStrategy;
+  entries: RestorePlanEntry[];
+  removals: Cookie[];
+  counts: Record<RestoreAction, number>;
+}
+
 /**
  * Domain group for selective backup/restore preview
  */
@@ -75,7 +115,140 @@ export function filterCookiesByDomains(cookies: Cookie[], selectedDomains: Set<s
   });
 }
 
-export async function getAllCookies(): Promise<Cookie[]> {
+const normalizeDomain = (domain: string) => (domain.startsWith('.') ? domain.slice(1) : domain);
+
+function buildUrl(secure: boolean, domain: string, path: string): string {
+  return 'http' + (secure ? 's' : '') + '://' + normalizeDomain(domain) + path;
+}
+
+function isExpired(cookie: Cookie): boolean {
+  return !!cookie.expirationDate && cookie.expirationDate < Date.now() / 1000;
+}
+
+/**
+ * Whether a live cookie already holds everything the backup's copy would write
+ */
+function isSameCookie(cookie: Cookie, live: Cookie): boolean {
+  return cookie.value === live.value && changedAttributes(cookie, live).length === 0;
+}
+
+/**
+ * Works out what restoring cookies would do, without writing anything
+ * @param cookies Cookies from the backup
+ * @param liveCookies Cookies currently in the browser
+ * @param strategy How to treat cookies that already exist
+ * @param storeMapping Target store for each backed-up store; entries hold the mapped cookies
+ */
+export function planRestore(
+  cookies: Cookie[],
+  liveCookies: Cookie[],
+  strategy: RestoreStrategy,
+  storeMapping: StoreMapping = {}
+): RestorePlan {
+  const live = new Map(liveCookies.map((cookie) => [cookieKey(cookie), cookie]));
+  const counts: Record<RestoreAction, number> = { add: 0, update: 0, unchanged: 0, skip: 0 };
+
+  const entries = cookies.map((backupCookie): RestorePlanEntry => {
+    const cookie = mapCookieStore(backupCookie, storeMapping);
+    const existing = live.get(cookieKey(cookie));
+    let entry: RestorePlanEntry;
+    if (isExpired(cookie)) {
+      entry = { cookie, live: existing, action: 'skip', reason: 'Cookie has expired' };
+    } else if (!existing) {
+      entry = { cookie, action: 'add' };
+    } else if (isSameCookie(cookie, existing)) {
+      entry = { cookie, live: existing, action: 'unchanged' };
+    } else if (strategy === 'skip-existing') {
+      entry = { cookie, live: existing, action: 'skip', reason: 'Cookie already exists' };
+    } else if (
+      strategy === 'keep-newer' &&
+      // Session cookies have no expiration and count as the oldest
+      (cookie.expirationDate ?? 0) <= (existing.expirationDate ?? 0)
+    ) {
+      entry = { cookie, live: existing, action: 'skip', reason: 'Live cookie expires later' };
+    } else {
+      entry = { cookie, live: existing, action: 'update' };
+    }
+    counts[entry.action]++;
+    return entry;
+  });
+
+  let removals: Cookie[] = [];
+  if (strategy === 'replace-domain') {
+    const domains = new Set(entries.map((entry) => normalizeDomain(entry.cookie.domain)));
+    const stores = new Set(entries.map((entry) => entry.cookie.storeId));
+    const kept = new Set(
+      entries.filter((entry) => entry.action !== 'skip').map((entry) => cookieKey(entry.cookie))
+    );
+    removals = liveCookies.filter(
+      (cookie) =>
+        stores.has(cookie.storeId) &&
+        domains.has(normalizeDomain(cookie.domain)) &&
+        !kept.has(cookieKey(cookie))
+    );
+  }
+
+  return { strategy, entries, removals, counts };
+}
+
+/**
+ * Plans a restore against the browser's current cookies (see planRestore)
+ */
+export async function dryRunRestore(
+  cookies: Cookie[],
+  strategy: RestoreStrategy,
+  storeMapping: StoreMapping = {}
+): Promise<RestorePlan> {
+  const targetStores = new Set(
+    cookies.map((cookie) => mapCookieStore(cookie, storeMapping).storeId)
+  );
+  const live = await getAllCookies([...targetStores]);
+  return planRestore(cookies, live, strategy, storeMapping);
+}
+
+/**
+ * Whether Firefox first-party isolation (privacy.firstparty.isolate) has been
+ * detected. Firefox then rejects cookie calls without a firstPartyDomain:
+ * "First-Party Isolation is enabled, but the required 'firstPartyDomain'
+ * attribute was not set."
+ */
+interface FirstPartyIsolation {
+  detected: boolean;
+}
+
+const isFirstPartyIsolationError = (e: unknown) =>
+  e instanceof Error && /firstPartyDomain/.test(e.message);
+
+/**
+ * Runs a cookies API call, adding firstPartyDomain once Firefox reports that
+ * first-party isolation requires it. Other browsers reject the property, so it
+ * is only sent after detection.
+ * @param isolation Shared by the calls of one read or restore, so isolation is detected once
+ * @param firstPartyDomain Value to send: null reads cookies of every first-party domain
+ */
+async function withFirstPartyDomain<D extends object, T>(
+  isolation: FirstPartyIsolation,
+  details: D,
+  firstPartyDomain: string | null,
+  call: (details: D) => Promise<T>
+): Promise<T> {
+  if (!isolation.detected) {
+    try {
+      return await call(details);
+    } catch (e) {
+      if (!isFirstPartyIsolationError(e)) throw e;
+      isolation.detected = true;
+    }
+  }
+  return call({ ...details, firstPartyDomain });
+}
+
+/**
+ * Reads cookies from the browser, partitioned ones and (under Firefox
+ * first-party isolation) those of every first-party domain included
+ * @param storeIds Cookie stores to read (default: the browser's default store; see cookieStores.ts)
+ */
+export async function getAllCookies(storeIds?: string[]): Promise<Cookie[]> {
   if (!isExtension) {
     console.warn('Not extensions environment, returning mock cookies');
     return [
@@ -91,29 +264,41 @@ export async function getAllCookies(): Promise<Cookie[]> {
     ];
   }
 
-  // Fetch standard (unpartitioned) cookies
-  const unpartitioned = await browser.cookies.getAll({});
+  // Without store ids only the default store is read, as exports have no store column
+  const queries = storeIds && storeIds.length > 0 ? storeIds.map((storeId) => ({ storeId })) : [{}];
 
-  // Fetch partitioned cookies (CHIPS - Cookies Having Independent Partitioned State)
-  // This ensures we capture cookies set with the Partitioned attribute (Chrome 119+)
-  let partitioned: typeof unpartitioned = [];
-  try {
-    // The partitionKey parameter with empty object fetches all partitioned cookies
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- partitionKey is not typed yet
-    partitioned = await browser.cookies.getAll({ partitionKey: {} } as any);
-  } catch {
-    // Older browsers may not support partitionKey, silently ignore
-    console.debug('Partitioned cookies not supported in this browser');
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- firstPartyDomain: null is not typed
+  const getAll = (details: any) => browser.cookies.getAll(details);
+  const isolation: FirstPartyIsolation = { detected: false };
+
+  let allCookies: Awaited<ReturnType<typeof browser.cookies.getAll>> = [];
+  for (const query of queries) {
+    // Fetch standard (unpartitioned) cookies
+    const unpartitioned = await withFirstPartyDomain(isolation, query, null, getAll);
+
+    // Fetch partitioned cookies (CHIPS - Cookies Having Independent Partitioned State)
+    // This ensures we capture cookies set with the Partitioned attribute (Chrome 119+)
+    let partitioned: typeof unpartitioned = [];
+    try {
+      // The partitionKey parameter with empty object fetches all partitioned cookies
+      partitioned = await withFirstPartyDomain(
+        isolation,
+        { ...query, partitionKey: {} },
+        null,
+        getAll
+      );
+    } catch {
+      // Older browsers may not support partitionKey, silently ignore
+      console.debug('Partitioned cookies not supported in this browser');
+    }
+    allCookies = allCookies.concat(unpartitioned, partitioned);
   }
 
   // Merge and deduplicate cookies
-  // Use composite key of domain + name + path + partitionKey to identify unique cookies
-  const allCookies = [...unpartitioned, ...partitioned];
+  // Use the same key as the browser (see cookieKey) to identify unique cookies
   const seen = new Set<string>();
   const deduplicated = allCookies.filter((cookie) => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- partitionKey is not typed
-    const partitionKey = (cookie as any).partitionKey?.topLevelSite || '';
-    const key = `${cookie.domain}|${cookie.name}|${cookie.path}|${partitionKey}`;
+    const key = cookieKey(cookie as unknown as Cookie);
     if (seen.has(key)) return false;
     seen.add(key);
     return true;
@@ -123,9 +308,56 @@ export async function getAllCookies(): Promise<Cookie[]> {
   return deduplicated as unknown as Cookie[];
 }
 
+/** Reason recorded for cookies restored without their partition */
+const UNPARTITIONED_REASON =
+  'Restored unpartitioned (this browser does not support partitioned cookies)';
+
+/**
+ * Sets a cookie, dropping the parts of its partition key the browser rejects.
+ * Chrome before 119 has no partitionKey, and before 130 no hasCrossSiteAncestor.
+ * @returns Whether the cookie had to be set without its partition
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Browser API types are loose
+async function setCookie(setDetails: any): Promise<boolean> {
+  const isPartitionError = (e: unknown) =>
+    e instanceof Error && /partitionKey|hasCrossSiteAncestor/i.test(e.message);
+
+  try {
+    await browser.cookies.set(setDetails);
+    return false;
+  } catch (e) {
+    if (!setDetails.partitionKey || !isPartitionError(e)) throw e;
+  }
+
+  const { partitionKey, ...unpartitioned } = setDetails;
+  if (partitionKey.hasCrossSiteAncestor !== undefined) {
+    try {
+      await browser.cookies.set({
+        ...unpartitioned,
+        partitionKey: { topLevelSite: partitionKey.topLevelSite },
+      });
+      return false;
+    } catch (e) {
+      if (!isPartitionError(e)) throw e;
+    }
+  }
+
+  await browser.cookies.set(unpartitioned);
+  return true;
+}
+
+/**
+ * Writes cookies to the browser
+ * @param cookies Cookies to restore
+ * @param onProgress Optional progress callback (current, total)
+ * @param strategy How to treat cookies that already exist (default: overwrite)
+ * @param storeMapping Target store for each backed-up store (default: the cookie's own store)
+ */
 export async function restoreCookies(
   cookies: Cookie[],
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  strategy: RestoreStrategy = 'overwrite',
+  storeMapping: StoreMapping = {}
 ): Promise<RestoreResult> {
   const details: CookieRestoreDetail[] = [];
 
@@ -135,6 +367,7 @@ export async function restoreCookies(
       success: cookies.length,
       failed: 0,
       skipped: 0,
+      unpartitioned: 0,
       details: cookies.map((c) => ({
         name: c.name,
         domain: c.domain,
@@ -143,24 +376,53 @@ export async function restoreCookies(
     };
   }
 
+  // Overwrite writes everything, so it does not need to read the live cookies
+  const plan =
+    strategy === 'overwrite'
+      ? planRestore(cookies, [], strategy, storeMapping)
+      : await dryRunRestore(cookies, strategy, storeMapping);
+
+  const isolation: FirstPartyIsolation = { detected: false };
+
+  for (const cookie of plan.removals) {
+    try {
+      await withFirstPartyDomain(
+        isolation,
+        {
+          url: buildUrl(cookie.secure, cookie.domain, cookie.path),
+          name: cookie.name,
+          storeId: cookie.storeId,
+          ...(cookie.partitionKey ? { partitionKey: cookie.partitionKey } : {}),
+        },
+        cookie.firstPartyDomain ?? '',
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Browser API types are loose
+        (details: any) => browser.cookies.remove(details)
+      );
+    } catch (e) {
+      console.error(`Failed to clear cookie ${cookie.name}:`, e);
+    }
+  }
+
   let success = 0;
   let failed = 0;
   let skipped = 0;
-  const total = cookies.length;
+  let unpartitioned = 0;
+  const total = plan.entries.length;
 
   for (let i = 0; i < total; i++) {
-    const cookie = cookies[i];
+    const { cookie, action, reason } = plan.entries[i];
     // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Browser API types are loose
     let setDetails: any = {};
 
-    // 1. Skip expired cookies
-    if (cookie.expirationDate && cookie.expirationDate < Date.now() / 1000) {
-      skipped++;
+    // 1. Skip expired cookies, and existing ones the strategy keeps
+    if (action === 'skip' || action === 'unchanged') {
+      if (action === 'skip') skipped++;
+      else success++;
       details.push({
         name: cookie.name,
         domain: cookie.domain,
-        status: 'skipped',
-        reason: 'Cookie has expired',
+        status: action === 'skip' ? 'skipped' : 'success',
+        reason: reason ?? 'Already up to date',
       });
       if (onProgress) {
         onProgress(i + 1, total);
@@ -168,16 +430,6 @@ export async function restoreCookies(
       continue;
     }
 
-    const buildUrl = (secure: boolean, domain: string, path: string) => {
-      return (
-        'http' +
-        (secure ? 's' : '') +
-        '://' +
-        (domain.startsWith('.') ? domain.slice(1) : domain) +
-        path
-      );
-    };
-
     // Attempt 1: As-is (with cleanup)
     const url = buildUrl(cookie.secure, cookie.domain, cookie.path);
 
@@ -190,6 +442,7 @@ export async function restoreCookies(
       secure: cookie.secure,
       httpOnly: cookie.httpOnly,
       expirationDate: cookie.expirationDate,
+      storeId: cookie.storeId,
     };
 
     if (
@@ -206,14 +459,24 @@ export async function restoreCookies(
     if (cookie.session) {
       delete setDetails.expirationDate;
     }
+    if (cookie.partitionKey?.topLevelSite) {
+      setDetails.partitionKey = cookie.partitionKey;
+    }
 
     try {
-      await browser.cookies.set(setDetails);
+      const lostPartition = await withFirstPartyDomain(
+        isolation,
+        setDetails,
+        cookie.firstPartyDomain ?? '',
+        setCookie
+      );
       success++;
+      if (lostPartition) unpartitioned++;
       details.push({
         name: cookie.name,
         domain: cookie.domain,
         status: 'success',
+        ...(lostPartition ? { reason: UNPARTITIONED_REASON, unpartitioned: true } : {}),
       });
     } catch (e) {
       // Retry Strategy: HSTS Upgrade
@@ -223,13 +486,22 @@ export async function restoreCookies(
         if (!cookie.secure) {
           setDetails.secure = true;
           setDetails.url = buildUrl(true, cookie.domain, cookie.path);
-          await browser.cookies.set(setDetails);
+          const lostPartition = await withFirstPartyDomain(
+            isolation,
+            setDetails,
+            cookie.firstPartyDomain ?? '',
+            setCookie
+          );
           success++;
+          if (lostPartition) unpartitioned++;
           details.push({
             name: cookie.name,
             domain: cookie.domain,
             status: 'success',
-            reason: 'Upgraded to HTTPS',
+            reason: lostPartition
+              ? `Upgraded to HTTPS; ${UNPARTITIONED_REASON}`
+              : 'Upgraded to HTTPS',
+            ...(lostPartition ? { unpartitioned: true } : {}),
           });
         } else {
           throw e; // Already secure, rethrow
@@ -252,5 +524,5 @@ export async function restoreCookies(
     }
   }
 
-  return { success, failed, skipped, details };
+  return { success, failed, skipped, unpartitioned, details };
 }
@@ -1,9 +1,74 @@
 import sjcl from 'sjcl';
-import { generateChecksum, verifyChecksum } from './password';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { verifyChecksum } from './password';
+import { deriveKey, legacyKdfDescriptor, LEGACY_PBKDF2_ITERATIONS, type KdfParams } from './kdf';
+import {
+  createPasswordSlot,
+  createRecipientSlot,
+  createRecoverySlot,
+  createSharesSlot,
+  decodeKeySlot,
+  encodeKeySlot,
+  generateDataKey,
+  importDataKey,
+  unwrapDataKey,
+  type KeySlot,
+} from './keyslots';
+import type { UnlockedIdentity } from './identity';
+import { unlockRecoveryKey } from './recovery';
+import { combineShares, type ShareKey } from './shamir';
+import { countAgeChunks, decryptAge, isAgeFile } from './age';
+import { parseNetscape } from './netscape';
+import { compress, decompress, type CompressionFormat } from './compression';
+import {
+  ChecksumMismatchError,
+  InvalidPayloadError,
+  LegacySjclError,
+  MalformedFileError,
+  TruncatedChunkError,
+  UnsupportedVersionError,
+  WrongPasswordError,
+} from './errors';
+import {
+  createSignatureTranscript,
+  decodeSignature,
+  encodeSignature,
+  signTranscript,
+  verifyTranscript,
+  type BackupSignature,
+  type SignatureStatus,
+  type SigningKey,
+  type TrustedSigner,
+} from './signing';
+import {
+  CONTAINER_MAGIC,
+  SectionType,
+  armorContainer,
+  bytesToBase64,
+  concatBytes,
+  dearmorContainer,
+  isContainer,
+  packContainer,
+  readBlobBytes,
+  readContainer,
+  unpackContainer,
+  type ContainerSection,
+} from './container';
 
 /**
  * Interface for Cookie Object (matching Chrome API)
  */
+/**
+ * Partition of a CHIPS cookie (set with the Partitioned attribute)
+ */
+export interface CookiePartitionKey {
+  /** Site of the top-level page the cookie is partitioned by, e.g. https://example.com */
+  topLevelSite?: string;
+  /** Whether the cookie was set in a cross-site frame (Chrome 130+) */
+  hasCrossSiteAncestor?: boolean;
+}
+
 export interface Cookie {
   name: string;
   value: string;
@@ -16,236 +81,980 @@ export interface Cookie {
   sameSite?: 'no_restriction' | 'lax' | 'strict' | 'unspecified';
   session?: boolean;
   hostOnly?: boolean;
+  partitionKey?: CookiePartitionKey;
+  /** Site a cookie is isolated to under Firefox first-party isolation ('' when not isolated) */
+  firstPartyDomain?: string;
 }
 
+/** Plaintext chunk size for v5 encryption */
+const CHUNK_SIZE = 1024 * 1024; // 1MB chunks
+
+/** AES-GCM IV length in bytes */
+const IV_LENGTH = 12;
+
+/** Random file ID length in bytes */
+const FILE_ID_LENGTH = 16;
+
 /**
- * Encrypts data using AES-GCM (Web Crypto API) with chunked processing
- * @param data The data to encrypt (object or string)
- * @param password The password to derive the key from
- * @param onProgress Optional progress callback (current, total)
- * @returns Blob containing the encrypted data
+ * Options for encryptData
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Generic encryption function accepts any data
-export async function encryptData(
-  data: any,
-  password: string,
-  onProgress?: (current: number, total: number) => void
-): Promise<Blob> {
-  const enc = new TextEncoder();
-  const rawData = JSON.stringify(data);
-  const dataBytes = enc.encode(rawData);
-  const chunkSize = 1024 * 1024; // 1MB chunks
-
-  // For small data, use single-pass encryption (faster, simpler)
-  if (dataBytes.length <= chunkSize) {
-    return encryptSinglePass(rawData, password, onProgress);
-  }
+export interface EncryptOptions {
+  /** 'binary' (default) writes raw bytes; 'base64' writes an armored text file */
+  encoding?: 'binary' | 'base64';
+  /** Compression applied to each chunk before encryption (default 'gzip') */
+  compression?: CompressionFormat | 'none';
+  /** Key derivation algorithm and cost for every password slot (defaults to the PBKDF2 preset) */
+  kdf?: KdfParams;
+  /** More passwords that can open the file, each in its own key slot */
+  additionalPasswords?: string[];
+  /** SHA-256 of a keyfile (see keyfile.ts) that every password slot will also require */
+  keyfile?: Uint8Array;
+  /** Public keys (see identity.ts) that can open the file with their identity */
+  recipients?: string[];
+  /** Public half of a recovery key (see recovery.ts) that can also open the file */
+  recoveryKey?: string;
+  /** Share key (see createShareKey) whose shares can also open the file */
+  shareKey?: ShareKey;
+  /** Signs the file so restores can show who created it */
+  signingKey?: SigningKey;
+  /** Optional plaintext file info, readable before the password is entered */
+  info?: BackupInfo;
+  /** Aborts encryption between chunks */
+  signal?: AbortSignal;
+}
 
-  // For large data, use chunked encryption
-  return encryptChunked(rawData, dataBytes, password, chunkSize, onProgress);
+/**
+ * Options for decryptData
+ */
+export interface DecryptOptions {
+  /** SHA-256 of the keyfile, for password slots that require one */
+  keyfile?: Uint8Array;
+  /** Local identity, for files encrypted to its public key */
+  identity?: UnlockedIdentity;
+  /** Recovery key words, for files with a recovery slot */
+  recoveryPhrase?: string;
+  /** Shamir share strings, for files with a shares slot */
+  shares?: string[];
+  /** X25519 identities (`AGE-SECRET-KEY-1…`), for age files. The password is tried as an age passphrase. */
+  ageIdentities?: string[];
+  /** Aborts decryption between chunks */
+  signal?: AbortSignal;
 }
 
 /**
- * Single-pass encryption for small datasets (backward compatible with v3)
+ * Plaintext preview stored in the v5 header.
+ * Readable without the password, but authenticated as AES-GCM additional data.
  */
-async function encryptSinglePass(
-  rawData: string,
-  password: string,
-  onProgress?: (current: number, total: number) => void
-): Promise<Blob> {
-  const enc = new TextEncoder();
+export interface BackupInfo {
+  /** ISO 8601 creation time */
+  createdAt: string;
+  extensionVersion: string;
+  cookieCount: number;
+  domainCount: number;
+  /** Optional user-supplied label */
+  label?: string;
+}
 
-  if (onProgress) onProgress(0, 3); // Starting
+/**
+ * v5 header, stored as JSON in the first container section
+ */
+export interface BackupHeader {
+  version: 'v5';
+  chunkSize: number;
+  totalSize: number;
+  chunkCount: number;
+  /** Random per-file ID (base64), bound into every chunk through the header */
+  fileId: string;
+  /** SHA-256 of the plaintext JSON */
+  checksum: string;
+  /** Set when every chunk was compressed before encryption */
+  compression?: CompressionFormat;
+  info?: BackupInfo;
+}
 
-  // 1. Generate random salt and IV
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-  const iv = crypto.getRandomValues(new Uint8Array(12));
+export type BackupFormat = 'v5' | 'v4' | 'v3' | 'v2' | 'sjcl' | 'age';
 
-  // 2. Import password
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
-  );
+/**
+ * What can be learned about a backup without its password
+ */
+export interface BackupFormatInfo {
+  format: BackupFormat;
+  /** Key derivation of each password that opens the file (v5 files may have several, or none) */
+  kdf: KdfParams[];
+  chunkCount: number;
+  /** Whether the file carries a checksum of the plaintext */
+  hasChecksum: boolean;
+}
 
-  if (onProgress) onProgress(1, 3); // Key derived
+/** Maximum length of a user-supplied backup label */
+const MAX_LABEL_LENGTH = 100;
 
-  // 3. Derive key
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt']
+/**
+ * Builds the plaintext preview for a cookie backup
+ * @param cookies The cookies being backed up
+ * @param extensionVersion Version of the extension writing the file
+ * @param label Optional user-supplied label
+ */
+export function createBackupInfo(
+  cookies: Cookie[],
+  extensionVersion: string,
+  label?: string
+): BackupInfo {
+  const domains = new Set(
+    cookies.map((c) => (c.domain.startsWith('.') ? c.domain.slice(1) : c.domain))
   );
+  const trimmedLabel = label?.trim().slice(0, MAX_LABEL_LENGTH);
+
+  return {
+    createdAt: new Date().toISOString(),
+    extensionVersion,
+    cookieCount: cookies.length,
+    domainCount: domains.size,
+    ...(trimmedLabel ? { label: trimmedLabel } : {}),
+  };
+}
 
-  // 4. Encrypt
-  const encrypted = await crypto.subtle.encrypt(
-    {
-      name: 'AES-GCM',
-      iv: iv,
-    },
-    key,
-    enc.encode(rawData)
-  );
+/**
+ * Serializes data to JSON as UTF-8 pieces, one array element at a time, so a
+ * large cookie array never exists as a single string, whether it is passed
+ * bare or inside a payload envelope.
+ * The concatenated output is byte-for-byte identical to JSON.stringify(data).
+ */
+function* serializeJson(data: unknown): Generator<Uint8Array> {
+  const enc = new TextEncoder();
+  for (const piece of jsonPieces(data)) yield enc.encode(piece);
+}
 
-  if (onProgress) onProgress(2, 3); // Encrypted
+/**
+ * Yields the JSON text of a value in pieces: arrays per element, and plain
+ * objects per property, descending into array-valued properties
+ */
+function* jsonPieces(value: unknown): Generator<string> {
+  if (Array.isArray(value)) {
+    yield '[';
+    for (let i = 0; i < value.length; i++) {
+      // JSON.stringify writes null for undefined array elements
+      yield (i > 0 ? ',' : '') + (JSON.stringify(value[i]) ?? 'null');
+    }
+    yield ']';
+    return;
+  }
 
-  // 5. Generate checksum of original data for integrity verification
-  const checksum = await generateChecksum(rawData);
+  if (
+    value === null ||
+    typeof value !== 'object' ||
+    typeof (value as { toJSON?: unknown }).toJSON === 'function'
+  ) {
+    yield JSON.stringify(value);
+    return;
+  }
 
-  // 6. Pack result
-  const result = {
-    version: 'v3', // Keep v3 for single-pass (backward compatible)
-    salt: Array.from(salt),
-    iv: Array.from(iv),
-    data: Array.from(new Uint8Array(encrypted)),
-    checksum: checksum,
-  };
+  yield '{';
+  let separator = '';
+  for (const [key, property] of Object.entries(value)) {
+    if (Array.isArray(property)) {
+      yield `${separator}${JSON.stringify(key)}:`;
+      yield* jsonPieces(property);
+    } else {
+      // JSON.stringify leaves out properties it cannot represent
+      const json = JSON.stringify(property) as string | undefined;
+      if (json === undefined) continue;
+      yield `${separator}${JSON.stringify(key)}:${json}`;
+    }
+    separator = ',';
+  }
+  yield '}';
+}
 
-  if (onProgress) onProgress(3, 3); // Complete
+/**
+ * Regroups a stream of byte pieces into fixed-size chunks (the last may be shorter)
+ */
+function* rechunk(pieces: Iterable<Uint8Array>, size: number): Generator<Uint8Array> {
+  let buffer = new Uint8Array(size);
+  let filled = 0;
+
+  for (const piece of pieces) {
+    let offset = 0;
+    while (offset < piece.length) {
+      const count = Math.min(size - filled, piece.length - offset);
+      buffer.set(piece.subarray(offset, offset + count), filled);
+      filled += count;
+      offset += count;
+      if (filled === size) {
+        yield buffer;
+        buffer = new Uint8Array(size);
+        filled = 0;
+      }
+    }
+  }
 
-  return new Blob([JSON.stringify(result)], { type: 'application/octet-stream' });
+  if (filled > 0) yield buffer.subarray(0, filled);
 }
 
 /**
- * Chunked encryption for large datasets
+ * Encrypts data using AES-GCM (Web Crypto API) into a v5 binary container.
+ * Plaintext is produced and encrypted one chunk at a time, so peak memory stays
+ * near the chunk size plus the encrypted output.
+ * @param data The data to encrypt (object or string)
+ * @param password The password that opens the file (may be empty when encrypting to recipients only)
+ * @param onProgress Optional progress callback (current, total)
+ * @param options Optional output, key derivation, recipient, signing and cancellation settings
+ * @returns Blob containing the encrypted data
  */
-async function encryptChunked(
-  rawData: string,
-  dataBytes: Uint8Array,
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Generic encryption function accepts any data
+export async function encryptData(
+  data: any,
   password: string,
-  chunkSize: number,
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  options: EncryptOptions = {}
 ): Promise<Blob> {
-  const enc = new TextEncoder();
-  const totalBytes = dataBytes.length;
-  const numChunks = Math.ceil(totalBytes / chunkSize);
+  const { signal } = options;
+
+  // 1. Measure and hash the plaintext in a first streaming pass.
+  // The header must be final before any chunk is encrypted, because it is bound as additional data.
+  const hash = sha256.create();
+  let totalBytes = 0;
+  for (const piece of serializeJson(data)) {
+    hash.update(piece);
+    totalBytes += piece.length;
+  }
+  const numChunks = Math.ceil(totalBytes / CHUNK_SIZE);
 
-  // Progress: key derivation is 10% of the work, then chunks are the remaining 90%
+  // Progress: key derivation, then one step per chunk
   const progressSteps = numChunks + 1;
 
   if (onProgress) onProgress(0, progressSteps);
 
-  // 1. Generate salt (shared across all chunks)
-  const salt = crypto.getRandomValues(new Uint8Array(16));
-
-  // 2. Import password and derive key (once)
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
-  );
-
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['encrypt']
-  );
+  // 2. Build header with checksum of original data
+  const compression = options.compression ?? 'gzip';
+  const header: BackupHeader = {
+    version: 'v5',
+    chunkSize: CHUNK_SIZE,
+    totalSize: totalBytes,
+    chunkCount: numChunks,
+    fileId: bytesToBase64(crypto.getRandomValues(new Uint8Array(FILE_ID_LENGTH))),
+    checksum: bytesToHex(hash.digest()),
+    ...(compression !== 'none' ? { compression } : {}),
+    ...(options.info ? { info: options.info } : {}),
+  };
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const sections: ContainerSection[] = [{ type: SectionType.Header, data: headerBytes }];
+
+  // 3. Generate a random data key and wrap it once per password, recipient, recovery and share key
+  const dataKey = generateDataKey();
+  const passwords = [password, ...(options.additionalPasswords ?? [])].filter(Boolean);
+  const slots: KeySlot[] = [];
+  for (const slotPassword of passwords) {
+    slots.push(
+      await createPasswordSlot(dataKey, slotPassword, options.kdf, headerBytes, options.keyfile)
+    );
+  }
+  for (const recipient of options.recipients ?? []) {
+    slots.push(await createRecipientSlot(dataKey, recipient, headerBytes));
+  }
+  if (slots.length === 0) {
+    throw new Error('A password or recipient is required');
+  }
+  if (options.recoveryKey) {
+    slots.push(await createRecoverySlot(dataKey, options.recoveryKey, headerBytes));
+  }
+  if (options.shareKey) {
+    slots.push(await createSharesSlot(dataKey, options.shareKey, headerBytes));
+  }
+  for (const slot of slots) {
+    sections.push({ type: SectionType.KeySlot, data: encodeKeySlot(slot) });
+  }
+  const key = await importDataKey(dataKey, 'encrypt');
 
   if (onProgress) onProgress(1, progressSteps); // Key derived
 
-  // 3. Encrypt each chunk
-  const encryptedChunks: { iv: number[]; data: number[] }[] = [];
+  // 4. Serialize again and compress and encrypt each chunk as it is produced;
+  // every chunk gets its own IV, stored in front of the ciphertext
+  let index = 0;
+  for (const plainChunk of rechunk(serializeJson(data), CHUNK_SIZE)) {
+    signal?.throwIfAborted();
 
-  for (let i = 0; i < numChunks; i++) {
-    const start = i * chunkSize;
-    const end = Math.min(start + chunkSize, totalBytes);
-    const chunk = dataBytes.slice(start, end);
-
-    // Each chunk gets its own IV for security
-    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const chunk = header.compression ? await compress(plainChunk) : plainChunk;
 
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
     const encrypted = await crypto.subtle.encrypt(
       {
         name: 'AES-GCM',
         iv: iv,
+        additionalData: chunkAdditionalData(headerBytes, index, numChunks),
       },
       key,
-      chunk
+      chunk as Uint8Array<ArrayBuffer>
     );
 
-    encryptedChunks.push({
-      iv: Array.from(iv),
-      data: Array.from(new Uint8Array(encrypted)),
-    });
+    const section = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+    section.set(iv);
+    section.set(new Uint8Array(encrypted), IV_LENGTH);
+    sections.push({ type: SectionType.Chunk, data: section });
+
+    index++;
+    if (onProgress) onProgress(index + 1, progressSteps); // +1 because we already counted key derivation
+  }
 
-    if (onProgress) onProgress(i + 2, progressSteps); // +2 because we already counted key derivation
+  // 5. Sign the header and chunks as stored
+  if (options.signingKey) {
+    const transcript = createSignatureTranscript();
+    for (const section of sections) {
+      if (section.type !== SectionType.KeySlot) transcript.add(section);
+    }
+    const signature = await signTranscript(options.signingKey, transcript);
+    sections.push({ type: SectionType.Signature, data: encodeSignature(signature) });
   }
 
-  // 4. Generate checksum of original data
-  const checksum = await generateChecksum(rawData);
+  // 6. Pack result
+  return saveContainer(sections, options.encoding === 'base64');
+}
 
-  // 5. Pack result
-  const result = {
-    version: 'v4', // New version for chunked format
-    salt: Array.from(salt),
-    chunks: encryptedChunks,
-    chunkSize: chunkSize,
-    totalSize: totalBytes,
-    checksum: checksum,
-  };
+/**
+ * Packs container sections into a backup file
+ * @param armored Whether to write the base64 armored encoding
+ */
+function saveContainer(sections: ContainerSection[], armored: boolean): Blob {
+  const parts = packContainer(sections);
 
-  if (onProgress) onProgress(progressSteps, progressSteps); // Complete
+  if (armored) {
+    return new Blob([armorContainer(concatBytes(parts))], { type: 'text/plain' });
+  }
 
-  return new Blob([JSON.stringify(result)], { type: 'application/octet-stream' });
+  return new Blob(parts, { type: 'application/octet-stream' });
 }
 
 /**
- * Decrypts data. Supports v4 (chunked), v3/v2 (WebCrypto), and legacy SJCL (detected automatically).
- * @param fileContent The string content of the backup file
+ * Decrypts data. Supports v5 (binary or armored container), v4 (chunked), v3/v2 (WebCrypto),
+ * and legacy SJCL (detected automatically).
+ * @param fileContent The backup file (Blob/File, raw bytes or text). v5 files passed as a Blob are
+ *   streamed section by section instead of being loaded whole.
  * @param password The password
  * @param onProgress Optional progress callback (current, total)
+ * @param options Optional identity and cancellation settings
  * @returns The decrypted data object (usually Cookie[])
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Returns parsed JSON of unknown structure
 export async function decryptData(
-  fileContent: string,
+  fileContent: string | Uint8Array | Blob,
   password: string,
-  onProgress?: (current: number, total: number) => void
+  onProgress?: (current: number, total: number) => void,
+  options: DecryptOptions = {}
 ): Promise<any> {
+  // Check for v5 container (binary or armored)
+  const backup = await openBackup(fileContent);
+  if ('sections' in backup) {
+    return decryptContainer(backup.sections, password, onProgress, options);
+  }
+  if ('age' in backup) {
+    return decryptAgeFile(backup.age, password, onProgress, options);
+  }
+
+  const { text } = backup;
+  const json = parseLegacyJson(text);
+  switch (detectLegacyFormat(json)) {
+    case 'v4':
+      return decryptChunked(json, password, onProgress);
+    case 'v3':
+    case 'v2':
+      return decryptWebCrypto(json, password, onProgress);
+    case 'sjcl':
+      return decryptLegacy(text, password);
+    default:
+      throw new MalformedFileError('Unknown file format');
+  }
+}
+
+/**
+ * Decrypts an age file (see age.ts) holding a JSON payload or a Netscape cookie file
+ * @returns The parsed JSON, or the cookies from a Netscape file
+ */
+async function decryptAgeFile(
+  file: Uint8Array,
+  password: string,
+  onProgress?: (current: number, total: number) => void,
+  options: DecryptOptions = {}
+): Promise<unknown> {
+  if (onProgress) onProgress(0, 1);
+  const plaintext = await decryptAge(file, {
+    passphrase: password || undefined,
+    identities: options.ageIdentities,
+  });
+  if (onProgress) onProgress(1, 1);
+
+  const text = new TextDecoder().decode(plaintext);
+  if (/^\s*[[{]/.test(text)) {
+    return parseLegacyJson(text);
+  }
+  const cookies = parseNetscape(text);
+  if (cookies.length === 0) {
+    throw new InvalidPayloadError('age file does not contain cookies');
+  }
+  return cookies;
+}
+
+/**
+ * Parses a pre-v5 (JSON) backup
+ * @throws MalformedFileError if the text is not JSON
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Parsed JSON structure
+function parseLegacyJson(text: string): any {
   try {
-    const json = JSON.parse(fileContent);
+    return JSON.parse(text);
+  } catch {
+    // Might be legacy corrupted or just a bad file
+    throw new MalformedFileError();
+  }
+}
+
+/**
+ * Detects a pre-v5 format from the shape of its JSON.
+ * decryptData and describeBackup both use this, so they always agree.
+ * @returns The format, or null if the JSON is not a known backup
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- Parsed JSON structure
+function detectLegacyFormat(json: any): Exclude<BackupFormat, 'v5' | 'age'> | null {
+  if (typeof json !== 'object' || json === null) return null;
+
+  // v4 format (chunked)
+  if (json.version === 'v4' && json.salt && json.chunks && Array.isArray(json.chunks)) {
+    return 'v4';
+  }
+
+  // v2/v3 format (WebCrypto single-pass)
+  if ((json.version === 'v2' || json.version === 'v3') && json.salt && json.iv && json.data) {
+    return json.version;
+  }
+
+  // Legacy SJCL format
+  // SJCL output usually has "iv", "v", "iter", "ks", "ts", "mode", "adata", "cipher", "salt", "ct"
+  if (json.iv && json.v && json.iter && json.mode && json.ct) {
+    return 'sjcl';
+  }
+
+  return null;
+}
+
+/**
+ * Detects a v5 container (binary or armored) and returns its sections.
+ * Binary Blobs are streamed section by section instead of being read whole.
+ * @returns The container sections, or the file as text for older formats
+ */
+async function openBackup(
+  fileContent: string | Uint8Array | Blob
+): Promise<
+  | { sections: Iterable<ContainerSection> | AsyncIterable<ContainerSection> }
+  | { age: Uint8Array }
+  | { text: string }
+> {
+  if (fileContent instanceof Blob) {
+    // Check for v5 binary container without reading the whole file
+    const preamble = await readBlobBytes(fileContent.slice(0, CONTAINER_MAGIC.length + 1));
+    if (isContainer(preamble)) {
+      return { sections: readContainer(fileContent) };
+    }
+    fileContent = await readBlobBytes(fileContent);
+  }
+
+  if (typeof fileContent !== 'string' && isContainer(fileContent)) {
+    return { sections: unpackContainer(fileContent) };
+  }
+  if (typeof fileContent === 'string') {
+    if (isAgeFile(new TextEncoder().encode(fileContent.slice(0, 128)))) {
+      return { age: new TextEncoder().encode(fileContent) };
+    }
+  } else if (isAgeFile(fileContent)) {
+    return { age: fileContent };
+  }
+
+  const text =
+    typeof fileContent === 'string' ? fileContent : new TextDecoder().decode(fileContent);
+  const armored = dearmorContainer(text);
+  return armored ? { sections: unpackContainer(armored) } : { text };
+}
+
+/**
+ * Reads the sections in front of the first chunk (header and key slots)
+ * @returns The sections, or null for formats other than v5
+ */
+async function readPreamble(
+  fileContent: string | Uint8Array | Blob
+): Promise<ContainerSection[] | null> {
+  const backup = await openBackup(fileContent);
+  if (!('sections' in backup)) return null;
+
+  const sections: ContainerSection[] = [];
+  for await (const section of backup.sections) {
+    if (section.type === SectionType.Chunk) break;
+    sections.push(section);
+  }
+  return sections;
+}
+
+/**
+ * Reads the plaintext header of a v5 backup without decrypting it.
+ * The header is only authenticated once the file is decrypted, so callers
+ * should present it as unverified until then.
+ * @param fileContent The backup file (Blob/File, raw bytes or text)
+ * @returns The header, or null for formats without a plaintext header (v2–v4, SJCL)
+ */
+export async function readBackupHeader(
+  fileContent: string | Uint8Array | Blob
+): Promise<BackupHeader | null> {
+  const sections = await readPreamble(fileContent);
+  return sections ? parseHeader(sections[0]) : null;
+}
+
+/**
+ * Lists the key slots of a v5 backup without decrypting it
+ * @param fileContent The backup file (Blob/File, raw bytes or text)
+ * @returns The slots in file order (empty for formats other than v5)
+ */
+export async function readKeySlots(fileContent: string | Uint8Array | Blob): Promise<KeySlot[]> {
+  const sections = await readPreamble(fileContent);
+  return (sections ?? [])
+    .filter((s) => s.type === SectionType.KeySlot)
+    .map((s) => decodeKeySlot(s.data));
+}
+
+/**
+ * Describes the format of a backup without decrypting it
+ * @param fileContent The backup file (Blob/File, raw bytes or text)
+ * @throws Error if the file is not a backup in any known format
+ */
+export async function describeBackup(
+  fileContent: string | Uint8Array | Blob
+): Promise<BackupFormatInfo> {
+  const sections = await readPreamble(fileContent);
+  if (sections) {
+    const header = parseHeader(sections[0]);
+    const kdf = sections
+      .filter((s) => s.type === SectionType.KeySlot)
+      .map((s) => decodeKeySlot(s.data))
+      .flatMap((slot) => (slot.type === 'password' ? [slot.kdf] : []))
+      .map(({ algorithm, iterations, memoryCost, parallelism }) => ({
+        algorithm,
+        iterations,
+        ...(memoryCost !== undefined ? { memoryCost } : {}),
+        ...(parallelism !== undefined ? { parallelism } : {}),
+      }));
+    return { format: 'v5', kdf, chunkCount: header.chunkCount, hasChecksum: true };
+  }
+
+  if (fileContent instanceof Blob) {
+    fileContent = await readBlobBytes(fileContent);
+  }
+  const backup = await openBackup(fileContent);
+  if ('age' in backup) {
+    // age derives keys with scrypt or X25519, which KdfParams does not describe
+    return { format: 'age', kdf: [], chunkCount: countAgeChunks(backup.age), hasChecksum: false };
+  }
+  const text = 'text' in backup ? backup.text : '';
+  const json = parseLegacyJson(text);
+
+  const legacyKdf: KdfParams = {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: LEGACY_PBKDF2_ITERATIONS,
+  };
+  const format = detectLegacyFormat(json);
+  switch (format) {
+    case 'v4':
+      return {
+        format,
+        kdf: [legacyKdf],
+        chunkCount: json.chunks.length,
+        hasChecksum: Boolean(json.checksum),
+      };
+    case 'v3':
+    case 'v2':
+      return {
+        format,
+        kdf: [legacyKdf],
+        chunkCount: 1,
+        hasChecksum: format === 'v3' && Boolean(json.checksum),
+      };
+    case 'sjcl':
+      // SJCL derives its key with PBKDF2-HMAC-SHA256
+      return {
+        format,
+        kdf: [{ algorithm: 'PBKDF2-SHA256', iterations: json.iter }],
+        chunkCount: 1,
+        hasChecksum: false,
+      };
+    default:
+      throw new MalformedFileError('Unknown file format');
+  }
+}
 
-    // Check for v4 format (chunked)
-    if (json.version === 'v4' && json.salt && json.chunks && Array.isArray(json.chunks)) {
-      return await decryptChunked(json, password, onProgress);
+/**
+ * Checks who signed a v5 backup. Signatures cover the stored ciphertext, so
+ * no password is needed.
+ * @param fileContent The backup file (Blob/File, raw bytes or text)
+ * @param trustedSigners Signers to match the signing key against
+ * @returns 'unsigned' for unsigned files and formats other than v5
+ */
+export async function verifyBackupSignature(
+  fileContent: string | Uint8Array | Blob,
+  trustedSigners: TrustedSigner[] = []
+): Promise<SignatureStatus> {
+  const backup = await openBackup(fileContent);
+  if (!('sections' in backup)) return { status: 'unsigned' };
+
+  const transcript = createSignatureTranscript();
+  let signature: BackupSignature | null = null;
+  let signatureCount = 0;
+
+  for await (const section of backup.sections) {
+    if (section.type === SectionType.Signature) {
+      signature = decodeSignature(section.data);
+      signatureCount++;
+    } else if (section.type === SectionType.Header || section.type === SectionType.Chunk) {
+      if (signatureCount > 0) return { status: 'invalid' }; // Data after the signature
+      transcript.add(section);
     }
+  }
+
+  if (signatureCount === 0) return { status: 'unsigned' };
+  if (!signature || signatureCount > 1 || !(await verifyTranscript(signature, transcript))) {
+    return { status: 'invalid' };
+  }
+
+  const trusted = trustedSigners.find((s) => s.publicKey === signature.signer);
+  return {
+    status: 'valid',
+    signer: signature.signer,
+    ...(trusted ? { trustedName: trusted.name } : {}),
+  };
+}
+
+/**
+ * Loads a whole v5 backup for editing its key slots
+ */
+async function loadContainer(
+  fileContent: string | Uint8Array | Blob
+): Promise<{ sections: ContainerSection[]; armored: boolean }> {
+  if (fileContent instanceof Blob) {
+    fileContent = await readBlobBytes(fileContent);
+  }
+
+  if (typeof fileContent !== 'string' && isContainer(fileContent)) {
+    return { sections: unpackContainer(fileContent), armored: false };
+  }
+
+  const text =
+    typeof fileContent === 'string' ? fileContent : new TextDecoder().decode(fileContent);
+  const armored = dearmorContainer(text);
+  if (!armored) {
+    throw new Error('Only v5 backups have key slots');
+  }
+  return { sections: unpackContainer(armored), armored: true };
+}
+
+/**
+ * Adds a password to a v5 backup. The cookie data is not re-encrypted.
+ * @param fileContent The backup file
+ * @param password A password that already opens the file
+ * @param newPassword The password to add
+ * @param kdf Key derivation for the new slot (defaults to the PBKDF2 preset)
+ * @returns The updated backup, in the same encoding as the input
+ */
+export async function addKeySlot(
+  fileContent: string | Uint8Array | Blob,
+  password: string,
+  newPassword: string,
+  kdf?: KdfParams
+): Promise<Blob> {
+  const { sections, armored } = await loadContainer(fileContent);
+  parseHeader(sections[0]);
+  const headerBytes = sections[0].data;
+
+  const slots = sections.filter((s) => s.type === SectionType.KeySlot);
+  const { dataKey } = await unwrapDataKey(
+    slots.map((s) => decodeKeySlot(s.data)),
+    { password },
+    headerBytes
+  );
+
+  const slot = await createPasswordSlot(dataKey, newPassword, kdf, headerBytes);
+  // Slots sit between the header and the first chunk
+  const insertAt = 1 + slots.length;
+  sections.splice(insertAt, 0, { type: SectionType.KeySlot, data: encodeKeySlot(slot) });
+
+  return saveContainer(sections, armored);
+}
+
+/**
+ * Removes a key slot from a v5 backup. The cookie data is not re-encrypted.
+ * @param fileContent The backup file
+ * @param password A password that opens one of the remaining slots
+ * @param index Position of the slot to remove (see readKeySlots)
+ * @returns The updated backup, in the same encoding as the input
+ */
+export async function removeKeySlot(
+  fileContent: string | Uint8Array | Blob,
+  password: string,
+  index: number
+): Promise<Blob> {
+  const { sections, armored } = await loadContainer(fileContent);
+  parseHeader(sections[0]);
+
+  const slotSections = sections.filter((s) => s.type === SectionType.KeySlot);
+  const removed = slotSections[index];
+  if (!removed) {
+    throw new Error('Key slot not found');
+  }
+  if (slotSections.length === 1) {
+    throw new Error('Cannot remove the last key slot');
+  }
+
+  // Require a password that still opens the file afterwards, so removing a slot cannot lock it
+  const remaining = slotSections.filter((s) => s !== removed);
+  await unwrapDataKey(
+    remaining.map((s) => decodeKeySlot(s.data)),
+    { password },
+    sections[0].data
+  );
+
+  return saveContainer(
+    sections.filter((s) => s !== removed),
+    armored
+  );
+}
+
+/**
+ * Changes the password of a v5 backup: the password slot that opens with
+ * `password` is replaced by one for `newPassword`. The other slots (more
+ * passwords, recipients, recovery key, shares) and the cookie data are kept,
+ * so the signature stays valid.
+ * @param fileContent The backup file
+ * @param password The password to replace
+ * @param newPassword The password that replaces it
+ * @param options Key derivation for the new slot, the keyfile hash if the slot requires one
+ *   (the new slot requires the same keyfile), and a signal that aborts between steps
+ * @returns The updated backup, in the same encoding as the input
+ */
+export async function changePassword(
+  fileContent: string | Uint8Array | Blob,
+  password: string,
+  newPassword: string,
+  options: { kdf?: KdfParams; keyfile?: Uint8Array; signal?: AbortSignal } = {}
+): Promise<Blob> {
+  const { signal } = options;
+  signal?.throwIfAborted();
+  const { sections, armored } = await loadContainer(fileContent);
+  parseHeader(sections[0]);
+  const headerBytes = sections[0].data;
+
+  const slotSections = sections.filter((s) => s.type === SectionType.KeySlot);
+  const slots = slotSections.map((s) => decodeKeySlot(s.data));
+  // Only password slots open with these credentials
+  const { index, dataKey } = await unwrapDataKey(
+    slots,
+    { password, keyfile: options.keyfile },
+    headerBytes
+  );
+  signal?.throwIfAborted();
+
+  const opened = slots[index];
+  const slot = await createPasswordSlot(
+    dataKey,
+    newPassword,
+    options.kdf,
+    headerBytes,
+    opened.type === 'password' && opened.keyfile ? options.keyfile : undefined
+  );
+  sections[sections.indexOf(slotSections[index])] = {
+    type: SectionType.KeySlot,
+    data: encodeKeySlot(slot),
+  };
+  signal?.throwIfAborted();
+
+  return saveContainer(sections, armored);
+}
+
+/**
+ * Reads and validates the v5 header section
+ */
+function parseHeader(section: ContainerSection | undefined): BackupHeader {
+  if (!section || section.type !== SectionType.Header) {
+    throw new MalformedFileError();
+  }
+
+  let header: BackupHeader;
+  try {
+    header = JSON.parse(new TextDecoder().decode(section.data));
+  } catch {
+    throw new MalformedFileError();
+  }
+
+  if (header.version !== 'v5') {
+    throw new UnsupportedVersionError(`Unsupported backup version: ${String(header.version)}`);
+  }
+  if (header.compression !== undefined && header.compression !== 'gzip') {
+    throw new UnsupportedVersionError(`Unsupported compression: ${String(header.compression)}`);
+  }
+  if (
+    typeof header.fileId !== 'string' ||
+    !Number.isSafeInteger(header.chunkCount) ||
+    header.chunkCount < 0
+  ) {
+    throw new MalformedFileError();
+  }
+  return header;
+}
+
+/**
+ * AES-GCM additional data for one chunk: the header bytes (which carry the
+ * file ID and chunk count) followed by the chunk index and count as uint32 BE.
+ * A chunk only decrypts at its own position in its own file.
+ */
+function chunkAdditionalData(
+  headerBytes: Uint8Array,
+  index: number,
+  chunkCount: number
+): Uint8Array<ArrayBuffer> {
+  const aad = new Uint8Array(headerBytes.length + 8);
+  aad.set(headerBytes);
+  const view = new DataView(aad.buffer);
+  view.setUint32(headerBytes.length, index);
+  view.setUint32(headerBytes.length + 4, chunkCount);
+  return aad;
+}
+
+/**
+ * Returns the next chunk section, skipping section types this reader does not use
+ */
+async function nextChunk(
+  sections: Iterator<ContainerSection> | AsyncIterator<ContainerSection>
+): Promise<ContainerSection | null> {
+  for (;;) {
+    const next = await sections.next();
+    if (next.done) return null;
+    if (next.value.type === SectionType.Chunk) return next.value;
+  }
+}
 
-    // Check for v2/v3 format (WebCrypto single-pass)
-    if ((json.version === 'v2' || json.version === 'v3') && json.salt && json.iv && json.data) {
-      return await decryptWebCrypto(json, password, onProgress);
+/**
+ * Decrypt v5 binary container.
+ * Sections are consumed one at a time, so only the current chunk and the
+ * decoded text are held in memory.
+ */
+async function decryptContainer(
+  sections: Iterable<ContainerSection> | AsyncIterable<ContainerSection>,
+  password: string,
+  onProgress?: (current: number, total: number) => void,
+  options: DecryptOptions = {}
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- Returns parsed JSON
+): Promise<any> {
+  const { signal } = options;
+  const iterator =
+    Symbol.asyncIterator in sections
+      ? sections[Symbol.asyncIterator]()
+      : sections[Symbol.iterator]();
+
+  const first = await iterator.next();
+  const headerSection = first.done ? undefined : first.value;
+  const header = parseHeader(headerSection);
+  const headerBytes = headerSection!.data as Uint8Array<ArrayBuffer>;
+
+  // Progress: key derivation + chunks
+  const progressSteps = header.chunkCount + 1;
+
+  if (onProgress) onProgress(0, progressSteps);
+
+  // 1. Collect the key slots in front of the first chunk and unwrap the data key
+  const slots: KeySlot[] = [];
+  let firstChunk: ContainerSection | null = null;
+  for (;;) {
+    const next = await iterator.next();
+    if (next.done) break;
+    if (next.value.type === SectionType.KeySlot) {
+      slots.push(decodeKeySlot(next.value.data));
+    } else if (next.value.type === SectionType.Chunk) {
+      firstChunk = next.value;
+      break;
     }
+  }
+
+  const { dataKey } = await unwrapDataKey(
+    slots,
+    {
+      password,
+      keyfile: options.keyfile,
+      identity: options.identity,
+      recoveryKey: options.recoveryPhrase
+        ? await unlockRecoveryKey(options.recoveryPhrase)
+        : undefined,
+      shareKey: options.shares ? combineShares(options.shares) : undefined,
+    },
+    headerBytes
+  );
+  const key = await importDataKey(dataKey, 'decrypt');
+
+  if (onProgress) onProgress(1, progressSteps); // Key derived
+
+  // 2. Decrypt each chunk as it is read, hashing and decoding incrementally
+  const hash = sha256.create();
+  const decoder = new TextDecoder();
+  const textParts: string[] = [];
 
-    // Check for legacy SJCL format
-    // SJCL output usually has "iv", "v", "iter", "ks", "ts", "mode", "adata", "cipher", "salt", "ct"
-    if (json.iv && json.v && json.iter && json.mode && json.ct) {
-      return decryptLegacy(fileContent, password);
+  for (let i = 0; i < header.chunkCount; i++) {
+    signal?.throwIfAborted();
+
+    const chunk = i === 0 ? firstChunk : await nextChunk(iterator);
+    if (!chunk) {
+      throw new TruncatedChunkError(
+        `Backup file is truncated: chunk ${i + 1} of ${header.chunkCount} is missing`
+      );
     }
 
-    throw new Error('Unknown file format');
-  } catch (e: unknown) {
-    // If JSON parse fails, it might be legacy corrupted or just bad file
-    if (e instanceof SyntaxError) {
-      throw new Error('Invalid file format');
+    const section = chunk.data as Uint8Array<ArrayBuffer>;
+    let decrypted: ArrayBuffer;
+    try {
+      decrypted = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: section.subarray(0, IV_LENGTH),
+          // The header, index and count are authenticated, so an edited header or a
+          // reordered, duplicated or foreign chunk fails here
+          additionalData: chunkAdditionalData(headerBytes, i, header.chunkCount),
+        },
+        key,
+        section.subarray(IV_LENGTH)
+      );
+    } catch {
+      // The data key already opened, so this is damage rather than a wrong password
+      throw new MalformedFileError(
+        `Backup file corrupted: chunk ${i + 1} of ${header.chunkCount} is damaged or out of order`
+      );
     }
-    throw e;
+
+    const plaintext = header.compression
+      ? await decompress(new Uint8Array(decrypted), header.chunkSize)
+      : new Uint8Array(decrypted);
+    hash.update(plaintext);
+    textParts.push(decoder.decode(plaintext, { stream: true }));
+
+    if (onProgress) onProgress(i + 2, progressSteps);
+  }
+
+  if (await nextChunk(iterator)) {
+    throw new MalformedFileError(`Backup file corrupted: more than ${header.chunkCount} chunks`);
+  }
+  textParts.push(decoder.decode());
+
+  // 3. Verify checksum
+  if (bytesToHex(hash.digest()) !== header.checksum) {
+    throw new ChecksumMismatchError();
+  }
+
+  if (onProgress) onProgress(progressSteps, progressSteps); // Complete
+
+  try {
+    return JSON.parse(textParts.join(''));
+  } catch {
+    // The checksum matched, so the file was written this way
+    throw new MalformedFileError();
   }
 }
 
@@ -255,33 +1064,13 @@ async function decryptWebCrypto(
   password: string,
   onProgress?: (current: number, total: number) => void
 ): Promise<any> {
-  const enc = new TextEncoder();
   const salt = new Uint8Array(json.salt);
   const iv = new Uint8Array(json.iv);
   const data = new Uint8Array(json.data);
 
   if (onProgress) onProgress(0, 2); // Starting
 
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
-  );
-
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['decrypt']
-  );
+  const key = await deriveKey(password, legacyKdfDescriptor(salt), 'decrypt');
 
   if (onProgress) onProgress(1, 2); // Key derived
 
@@ -301,7 +1090,7 @@ async function decryptWebCrypto(
     if (json.version === 'v3' && json.checksum) {
       const isValid = await verifyChecksum(decryptedText, json.checksum);
       if (!isValid) {
-        throw new Error('Backup file corrupted (checksum mismatch)');
+        throw new ChecksumMismatchError();
       }
     }
 
@@ -309,10 +1098,10 @@ async function decryptWebCrypto(
 
     return JSON.parse(decryptedText);
   } catch (err) {
-    if (err instanceof Error && err.message.includes('checksum')) {
+    if (err instanceof ChecksumMismatchError) {
       throw err;
     }
-    throw new Error('Incorrect password or corrupted file');
+    throw new WrongPasswordError();
   }
 }
 
@@ -325,7 +1114,6 @@ async function decryptChunked(
   password: string,
   onProgress?: (current: number, total: number) => void
 ): Promise<any> {
-  const enc = new TextEncoder();
   const dec = new TextDecoder();
   const salt = new Uint8Array(json.salt);
   const chunks = json.chunks;
@@ -336,27 +1124,8 @@ async function decryptChunked(
 
   if (onProgress) onProgress(0, progressSteps);
 
-  // 1. Import password and derive key (once)
-  const keyMaterial = await crypto.subtle.importKey(
-    'raw',
-    enc.encode(password),
-    { name: 'PBKDF2' },
-    false,
-    ['deriveKey']
-  );
-
-  const key = await crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: salt,
-      iterations: 100000,
-      hash: 'SHA-256',
-    },
-    keyMaterial,
-    { name: 'AES-GCM', length: 256 },
-    false,
-    ['decrypt']
-  );
+  // 1. Derive key (once)
+  const key = await deriveKey(password, legacyKdfDescriptor(salt), 'decrypt');
 
   if (onProgress) onProgress(1, progressSteps); // Key derived
 
@@ -399,7 +1168,7 @@ async function decryptChunked(
     if (json.checksum) {
       const isValid = await verifyChecksum(decryptedText, json.checksum);
       if (!isValid) {
-        throw new Error('Backup file corrupted (checksum mismatch)');
+        throw new ChecksumMismatchError();
       }
     }
 
@@ -407,10 +1176,10 @@ async function decryptChunked(
 
     return JSON.parse(decryptedText);
   } catch (err) {
-    if (err instanceof Error && err.message.includes('checksum')) {
+    if (err instanceof ChecksumMismatchError) {
       throw err;
     }
-    throw new Error('Incorrect password or corrupted file');
+    throw new WrongPasswordError();
   }
 }
 
@@ -420,14 +1189,18 @@ function decryptLegacy(fileContent: string, password: string): any {
     const decrypted = sjcl.decrypt(password, fileContent);
     return JSON.parse(decrypted);
   } catch (e: unknown) {
-    // SJCL throws specific exceptions, but we just want to bubble "Incorrect password"
-    const error = e as Error;
-    if (
-      error.message &&
-      (error.message.indexOf('corrupt') !== -1 || error.message.indexOf('invalid') !== -1)
-    ) {
-      throw new Error('Incorrect password or corrupted file');
+    // A CCM tag mismatch is how a wrong password shows up
+    if (e instanceof sjcl.exception.corrupt) {
+      throw new WrongPasswordError(undefined, { cause: e });
+    }
+    if (e instanceof SyntaxError) {
+      throw new MalformedFileError(undefined, { cause: e });
     }
-    throw e;
+    // SJCL exceptions are not Errors, but carry a message
+    const message = (e as { message?: unknown })?.message;
+    throw new LegacySjclError(
+      `Legacy backup could not be read${typeof message === 'string' ? ` (${message})` : ''}`,
+      { cause: e }
+    );
   }
 }
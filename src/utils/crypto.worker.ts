@@ -0,0 +1,8 @@
+import { createCryptoWorkerHandler } from './cryptoWorker';
+
+/**
+ * Crypto worker entry point (see cryptoWorker.ts)
+ */
+const scope = self as unknown as Worker;
+
+scope.onmessage = createCryptoWorkerHandler((response) => scope.postMessage(response));
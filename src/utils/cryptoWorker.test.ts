@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createCryptoWorkerHandler,
+  decryptInWorker,
+  encryptAgeInWorker,
+  encryptInWorker,
+  type CryptoWorkerRequest,
+  type CryptoWorkerResponse,
+} from './cryptoWorker';
+import { decryptAge } from './age';
+import type { Cookie } from './crypto';
+import { WrongPasswordError } from './errors';
+
+const password = 'mySecurePassword123!';
+const cookies: Cookie[] = [
+  {
+    name: 'a',
+    value: '1',
+    domain: '.example.com',
+    path: '/',
+    secure: true,
+    httpOnly: false,
+    storeId: '0',
+  },
+];
+
+/**
+ * Stand-in for a module Worker that runs the real handler on the same thread
+ */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<CryptoWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: CryptoWorkerRequest[] = [];
+  private handler = createCryptoWorkerHandler((response) =>
+    this.onmessage?.({ data: response } as MessageEvent<CryptoWorkerResponse>)
+  );
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: CryptoWorkerRequest) {
+    this.requests.push(request);
+    void this.handler({ data: request } as MessageEvent<CryptoWorkerRequest>);
+  }
+
+  terminate() {}
+}
+
+describe('Crypto Worker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('createCryptoWorkerHandler', () => {
+    it('should post progress and the result for an encrypt job', async () => {
+      const responses: CryptoWorkerResponse[] = [];
+      const handler = createCryptoWorkerHandler((response) => responses.push(response));
+
+      await handler({
+        data: { id: 1, type: 'encrypt', data: cookies, password, options: {} },
+      } as MessageEvent<CryptoWorkerRequest>);
+
+      expect(responses.some((r) => r.type === 'progress')).toBe(true);
+      const result = responses.at(-1);
+      expect(result).toMatchObject({ id: 1, type: 'result' });
+      expect((result as { result: unknown }).result).toBeInstanceOf(Blob);
+    });
+
+    it('should post errors with their message and code', async () => {
+      const responses: CryptoWorkerResponse[] = [];
+      const handler = createCryptoWorkerHandler((response) => responses.push(response));
+
+      await handler({
+        data: { id: 2, type: 'decrypt', fileContent: 'not a backup', password, options: {} },
+      } as MessageEvent<CryptoWorkerRequest>);
+
+      expect(responses.at(-1)).toEqual({
+        id: 2,
+        type: 'error',
+        name: 'MalformedFileError',
+        message: 'Invalid file format',
+        code: 'malformed-file',
+      });
+    });
+
+    it('should abort a job on cancel', async () => {
+      const responses: CryptoWorkerResponse[] = [];
+      const handler = createCryptoWorkerHandler((response) => responses.push(response));
+
+      const job = handler({
+        data: { id: 3, type: 'encrypt', data: cookies, password, options: {} },
+      } as MessageEvent<CryptoWorkerRequest>);
+      await handler({ data: { id: 3, type: 'cancel' } } as MessageEvent<CryptoWorkerRequest>);
+      await job;
+
+      expect(responses.at(-1)).toMatchObject({ id: 3, type: 'error', name: 'AbortError' });
+    });
+  });
+
+  describe('encryptInWorker / decryptInWorker', () => {
+    it('should run on the calling thread when Worker is unavailable', async () => {
+      const blob = await encryptInWorker(cookies, password);
+
+      expect(await decryptInWorker(blob, password)).toEqual(cookies);
+    });
+
+    it('should round-trip through the worker and report progress', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const onProgress = vi.fn();
+
+      const blob = await encryptInWorker(cookies, password, onProgress);
+      const decrypted = await decryptInWorker(blob, password);
+
+      expect(decrypted).toEqual(cookies);
+      expect(onProgress).toHaveBeenCalled();
+      expect(FakeWorker.instances).toHaveLength(1);
+    });
+
+    it('should rebuild backup errors thrown in the worker', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+
+      const blob = await encryptInWorker(cookies, password);
+      const result = decryptInWorker(blob, 'wrong');
+
+      await expect(result).rejects.toBeInstanceOf(WrongPasswordError);
+      await expect(result).rejects.toMatchObject({ code: 'wrong-password' });
+    });
+
+    it('should send cancel and reject when the signal aborts', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const controller = new AbortController();
+
+      const result = encryptInWorker(cookies, password, undefined, { signal: controller.signal });
+      controller.abort();
+
+      await expect(result).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+      expect(FakeWorker.instances[0].requests.at(-1)).toMatchObject({ type: 'cancel' });
+    });
+  });
+
+  describe('encryptAgeInWorker', () => {
+    const plaintext = new TextEncoder().encode('# Netscape HTTP Cookie File\n');
+    const recipient = { type: 'scrypt' as const, passphrase: password, workFactor: 10 };
+
+    it('should encrypt an age file in the worker and report scrypt progress', async () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const onProgress = vi.fn();
+
+      const file = await encryptAgeInWorker(plaintext, [recipient], onProgress);
+
+      const decrypted = await decryptAge(file, { passphrase: password });
+      expect(new TextDecoder().decode(decrypted)).toBe('# Netscape HTTP Cookie File\n');
+      expect(FakeWorker.instances.at(-1)?.requests.at(-1)).toMatchObject({ type: 'encrypt-age' });
+      // Fractional steps come from scrypt, before the single payload chunk
+      expect(onProgress.mock.calls.some(([current]) => current > 0 && current < 1)).toBe(true);
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('should stop scrypt when the job is cancelled', async () => {
+      const responses: CryptoWorkerResponse[] = [];
+      const handler = createCryptoWorkerHandler((response) => responses.push(response));
+
+      const job = handler({
+        data: { id: 4, type: 'encrypt-age', plaintext, recipients: [recipient] },
+      } as MessageEvent<CryptoWorkerRequest>);
+      await handler({ data: { id: 4, type: 'cancel' } } as MessageEvent<CryptoWorkerRequest>);
+      await job;
+
+      expect(responses.at(-1)).toMatchObject({ id: 4, type: 'error', name: 'AbortError' });
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { decryptData, encryptData, type DecryptOptions, type EncryptOptions } from './crypto';
+import { encryptAge, type AgeEncryptOptions, type AgeRecipient } from './age';
+import { BackupError, createBackupError, type BackupErrorCode } from './errors';
+
+/**
+ * Crypto Worker
+ *
+ * Runs encryptData/decryptData (and encryptAge, whose scrypt needs 256 MiB)
+ * in a dedicated Web Worker so key derivation and chunk encryption never
+ * block the popup. The worker entry point
+ * (crypto.worker.ts) only wires createCryptoWorkerHandler to the worker scope;
+ * everything else lives here so it can be tested without a real Worker.
+ *
+ * Where Worker is unavailable (tests, service worker), the same functions
+ * run on the calling thread.
+ */
+
+/**
+ * Messages sent to the worker. Every job has an id so progress and results
+ * can be matched to the call that started it.
+ */
+export type CryptoWorkerRequest =
+  | {
+      id: number;
+      type: 'encrypt';
+      data: unknown;
+      password: string;
+      options: Omit<EncryptOptions, 'signal'>;
+    }
+  | {
+      id: number;
+      type: 'decrypt';
+      fileContent: string | Uint8Array | Blob;
+      password: string;
+      options: Omit<DecryptOptions, 'signal'>;
+    }
+  | {
+      id: number;
+      type: 'encrypt-age';
+      plaintext: Uint8Array;
+      recipients: AgeRecipient[];
+    }
+  | { id: number; type: 'cancel' };
+
+/**
+ * Messages sent back from the worker
+ */
+export type CryptoWorkerResponse =
+  | { id: number; type: 'progress'; current: number; total: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; name: string; message: string; code?: BackupErrorCode };
+
+type ProgressCallback = (current: number, total: number) => void;
+
+/**
+ * Creates the worker's message handler.
+ * Each job gets its own AbortController; a 'cancel' message aborts it and the
+ * job stops at the next chunk boundary (or scrypt progress report).
+ * @param post Sends a response to the main thread
+ */
+export function createCryptoWorkerHandler(post: (response: CryptoWorkerResponse) => void) {
+  const jobs = new Map<number, AbortController>();
+
+  return async (event: MessageEvent<CryptoWorkerRequest>): Promise<void> => {
+    const request = event.data;
+
+    if (request.type === 'cancel') {
+      jobs.get(request.id)?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    jobs.set(request.id, controller);
+    const onProgress: ProgressCallback = (current, total) =>
+      post({ id: request.id, type: 'progress', current, total });
+
+    try {
+      let result: unknown;
+      switch (request.type) {
+        case 'encrypt':
+          result = await encryptData(request.data, request.password, onProgress, {
+            ...request.options,
+            signal: controller.signal,
+          });
+          break;
+        case 'decrypt':
+          result = await decryptData(request.fileContent, request.password, onProgress, {
+            ...request.options,
+            signal: controller.signal,
+          });
+          break;
+        case 'encrypt-age':
+          result = await encryptAge(request.plaintext, request.recipients, onProgress, {
+            signal: controller.signal,
+          });
+          break;
+      }
+      post({ id: request.id, type: 'result', result });
+    } catch (err: unknown) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      post({
+        id: request.id,
+        type: 'error',
+        name: error.name,
+        message: error.message,
+        ...(error instanceof BackupError ? { code: error.code } : {}),
+      });
+    } finally {
+      jobs.delete(request.id);
+    }
+  };
+}
+
+interface PendingJob {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 1;
+const pendingJobs = new Map<number, PendingJob>();
+
+function handleResponse(response: CryptoWorkerResponse): void {
+  const job = pendingJobs.get(response.id);
+  if (!job) return; // Cancelled
+
+  if (response.type === 'progress') {
+    job.onProgress?.(response.current, response.total);
+    return;
+  }
+
+  pendingJobs.delete(response.id);
+  if (response.type === 'result') {
+    job.resolve(response.result);
+  } else {
+    // Backup errors are rebuilt from their code so callers can still use instanceof
+    const error = createBackupError(response.code, response.message);
+    error.name = response.name;
+    job.reject(error);
+  }
+}
+
+/**
+ * Returns the shared worker, creating it on first use.
+ * Returns null where Worker is not available.
+ */
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+
+  if (!worker) {
+    worker = new Worker(new URL('./crypto.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => handleResponse(event.data);
+    worker.onerror = (event) => {
+      // A crashed worker cannot finish its jobs; fail them and start fresh next time
+      event.preventDefault();
+      worker?.terminate();
+      worker = null;
+      for (const job of pendingJobs.values()) {
+        job.reject(new Error(event.message || 'Crypto worker failed'));
+      }
+      pendingJobs.clear();
+    };
+  }
+  return worker;
+}
+
+/**
+ * Sends a job to the worker and resolves with its result
+ */
+function runJob(
+  target: Worker,
+  request:
+    | Omit<Extract<CryptoWorkerRequest, { type: 'encrypt' }>, 'id'>
+    | Omit<Extract<CryptoWorkerRequest, { type: 'decrypt' }>, 'id'>
+    | Omit<Extract<CryptoWorkerRequest, { type: 'encrypt-age' }>, 'id'>,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const id = nextJobId++;
+    pendingJobs.set(id, { resolve, reject, onProgress });
+
+    signal?.addEventListener(
+      'abort',
+      () => {
+        // Reject right away; the worker stops at its next chunk boundary
+        if (!pendingJobs.delete(id)) return;
+        target.postMessage({ id, type: 'cancel' } satisfies CryptoWorkerRequest);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+
+    target.postMessage({ ...request, id } satisfies CryptoWorkerRequest);
+  });
+}
+
+/**
+ * Encrypts data in the crypto worker (same parameters and result as encryptData)
+ */
+export async function encryptInWorker(
+  data: unknown,
+  password: string,
+  onProgress?: ProgressCallback,
+  options: EncryptOptions = {}
+): Promise<Blob> {
+  const target = getWorker();
+  if (!target) return encryptData(data, password, onProgress, options);
+
+  const { signal, ...rest } = options;
+  return (await runJob(
+    target,
+    { type: 'encrypt', data, password, options: rest },
+    onProgress,
+    signal
+  )) as Blob;
+}
+
+/**
+ * Decrypts a backup in the crypto worker (same parameters and result as decryptData).
+ * The result is unchecked JSON; decryptPayload (payload.ts) unwraps and types it.
+ * Pass the File itself so v5 backups are streamed instead of copied whole.
+ */
+export async function decryptInWorker(
+  fileContent: string | Uint8Array | Blob,
+  password: string,
+  onProgress?: ProgressCallback,
+  options: DecryptOptions = {}
+): Promise<unknown> {
+  const target = getWorker();
+  if (!target) return decryptData(fileContent, password, onProgress, options);
+
+  const { signal, ...rest } = options;
+  return runJob(
+    target,
+    { type: 'decrypt', fileContent, password, options: rest },
+    onProgress,
+    signal
+  );
+}
+
+/**
+ * Encrypts data as an age file in the crypto worker (same parameters and result as encryptAge)
+ */
+export async function encryptAgeInWorker(
+  plaintext: Uint8Array,
+  recipients: AgeRecipient[],
+  onProgress?: ProgressCallback,
+  options: AgeEncryptOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const target = getWorker();
+  if (!target) return encryptAge(plaintext, recipients, onProgress, options);
+
+  return (await runJob(
+    target,
+    { type: 'encrypt-age', plaintext, recipients },
+    onProgress,
+    options.signal
+  )) as Uint8Array<ArrayBuffer>;
+}
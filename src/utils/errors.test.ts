@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import sjcl from 'sjcl';
+import {
+  BackupError,
+  ChecksumMismatchError,
+  LegacySjclError,
+  MalformedFileError,
+  TruncatedChunkError,
+  UnsupportedVersionError,
+  WrongPasswordError,
+  createBackupError,
+  describeBackupError,
+} from './errors';
+import { decryptData, encryptData } from './crypto';
+import { concatBytes, packContainer, readBlobBytes, unpackContainer } from './container';
+import { encryptV4 } from '../test/legacyFixtures';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const data = [{ name: 'a', domain: 'example.com' }];
+
+describe('Backup errors', () => {
+  it('should carry a stable code and keep their messages', () => {
+    const error = new WrongPasswordError();
+
+    expect(error).toBeInstanceOf(BackupError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('WrongPasswordError');
+    expect(error.code).toBe('wrong-password');
+    expect(error.message).toBe('Incorrect password or corrupted file');
+    expect(new ChecksumMismatchError().code).toBe('checksum-mismatch');
+    expect(new TruncatedChunkError().code).toBe('truncated-chunk');
+  });
+
+  it('should be rebuilt from a code', () => {
+    const error = createBackupError('unsupported-version', 'Unsupported backup version: v9');
+
+    expect(error).toBeInstanceOf(UnsupportedVersionError);
+    expect(error.message).toBe('Unsupported backup version: v9');
+    expect(createBackupError(undefined, 'Other')).not.toBeInstanceOf(BackupError);
+  });
+
+  it('should add guidance for display', () => {
+    expect(describeBackupError(new TruncatedChunkError(), 'Failed')).toMatch(
+      /^Backup file is truncated\. The file is incomplete/
+    );
+    expect(describeBackupError(new Error('Other'), 'Failed')).toBe('Other');
+    expect(describeBackupError('nope', 'Failed')).toBe('Failed');
+  });
+
+  describe('thrown by decryptData', () => {
+    it('should report a wrong password', async () => {
+      const file = await encryptData(data, 'pw', undefined, { kdf: fastKdf });
+      await expect(decryptData(file, 'wrong')).rejects.toBeInstanceOf(WrongPasswordError);
+    });
+
+    it('should report a checksum mismatch', async () => {
+      const json = JSON.parse(await encryptV4(data, 'pw'));
+      json.checksum = '0'.repeat(64);
+
+      await expect(decryptData(JSON.stringify(json), 'pw')).rejects.toBeInstanceOf(
+        ChecksumMismatchError
+      );
+    });
+
+    it('should report an unsupported version', async () => {
+      const bytes = await readBlobBytes(await encryptData(data, 'pw', undefined, { kdf: fastKdf }));
+      const [header, ...rest] = unpackContainer(bytes);
+      const edited = new TextEncoder().encode(
+        new TextDecoder().decode(header.data).replace('"v5"', '"v9"')
+      );
+      const file = concatBytes(packContainer([{ type: header.type, data: edited }, ...rest]));
+
+      await expect(decryptData(file, 'pw')).rejects.toBeInstanceOf(UnsupportedVersionError);
+    });
+
+    it('should report a malformed or truncated file', async () => {
+      await expect(decryptData('{"hello":1}', 'pw')).rejects.toBeInstanceOf(MalformedFileError);
+
+      const bytes = await readBlobBytes(await encryptData(data, 'pw', undefined, { kdf: fastKdf }));
+      await expect(decryptData(bytes.slice(0, -5), 'pw')).rejects.toBeInstanceOf(
+        TruncatedChunkError
+      );
+    });
+
+    it('should tell SJCL failures apart from a wrong password', async () => {
+      const legacy = sjcl.encrypt('pw', JSON.stringify(data)) as unknown as string;
+      await expect(decryptData(legacy, 'wrong')).rejects.toBeInstanceOf(WrongPasswordError);
+
+      const unsupported = JSON.stringify({ ...JSON.parse(legacy), mode: 'ofb' });
+      await expect(decryptData(unsupported, 'pw')).rejects.toBeInstanceOf(LegacySjclError);
+    });
+  });
+});
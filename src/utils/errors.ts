@@ -0,0 +1,151 @@
+/**
+ * Backup Errors
+ *
+ * Decryption failures are thrown as subclasses of BackupError, each with a
+ * stable `code`. Callers branch on the class or the code instead of matching
+ * message text, and the code survives the trip back from the crypto worker
+ * (see cryptoWorker.ts), where class identity does not.
+ */
+
+export type BackupErrorCode =
+  | 'wrong-password'
+  | 'keyfile-required'
+  | 'checksum-mismatch'
+  | 'unsupported-version'
+  | 'malformed-file'
+  | 'truncated-chunk'
+  | 'legacy-sjcl'
+  | 'invalid-payload';
+
+/**
+ * Base class for errors reading a backup file
+ */
+export class BackupError extends Error {
+  readonly code: BackupErrorCode;
+
+  constructor(code: BackupErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+/**
+ * No credential opened the file. AES-GCM cannot tell a wrong password from a
+ * damaged legacy file, so older formats report damage this way too.
+ */
+export class WrongPasswordError extends BackupError {
+  constructor(message = 'Incorrect password or corrupted file', options?: ErrorOptions) {
+    super('wrong-password', message, options);
+  }
+}
+
+/**
+ * The file's password slots all need a keyfile, and none was given
+ */
+export class KeyfileRequiredError extends BackupError {
+  constructor(message = 'This backup needs its keyfile', options?: ErrorOptions) {
+    super('keyfile-required', message, options);
+  }
+}
+
+/**
+ * The file decrypted, but the plaintext does not match its stored checksum
+ */
+export class ChecksumMismatchError extends BackupError {
+  constructor(message = 'Backup file corrupted (checksum mismatch)', options?: ErrorOptions) {
+    super('checksum-mismatch', message, options);
+  }
+}
+
+/**
+ * The file uses a version, compression or key derivation this build cannot read
+ */
+export class UnsupportedVersionError extends BackupError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('unsupported-version', message, options);
+  }
+}
+
+/**
+ * The file is not a backup, or its structure or contents are damaged
+ */
+export class MalformedFileError extends BackupError {
+  constructor(message = 'Invalid file format', options?: ErrorOptions) {
+    super('malformed-file', message, options);
+  }
+}
+
+/**
+ * The file ends early: a section or chunk is cut off or missing
+ */
+export class TruncatedChunkError extends BackupError {
+  constructor(message = 'Backup file is truncated', options?: ErrorOptions) {
+    super('truncated-chunk', message, options);
+  }
+}
+
+/**
+ * SJCL failed on a legacy backup for a reason other than a wrong password
+ */
+export class LegacySjclError extends BackupError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('legacy-sjcl', message, options);
+  }
+}
+
+/**
+ * The file decrypted, but does not hold a cookie list (see validation.ts)
+ */
+export class InvalidPayloadError extends BackupError {
+  constructor(message = 'Backup does not contain a cookie list', options?: ErrorOptions) {
+    super('invalid-payload', message, options);
+  }
+}
+
+const ERROR_CLASSES: Record<BackupErrorCode, new (message: string) => BackupError> = {
+  'wrong-password': WrongPasswordError,
+  'keyfile-required': KeyfileRequiredError,
+  'checksum-mismatch': ChecksumMismatchError,
+  'unsupported-version': UnsupportedVersionError,
+  'malformed-file': MalformedFileError,
+  'truncated-chunk': TruncatedChunkError,
+  'legacy-sjcl': LegacySjclError,
+  'invalid-payload': InvalidPayloadError,
+};
+
+/**
+ * Re-creates a backup error from its code and message (e.g. after postMessage)
+ * @returns The matching subclass, or a plain Error for an unknown code
+ */
+export function createBackupError(code: string | undefined, message: string): Error {
+  const ErrorClass = code ? ERROR_CLASSES[code as BackupErrorCode] : undefined;
+  return ErrorClass ? new ErrorClass(message) : new Error(message);
+}
+
+/** What the user can do about each kind of failure */
+const ERROR_GUIDANCE: Record<BackupErrorCode, string> = {
+  'wrong-password':
+    'Check the password (it is case-sensitive), or open the file with your recovery key.',
+  'keyfile-required': 'Choose the keyfile that was selected when this backup was made.',
+  'checksum-mismatch':
+    'The file was damaged after it was created. Try another copy of this backup.',
+  'unsupported-version':
+    'This file was made by a newer version of Cookie Vault. Update the extension and try again.',
+  'malformed-file': 'Make sure you chose a Cookie Vault backup file.',
+  'truncated-chunk':
+    'The file is incomplete. It may not have finished downloading or syncing; try another copy.',
+  'legacy-sjcl': 'This old-format backup could not be read. Try another copy.',
+  'invalid-payload': 'The file opened, but it does not hold cookies from Cookie Vault.',
+};
+
+/**
+ * Formats an error for display, adding guidance for backup errors
+ * @param fallback Message for values that are not Errors
+ */
+export function describeBackupError(err: unknown, fallback: string): string {
+  if (err instanceof BackupError) {
+    return `${err.message}. ${ERROR_GUIDANCE[err.code]}`;
+  }
+  return err instanceof Error ? err.message : fallback;
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodePublicKey,
+  deriveIdentity,
+  encodePublicKey,
+  generateIdentity,
+  unlockIdentity,
+  PUBLIC_KEY_PREFIX,
+} from './identity';
+import { base64ToBytes } from './container';
+
+describe('Identity Keys', () => {
+  it('should encode public keys as short strings', async () => {
+    const { stored } = await generateIdentity('local password');
+
+    expect(stored.publicKey.startsWith(PUBLIC_KEY_PREFIX)).toBe(true);
+    expect(stored.publicKey).toHaveLength(PUBLIC_KEY_PREFIX.length + 44);
+    expect(stored.publicKey).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('should decompress encoded public keys to the original point', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, [
+      'deriveBits',
+    ]);
+    const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+
+    expect(decodePublicKey(encodePublicKey(raw))).toEqual(raw);
+  });
+
+  it('should reject malformed public keys', () => {
+    expect(() => decodePublicKey('hello')).toThrow('Invalid public key');
+    expect(() => decodePublicKey(`${PUBLIC_KEY_PREFIX}AAAA`)).toThrow('Invalid public key');
+    expect(() => decodePublicKey(`${PUBLIC_KEY_PREFIX}A${'_'.repeat(43)}`)).toThrow(
+      'Invalid public key'
+    );
+  });
+
+  it('should not store the private key in plaintext', async () => {
+    const { stored } = await generateIdentity('local password');
+
+    expect(stored.encryptedPrivateKey.kdf.algorithm).toBe('PBKDF2-SHA256');
+    expect(JSON.stringify(stored)).not.toMatch(/BEGIN|pkcs8/i);
+  });
+
+  it('should unlock with the local password only', async () => {
+    const { stored } = await generateIdentity('local password');
+    const unlocked = await unlockIdentity(stored, 'local password');
+
+    expect(unlocked.publicKey).toBe(stored.publicKey);
+    expect(unlocked.privateKey.extractable).toBe(false);
+    await expect(unlockIdentity(stored, 'wrong')).rejects.toThrow('Incorrect identity password');
+  });
+
+  it('should derive the same public key WebCrypto computes for a private scalar', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, [
+      'deriveBits',
+    ]);
+    const jwk = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+    const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+
+    // deriveIdentity maps a seed s to the scalar (s mod (n - 1)) + 1, so seed d - 1 gives d
+    const dBytes = base64ToBytes(jwk.d!.replace(/-/g, '+').replace(/_/g, '/'));
+    const d = dBytes.reduce((n, byte) => (n << 8n) | BigInt(byte), 0n);
+    // Seeds are at least 48 bytes; leading zeros keep the value
+    const hex = (d - 1n).toString(16).padStart(96, '0');
+    const seed = Uint8Array.from(hex.match(/../g)!, (byte) => parseInt(byte, 16));
+
+    expect((await deriveIdentity(seed)).publicKey).toBe(encodePublicKey(raw));
+  });
+});
@@ -0,0 +1,234 @@
+import { p256 } from '@noble/curves/nist.js';
+import { mapHashToField } from '@noble/curves/abstract/modular.js';
+import { base64ToBytes, bytesToBase64 } from './container';
+import { createKdfDescriptor, deriveKey, type KdfDescriptor } from './kdf';
+
+/**
+ * Identity Keys
+ *
+ * Each install can hold an ECDH P-256 keypair so backups can be encrypted to
+ * a teammate's public key instead of a shared password. The private key never
+ * leaves extension storage unencrypted: it is stored as PKCS#8 encrypted with
+ * a key derived from a local password.
+ *
+ * Public keys are shared as short strings: "cvpk1" followed by the
+ * base64url-encoded compressed curve point (33 bytes).
+ */
+
+/** Prefix of encoded public keys (format version 1) */
+export const PUBLIC_KEY_PREFIX = 'cvpk1';
+
+const ECDH_PARAMS = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const IV_LENGTH = 12;
+
+/**
+ * Identity as saved in extension storage
+ */
+export interface StoredIdentity {
+  /** Encoded public key (see encodePublicKey) */
+  publicKey: string;
+  /** PKCS#8 private key, AES-GCM encrypted with a password-derived key */
+  encryptedPrivateKey: {
+    kdf: KdfDescriptor;
+    /** Base64-encoded IV */
+    iv: string;
+    /** Base64-encoded ciphertext */
+    data: string;
+  };
+  /** ISO 8601 creation time */
+  createdAt: string;
+}
+
+/**
+ * Identity with its private key ready for use
+ */
+export interface UnlockedIdentity {
+  publicKey: string;
+  /** Non-extractable ECDH private key */
+  privateKey: CryptoKey;
+}
+
+/**
+ * A known teammate that backups can be encrypted to
+ */
+export interface Recipient {
+  name: string;
+  publicKey: string;
+}
+
+function toBase64url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Encodes a raw (uncompressed) P-256 public key as a shareable string
+ * @param prefix Key type prefix (identity keys by default)
+ */
+export function encodePublicKey(raw: Uint8Array, prefix = PUBLIC_KEY_PREFIX): string {
+  return prefix + toBase64url(p256.Point.fromBytes(raw).toBytes(true));
+}
+
+/**
+ * Decodes a shareable public key string to the raw (uncompressed) point
+ * @param prefix Key type prefix (identity keys by default)
+ * @throws Error if the string is not a valid public key
+ */
+export function decodePublicKey(
+  encoded: string,
+  prefix = PUBLIC_KEY_PREFIX
+): Uint8Array<ArrayBuffer> {
+  const trimmed = encoded.trim();
+  if (!trimmed.startsWith(prefix)) {
+    throw new Error('Invalid public key');
+  }
+
+  try {
+    const compressed = base64ToBytes(
+      trimmed.slice(prefix.length).replace(/-/g, '+').replace(/_/g, '/')
+    );
+    if (compressed.length !== 33) throw new Error('Not a compressed point');
+    // Rejects points that are not on the curve
+    return new Uint8Array(p256.Point.fromBytes(compressed).toBytes(false));
+  } catch {
+    throw new Error('Invalid public key');
+  }
+}
+
+/**
+ * Generates a new identity whose private key is encrypted with a local password
+ * @returns The identity to store and an unlocked copy for immediate use
+ */
+export async function generateIdentity(
+  password: string
+): Promise<{ stored: StoredIdentity; identity: UnlockedIdentity }> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const rawPublic = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  const pkcs8 = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+
+  const kdf = createKdfDescriptor();
+  const key = await deriveKey(password, kdf, 'encrypt');
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv }, key, pkcs8);
+
+  const publicKey = encodePublicKey(rawPublic);
+  const stored: StoredIdentity = {
+    publicKey,
+    encryptedPrivateKey: {
+      kdf,
+      iv: bytesToBase64(iv),
+      data: bytesToBase64(new Uint8Array(encrypted)),
+    },
+    createdAt: new Date().toISOString(),
+  };
+
+  // Re-import so the in-memory key is not extractable
+  const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, ECDH_PARAMS, false, [
+    'deriveBits',
+  ]);
+  return { stored, identity: { publicKey, privateKey } };
+}
+
+/**
+ * Decrypts a stored identity's private key
+ * @throws Error if the password is incorrect
+ */
+export async function unlockIdentity(
+  stored: StoredIdentity,
+  password: string
+): Promise<UnlockedIdentity> {
+  const { kdf, iv, data } = stored.encryptedPrivateKey;
+  const key = await deriveKey(password, kdf, 'decrypt');
+
+  let pkcs8: ArrayBuffer;
+  try {
+    pkcs8 = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) },
+      key,
+      base64ToBytes(data)
+    );
+  } catch {
+    throw new Error('Incorrect identity password');
+  }
+
+  const privateKey = await crypto.subtle.importKey('pkcs8', pkcs8, ECDH_PARAMS, false, [
+    'deriveBits',
+  ]);
+  return { publicKey: stored.publicKey, privateKey };
+}
+
+/**
+ * Derives a deterministic identity keypair from seed bytes, so the same seed
+ * (e.g. a recovery key) always re-creates the same private key.
+ * @param seed At least 48 uniformly random bytes; reduced mod n - 1 with negligible bias
+ */
+export async function deriveIdentity(seed: Uint8Array): Promise<UnlockedIdentity> {
+  const dBytes = mapHashToField(seed, p256.Point.CURVE().n);
+  const rawPublic = p256.getPublicKey(dBytes, false);
+  const [xBytes, yBytes] = [rawPublic.subarray(1, 33), rawPublic.subarray(33)];
+
+  const privateKey = await crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      d: toBase64url(dBytes),
+      x: toBase64url(xBytes),
+      y: toBase64url(yBytes),
+    },
+    ECDH_PARAMS,
+    false,
+    ['deriveBits']
+  );
+  return { publicKey: encodePublicKey(rawPublic), privateKey };
+}
+
+/**
+ * Generates an ephemeral keypair for one recipient slot
+ * @returns The ephemeral private key and its raw public key
+ */
+export async function generateEphemeralKey(): Promise<{
+  privateKey: CryptoKey;
+  rawPublicKey: Uint8Array<ArrayBuffer>;
+}> {
+  const keyPair = await crypto.subtle.generateKey(ECDH_PARAMS, false, ['deriveBits']);
+  const rawPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  return { privateKey: keyPair.privateKey, rawPublicKey };
+}
+
+/**
+ * Derives an AES-GCM key shared between an ECDH private key and a peer's public key.
+ * The ECDH secret is passed through HKDF-SHA256, salted with both public keys.
+ * @param privateKey Our ECDH private key
+ * @param peerPublicKey The other side's raw (uncompressed) public key
+ * @param salt Both public keys, in a fixed order
+ * @param usage Whether the key will encrypt or decrypt
+ */
+export async function deriveSharedKey(
+  privateKey: CryptoKey,
+  peerPublicKey: Uint8Array,
+  salt: Uint8Array,
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  const peer = await crypto.subtle.importKey(
+    'raw',
+    peerPublicKey as Uint8Array<ArrayBuffer>,
+    ECDH_PARAMS,
+    false,
+    []
+  );
+  const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: peer }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: salt as Uint8Array<ArrayBuffer>,
+      info: new TextEncoder().encode('cookie-vault recipient key slot'),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
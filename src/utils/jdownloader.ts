@@ -1,4 +1,4 @@
-import type { Cookie } from './crypto';
+import type { Cookie, CookiePartitionKey } from './crypto';
 import { filterByDomain } from './filterByDomain';
 import { downloadBlob } from './downloadBlob';
 
@@ -29,6 +29,8 @@ export interface JDownloaderCookie {
   session: boolean;
   storeId: string;
   value: string;
+  /** Only present for partitioned (CHIPS) cookies */
+  partitionKey?: CookiePartitionKey;
 }
 
 /**
@@ -47,6 +49,7 @@ function toJDownloaderFormat(cookie: Cookie): JDownloaderCookie {
     session: cookie.session ?? false,
     storeId: cookie.storeId || '0',
     value: cookie.value,
+    ...(cookie.partitionKey ? { partitionKey: cookie.partitionKey } : {}),
   };
 }
 
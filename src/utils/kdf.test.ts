@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createKdfDescriptor,
+  deriveKey,
+  legacyKdfDescriptor,
+  validateKdfDescriptor,
+  KDF_PRESETS,
+  LEGACY_PBKDF2_ITERATIONS,
+  type KdfDescriptor,
+} from './kdf';
+
+// Cheap Argon2id parameters so tests stay fast
+const FAST_ARGON2: KdfDescriptor = {
+  algorithm: 'Argon2id',
+  salt: 'AAAAAAAAAAAAAAAAAAAAAA==',
+  iterations: 1,
+  memoryCost: 64,
+  parallelism: 1,
+};
+
+async function roundTrip(encryptKey: CryptoKey, decryptKey: CryptoKey): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ct = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    encryptKey,
+    new TextEncoder().encode('hello')
+  );
+  const pt = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, decryptKey, ct);
+  return new TextDecoder().decode(pt);
+}
+
+describe('KDF Utils', () => {
+  describe('createKdfDescriptor', () => {
+    it('should default to the PBKDF2 preset with a random salt', () => {
+      const a = createKdfDescriptor();
+      const b = createKdfDescriptor();
+
+      expect(a.algorithm).toBe('PBKDF2-SHA256');
+      expect(a.iterations).toBe(KDF_PRESETS['PBKDF2-SHA256'].iterations);
+      expect(a.salt).not.toBe(b.salt);
+    });
+
+    it('should use the given parameters', () => {
+      const kdf = createKdfDescriptor(KDF_PRESETS.Argon2id);
+
+      expect(kdf.algorithm).toBe('Argon2id');
+      expect(kdf.memoryCost).toBe(65536);
+    });
+  });
+
+  describe('legacyKdfDescriptor', () => {
+    it('should describe PBKDF2 with the legacy iteration count', () => {
+      const kdf = legacyKdfDescriptor(new Uint8Array(16));
+
+      expect(kdf.algorithm).toBe('PBKDF2-SHA256');
+      expect(kdf.iterations).toBe(LEGACY_PBKDF2_ITERATIONS);
+    });
+  });
+
+  describe('validateKdfDescriptor', () => {
+    it('should accept the presets', () => {
+      expect(() => validateKdfDescriptor(createKdfDescriptor(KDF_PRESETS.Argon2id))).not.toThrow();
+      expect(() => validateKdfDescriptor(createKdfDescriptor())).not.toThrow();
+    });
+
+    it('should reject unknown algorithms', () => {
+      const kdf = { ...FAST_ARGON2, algorithm: 'MD5' } as unknown as KdfDescriptor;
+
+      expect(() => validateKdfDescriptor(kdf)).toThrow('Unsupported key derivation parameters');
+    });
+
+    it('should reject out-of-range costs', () => {
+      expect(() => validateKdfDescriptor({ ...createKdfDescriptor(), iterations: 1e12 })).toThrow();
+      expect(() =>
+        validateKdfDescriptor({ ...FAST_ARGON2, memoryCost: 1024 * 1024 * 8 })
+      ).toThrow();
+      expect(() => validateKdfDescriptor({ ...FAST_ARGON2, memoryCost: undefined })).toThrow();
+    });
+  });
+
+  describe('deriveKey', () => {
+    it('should derive the same PBKDF2 key from the same descriptor', async () => {
+      const kdf = { ...createKdfDescriptor(), iterations: 1000 };
+      const encryptKey = await deriveKey('password', kdf, 'encrypt');
+      const decryptKey = await deriveKey('password', kdf, 'decrypt');
+
+      expect(await roundTrip(encryptKey, decryptKey)).toBe('hello');
+    });
+
+    it('should derive the same Argon2id key from the same descriptor', async () => {
+      const encryptKey = await deriveKey('password', FAST_ARGON2, 'encrypt');
+      const decryptKey = await deriveKey('password', FAST_ARGON2, 'decrypt');
+
+      expect(await roundTrip(encryptKey, decryptKey)).toBe('hello');
+    });
+
+    it('should derive different keys for different passwords', async () => {
+      const encryptKey = await deriveKey('password', FAST_ARGON2, 'encrypt');
+      const decryptKey = await deriveKey('other', FAST_ARGON2, 'decrypt');
+
+      await expect(roundTrip(encryptKey, decryptKey)).rejects.toThrow();
+    });
+  });
+});
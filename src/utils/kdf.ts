@@ -0,0 +1,166 @@
+import { argon2idAsync } from '@noble/hashes/argon2.js';
+import { base64ToBytes, bytesToBase64 } from './container';
+import { UnsupportedVersionError } from './errors';
+
+/**
+ * Key Derivation Functions
+ *
+ * v5 backups record how their key was derived in a KDF descriptor stored in
+ * the header, so parameters can be raised for new files without breaking
+ * old ones. Older formats (v2–v4) implicitly use PBKDF2-SHA256 with 100,000
+ * iterations; see LEGACY_PBKDF2_ITERATIONS.
+ *
+ * Argon2id runs in pure TypeScript (@noble/hashes), so it works offline and
+ * needs no WASM permissions in the extension CSP.
+ */
+
+export type KdfAlgorithm = 'PBKDF2-SHA256' | 'Argon2id';
+
+/**
+ * KDF descriptor recorded in the backup header
+ */
+export interface KdfDescriptor {
+  algorithm: KdfAlgorithm;
+  /** Base64-encoded random salt */
+  salt: string;
+  /** PBKDF2 iteration count, or Argon2 time cost (passes) */
+  iterations: number;
+  /** Argon2 memory cost in KiB */
+  memoryCost?: number;
+  /** Argon2 lanes */
+  parallelism?: number;
+}
+
+/**
+ * KDF settings chosen by the user (salt is generated per file)
+ */
+export type KdfParams = Omit<KdfDescriptor, 'salt'>;
+
+/** Iteration count used by the v2/v3/v4 formats */
+export const LEGACY_PBKDF2_ITERATIONS = 100000;
+
+/**
+ * Default parameters for new backups.
+ * PBKDF2 follows the OWASP 2023 recommendation for PBKDF2-HMAC-SHA256;
+ * Argon2id uses the time and memory cost of the RFC 9106 "second recommended"
+ * profile (t=3, 64 MiB) with a single lane (p=1) instead of its p=4, as the
+ * hash runs on one thread.
+ */
+export const KDF_PRESETS: Record<KdfAlgorithm, KdfParams> = {
+  'PBKDF2-SHA256': { algorithm: 'PBKDF2-SHA256', iterations: 600000 },
+  Argon2id: { algorithm: 'Argon2id', iterations: 3, memoryCost: 65536, parallelism: 1 },
+};
+
+/**
+ * Upper bounds accepted when reading a descriptor from a file.
+ * Headers are untrusted input; these stop a crafted file from
+ * hanging the popup or exhausting memory.
+ */
+const MAX_PBKDF2_ITERATIONS = 10_000_000;
+const MAX_ARGON2_ITERATIONS = 64;
+const MAX_ARGON2_MEMORY_KIB = 1024 * 1024; // 1 GiB
+const MAX_ARGON2_PARALLELISM = 16;
+
+const SALT_LENGTH = 16;
+
+/**
+ * Creates a descriptor with a fresh random salt
+ * @param params Algorithm and cost parameters (defaults to PBKDF2 preset)
+ */
+export function createKdfDescriptor(
+  params: KdfParams = KDF_PRESETS['PBKDF2-SHA256']
+): KdfDescriptor {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+  return { ...params, salt: bytesToBase64(salt) };
+}
+
+/**
+ * Describes the implicit KDF of the v2/v3/v4 formats
+ */
+export function legacyKdfDescriptor(salt: Uint8Array): KdfDescriptor {
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    salt: bytesToBase64(salt),
+    iterations: LEGACY_PBKDF2_ITERATIONS,
+  };
+}
+
+/**
+ * Checks that a descriptor read from a file is well-formed and within safe bounds
+ * @throws Error if the algorithm is unknown or parameters are out of range
+ */
+export function validateKdfDescriptor(kdf: KdfDescriptor): void {
+  const isInt = (value: unknown, min: number, max: number) =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+  if (!kdf || typeof kdf.salt !== 'string') {
+    throw new UnsupportedVersionError('Unsupported key derivation parameters');
+  }
+
+  if (kdf.algorithm === 'PBKDF2-SHA256') {
+    if (isInt(kdf.iterations, 1, MAX_PBKDF2_ITERATIONS)) return;
+  } else if (kdf.algorithm === 'Argon2id') {
+    const parallelism = kdf.parallelism ?? 1;
+    if (
+      isInt(kdf.iterations, 1, MAX_ARGON2_ITERATIONS) &&
+      isInt(parallelism, 1, MAX_ARGON2_PARALLELISM) &&
+      isInt(kdf.memoryCost, 8 * parallelism, MAX_ARGON2_MEMORY_KIB)
+    ) {
+      return;
+    }
+  }
+
+  throw new UnsupportedVersionError('Unsupported key derivation parameters');
+}
+
+/**
+ * Derives an AES-256-GCM key from a password as described by a KDF descriptor
+ * @param password The password, or raw secret bytes (see combineWithKeyfile)
+ * @param kdf The descriptor (from the file header or createKdfDescriptor)
+ * @param usage Whether the key will encrypt or decrypt
+ */
+export async function deriveKey(
+  password: string | Uint8Array,
+  kdf: KdfDescriptor,
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  validateKdfDescriptor(kdf);
+
+  const secret = (
+    typeof password === 'string' ? new TextEncoder().encode(password) : password
+  ) as Uint8Array<ArrayBuffer>;
+  const salt = base64ToBytes(kdf.salt);
+
+  if (kdf.algorithm === 'Argon2id') {
+    const keyBytes = await argon2idAsync(secret, salt, {
+      t: kdf.iterations,
+      m: kdf.memoryCost!,
+      p: kdf.parallelism ?? 1,
+      dkLen: 32,
+    });
+    return crypto.subtle.importKey(
+      'raw',
+      keyBytes as Uint8Array<ArrayBuffer>,
+      { name: 'AES-GCM' },
+      false,
+      [usage]
+    );
+  }
+
+  const keyMaterial = await crypto.subtle.importKey('raw', secret, { name: 'PBKDF2' }, false, [
+    'deriveKey',
+  ]);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      salt: salt,
+      iterations: kdf.iterations,
+      hash: 'SHA-256',
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    [usage]
+  );
+}
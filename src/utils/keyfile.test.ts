@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { KEYFILE_LENGTH, combineWithKeyfile, generateKeyfile, hashKeyfile } from './keyfile';
+import { createPasswordSlot, generateDataKey, openKeySlot, unwrapDataKey } from './keyslots';
+import { decryptData, encryptData, readKeySlots } from './crypto';
+import { KeyfileRequiredError, WrongPasswordError } from './errors';
+import { readBlobBytes } from './container';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const headerBytes = new TextEncoder().encode('{"version":"v5"}');
+const data = [{ name: 'a', domain: 'example.com' }];
+
+describe('Keyfiles', () => {
+  it('should generate random keyfiles', async () => {
+    const keyfile = generateKeyfile();
+
+    expect(keyfile.size).toBe(KEYFILE_LENGTH);
+    expect(await readBlobBytes(keyfile)).not.toEqual(await readBlobBytes(generateKeyfile()));
+  });
+
+  it('should hash any file, including ones larger than a slice', async () => {
+    const bytes = new Uint8Array(1024 * 1024 + 10).map((_, i) => i % 251);
+
+    expect(await hashKeyfile(new Blob([bytes]))).toEqual(sha256(bytes));
+    await expect(hashKeyfile(new Blob([]))).rejects.toThrow('Keyfile is empty');
+  });
+
+  it('should combine the password and keyfile', () => {
+    const keyfile = sha256(new TextEncoder().encode('keyfile'));
+
+    expect(combineWithKeyfile('pw', keyfile)).toHaveLength(32);
+    expect(combineWithKeyfile('pw', keyfile)).not.toEqual(combineWithKeyfile('other', keyfile));
+  });
+
+  it('should open a keyfile slot only with both factors', async () => {
+    const dataKey = generateDataKey();
+    const keyfile = await hashKeyfile(generateKeyfile());
+    const slot = await createPasswordSlot(dataKey, 'pw', fastKdf, headerBytes, keyfile);
+
+    expect(slot.keyfile).toBe(true);
+    expect(await openKeySlot(slot, { password: 'pw', keyfile }, headerBytes)).toEqual(dataKey);
+    expect(await openKeySlot(slot, { password: 'pw' }, headerBytes)).toBeNull();
+    expect(
+      await openKeySlot(slot, { password: 'pw', keyfile: sha256(keyfile) }, headerBytes)
+    ).toBeNull();
+    await expect(unwrapDataKey([slot], { password: 'pw' }, headerBytes)).rejects.toBeInstanceOf(
+      KeyfileRequiredError
+    );
+  });
+
+  it('should round-trip a backup that needs a keyfile', async () => {
+    const keyfile = await hashKeyfile(generateKeyfile());
+    const file = await encryptData(data, 'pw', undefined, { kdf: fastKdf, keyfile });
+
+    expect(await readKeySlots(file)).toMatchObject([{ type: 'password', keyfile: true }]);
+    expect(await decryptData(file, 'pw', undefined, { keyfile })).toEqual(data);
+    await expect(decryptData(file, 'pw')).rejects.toBeInstanceOf(KeyfileRequiredError);
+    await expect(decryptData(file, 'wrong', undefined, { keyfile })).rejects.toBeInstanceOf(
+      WrongPasswordError
+    );
+  });
+});
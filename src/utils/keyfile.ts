@@ -0,0 +1,52 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { concatBytes, readBlobBytes } from './container';
+
+/**
+ * Keyfiles
+ *
+ * A keyfile is a second factor for password slots: any local file, or random
+ * bytes generated here. Only its SHA-256 is used. A slot that requires one
+ * feeds SHA-256(SHA-256(password) || SHA-256(keyfile)) to its KDF instead of
+ * the password, so the file opens only with both (the composite key KeePass
+ * uses). The slot records that a keyfile is needed; the keyfile itself is
+ * never stored in the backup.
+ */
+
+/** Length of a generated keyfile, in bytes */
+export const KEYFILE_LENGTH = 64;
+
+/** Keyfiles are hashed in slices this large, so big files are never read whole */
+const HASH_SLICE_SIZE = 1024 * 1024;
+
+/**
+ * Hashes a keyfile
+ * @returns SHA-256 of the file contents
+ * @throws Error if the file is empty
+ */
+export async function hashKeyfile(file: Blob): Promise<Uint8Array> {
+  if (file.size === 0) {
+    throw new Error('Keyfile is empty');
+  }
+
+  const hash = sha256.create();
+  for (let offset = 0; offset < file.size; offset += HASH_SLICE_SIZE) {
+    hash.update(await readBlobBytes(file.slice(offset, offset + HASH_SLICE_SIZE)));
+  }
+  return hash.digest();
+}
+
+/**
+ * Creates a new random keyfile
+ */
+export function generateKeyfile(): Blob {
+  const bytes = crypto.getRandomValues(new Uint8Array(KEYFILE_LENGTH));
+  return new Blob([bytes], { type: 'application/octet-stream' });
+}
+
+/**
+ * Combines a password and a keyfile hash into the secret a keyfile slot derives its key from
+ */
+export function combineWithKeyfile(password: string, keyfileHash: Uint8Array): Uint8Array {
+  const passwordHash = sha256(new TextEncoder().encode(password));
+  return sha256(concatBytes([passwordHash, keyfileHash]));
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPasswordSlot,
+  createRecipientSlot,
+  createRecoverySlot,
+  decodeKeySlot,
+  encodeKeySlot,
+  generateDataKey,
+  openKeySlot,
+  unwrapDataKey,
+  DATA_KEY_LENGTH,
+} from './keyslots';
+import { generateIdentity } from './identity';
+import { generateRecoveryKey, unlockRecoveryKey } from './recovery';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const headerBytes = new TextEncoder().encode('{"version":"v5"}');
+
+describe('Key Slots', () => {
+  it('should generate random data keys', () => {
+    const a = generateDataKey();
+
+    expect(a).toHaveLength(DATA_KEY_LENGTH);
+    expect(a).not.toEqual(generateDataKey());
+  });
+
+  it('should wrap and unwrap the data key with a password', async () => {
+    const dataKey = generateDataKey();
+    const slot = await createPasswordSlot(dataKey, 'password', fastKdf, headerBytes);
+
+    expect(await openKeySlot(slot, { password: 'password' }, headerBytes)).toEqual(dataKey);
+    expect(await openKeySlot(slot, { password: 'wrong' }, headerBytes)).toBeNull();
+  });
+
+  it('should not open a slot moved to another header', async () => {
+    const slot = await createPasswordSlot(generateDataKey(), 'password', fastKdf, headerBytes);
+    const otherHeader = new TextEncoder().encode('{"version":"v5","x":1}');
+
+    expect(await openKeySlot(slot, { password: 'password' }, otherHeader)).toBeNull();
+  });
+
+  it('should find the slot a password opens', async () => {
+    const dataKey = generateDataKey();
+    const slots = [
+      await createPasswordSlot(dataKey, 'first', fastKdf, headerBytes),
+      await createPasswordSlot(dataKey, 'second', fastKdf, headerBytes),
+    ];
+
+    expect(await unwrapDataKey(slots, { password: 'second' }, headerBytes)).toEqual({
+      index: 1,
+      dataKey,
+    });
+    await expect(unwrapDataKey(slots, { password: 'third' }, headerBytes)).rejects.toThrow(
+      'Incorrect password or corrupted file'
+    );
+  });
+
+  it('should wrap the data key for a recipient identity', async () => {
+    const dataKey = generateDataKey();
+    const { identity } = await generateIdentity('local');
+    const { identity: other } = await generateIdentity('local');
+    const slot = await createRecipientSlot(dataKey, identity.publicKey, headerBytes);
+
+    expect(slot.recipient).toBe(identity.publicKey);
+    expect(await openKeySlot(slot, { identity }, headerBytes)).toEqual(dataKey);
+    expect(await openKeySlot(slot, { identity: other }, headerBytes)).toBeNull();
+    expect(await openKeySlot(slot, { password: 'local' }, headerBytes)).toBeNull();
+  });
+
+  it('should open a recovery slot with the recovery key only', async () => {
+    const dataKey = generateDataKey();
+    const { words, stored } = await generateRecoveryKey();
+    const recoveryKey = await unlockRecoveryKey(words);
+    const slot = await createRecoverySlot(dataKey, stored.publicKey, headerBytes);
+
+    expect(slot.type).toBe('recovery');
+    expect(decodeKeySlot(encodeKeySlot(slot))).toEqual(slot);
+    expect(await openKeySlot(slot, { recoveryKey }, headerBytes)).toEqual(dataKey);
+    // The same keypair offered as an identity does not open a recovery slot
+    expect(await openKeySlot(slot, { identity: recoveryKey }, headerBytes)).toBeNull();
+  });
+
+  it('should round-trip slot sections and reject malformed ones', async () => {
+    const slot = await createPasswordSlot(generateDataKey(), 'password', fastKdf, headerBytes);
+
+    expect(decodeKeySlot(encodeKeySlot(slot))).toEqual(slot);
+    expect(() => decodeKeySlot(new TextEncoder().encode('{"type":"password"}'))).toThrow(
+      'Invalid file format'
+    );
+    expect(() => decodeKeySlot(new Uint8Array([0xff]))).toThrow('Invalid file format');
+  });
+});
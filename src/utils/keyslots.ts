@@ -0,0 +1,383 @@
+import { base64ToBytes, bytesToBase64, concatBytes } from './container';
+import { createKdfDescriptor, deriveKey, type KdfDescriptor, type KdfParams } from './kdf';
+import {
+  decodePublicKey,
+  deriveSharedKey,
+  generateEphemeralKey,
+  type UnlockedIdentity,
+} from './identity';
+import { KeyfileRequiredError, MalformedFileError, WrongPasswordError } from './errors';
+import { combineWithKeyfile } from './keyfile';
+import type { ShareKey } from './shamir';
+
+/**
+ * Key Slots
+ *
+ * v5 payloads are encrypted with a random data key rather than a key derived
+ * from the password. Each key slot wraps that data key for one way of opening
+ * the file (a password, or a recipient's identity key), so a backup can open
+ * with several credentials, and slots can be added or removed without
+ * re-encrypting the cookie data.
+ *
+ * Slots are stored in their own container sections, outside the header, so
+ * that changing them does not change the header bytes the chunks are bound to.
+ * Each slot is itself bound to the header (AES-GCM additional data), so it
+ * cannot be moved to another file.
+ */
+
+/** Length of the random AES-256 data key, in bytes */
+export const DATA_KEY_LENGTH = 32;
+
+const IV_LENGTH = 12;
+
+/**
+ * Slot that wraps the data key with a password-derived key
+ */
+export interface PasswordKeySlot {
+  type: 'password';
+  kdf: KdfDescriptor;
+  /** Set when the slot opens only with the password and a keyfile together (see keyfile.ts) */
+  keyfile?: true;
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+  /** Base64-encoded AES-GCM ciphertext of the data key */
+  wrappedKey: string;
+}
+
+/**
+ * Slot that wraps the data key for a recipient's identity key (ECDH P-256).
+ * An ephemeral keypair is generated per slot; its public half is stored here.
+ */
+export interface RecipientKeySlot {
+  type: 'recipient';
+  /** Recipient's encoded public key (see identity.ts) */
+  recipient: string;
+  /** Base64-encoded raw ephemeral public key */
+  ephemeralKey: string;
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+  /** Base64-encoded AES-GCM ciphertext of the data key */
+  wrappedKey: string;
+}
+
+/**
+ * Slot that wraps the data key for a recovery key (see recovery.ts).
+ * Built like a recipient slot; `recipient` is the recovery key's public half.
+ */
+export interface RecoveryKeySlot extends Omit<RecipientKeySlot, 'type'> {
+  type: 'recovery';
+}
+
+/**
+ * Slot that wraps the data key with a random key split into Shamir shares
+ * (see shamir.ts). Any `threshold` of the `count` shares rebuild that key.
+ */
+export interface SharesKeySlot {
+  type: 'shares';
+  /** Hex id written into every share of this split */
+  setId: string;
+  threshold: number;
+  count: number;
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+  /** Base64-encoded AES-GCM ciphertext of the data key */
+  wrappedKey: string;
+}
+
+export type KeySlot = PasswordKeySlot | RecipientKeySlot | RecoveryKeySlot | SharesKeySlot;
+
+/**
+ * Credentials offered to open a file. Each slot is tried with the matching credential.
+ */
+export interface KeySlotCredentials {
+  password?: string;
+  /** SHA-256 of a keyfile, for password slots that require one (see hashKeyfile) */
+  keyfile?: Uint8Array;
+  identity?: UnlockedIdentity;
+  /** Keypair re-created from recovery key words */
+  recoveryKey?: UnlockedIdentity;
+  /** Share key rebuilt from Shamir shares (see combineShares) */
+  shareKey?: { setId: string; key: Uint8Array };
+}
+
+/**
+ * Generates a fresh random data key
+ */
+export function generateDataKey(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(DATA_KEY_LENGTH));
+}
+
+/**
+ * Imports raw data key bytes as an AES-GCM key
+ */
+export function importDataKey(
+  dataKey: Uint8Array,
+  usage: 'encrypt' | 'decrypt'
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    dataKey as Uint8Array<ArrayBuffer>,
+    { name: 'AES-GCM' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Encrypts the data key with a key-encryption key, bound to the header
+ */
+async function wrapDataKey(
+  dataKey: Uint8Array,
+  kek: CryptoKey,
+  headerBytes: Uint8Array
+): Promise<{ iv: string; wrappedKey: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const wrapped = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv, additionalData: headerBytes as Uint8Array<ArrayBuffer> },
+    kek,
+    dataKey as Uint8Array<ArrayBuffer>
+  );
+  return { iv: bytesToBase64(iv), wrappedKey: bytesToBase64(new Uint8Array(wrapped)) };
+}
+
+/**
+ * Decrypts the data key from a slot
+ * @returns The raw data key, or null if the key-encryption key is wrong
+ */
+async function unwrapSlotKey(
+  slot: KeySlot,
+  kek: CryptoKey,
+  headerBytes: Uint8Array
+): Promise<Uint8Array | null> {
+  try {
+    const dataKey = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64ToBytes(slot.iv),
+        additionalData: headerBytes as Uint8Array<ArrayBuffer>,
+      },
+      kek,
+      base64ToBytes(slot.wrappedKey)
+    );
+    return new Uint8Array(dataKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wraps the data key for a password
+ * @param dataKey Raw data key bytes
+ * @param password The password that will open this slot
+ * @param kdf Key derivation algorithm and cost (defaults to the PBKDF2 preset)
+ * @param headerBytes The file's header bytes, bound as additional data
+ * @param keyfile SHA-256 of a keyfile the slot will also require
+ */
+export async function createPasswordSlot(
+  dataKey: Uint8Array,
+  password: string,
+  kdf: KdfParams | undefined,
+  headerBytes: Uint8Array,
+  keyfile?: Uint8Array
+): Promise<PasswordKeySlot> {
+  const descriptor = createKdfDescriptor(kdf);
+  const secret = keyfile ? combineWithKeyfile(password, keyfile) : password;
+  const kek = await deriveKey(secret, descriptor, 'encrypt');
+
+  return {
+    type: 'password',
+    kdf: descriptor,
+    ...(keyfile ? { keyfile: true as const } : {}),
+    ...(await wrapDataKey(dataKey, kek, headerBytes)),
+  };
+}
+
+/**
+ * Wraps the data key for an ECDH public key with a fresh ephemeral keypair
+ */
+async function wrapForPublicKey<T extends 'recipient' | 'recovery'>(
+  type: T,
+  dataKey: Uint8Array,
+  publicKey: string,
+  headerBytes: Uint8Array
+) {
+  const recipientKey = decodePublicKey(publicKey);
+  const ephemeral = await generateEphemeralKey();
+  const kek = await deriveSharedKey(
+    ephemeral.privateKey,
+    recipientKey,
+    concatBytes([ephemeral.rawPublicKey, recipientKey]),
+    'encrypt'
+  );
+
+  return {
+    type,
+    recipient: publicKey.trim(),
+    ephemeralKey: bytesToBase64(ephemeral.rawPublicKey),
+    ...(await wrapDataKey(dataKey, kek, headerBytes)),
+  };
+}
+
+/**
+ * Wraps the data key for a recipient's public key
+ * @param dataKey Raw data key bytes
+ * @param recipient The recipient's encoded public key
+ * @param headerBytes The file's header bytes, bound as additional data
+ */
+export function createRecipientSlot(
+  dataKey: Uint8Array,
+  recipient: string,
+  headerBytes: Uint8Array
+): Promise<RecipientKeySlot> {
+  return wrapForPublicKey('recipient', dataKey, recipient, headerBytes);
+}
+
+/**
+ * Wraps the data key for a recovery key
+ * @param dataKey Raw data key bytes
+ * @param recoveryKey The recovery key's encoded public key
+ * @param headerBytes The file's header bytes, bound as additional data
+ */
+export function createRecoverySlot(
+  dataKey: Uint8Array,
+  recoveryKey: string,
+  headerBytes: Uint8Array
+): Promise<RecoveryKeySlot> {
+  return wrapForPublicKey('recovery', dataKey, recoveryKey, headerBytes);
+}
+
+/**
+ * Wraps the data key with a share key
+ * @param dataKey Raw data key bytes
+ * @param shareKey The key that will be split into shares (see createShareKey)
+ * @param headerBytes The file's header bytes, bound as additional data
+ */
+export async function createSharesSlot(
+  dataKey: Uint8Array,
+  shareKey: ShareKey,
+  headerBytes: Uint8Array
+): Promise<SharesKeySlot> {
+  const kek = await importDataKey(shareKey.key, 'encrypt');
+
+  return {
+    type: 'shares',
+    setId: shareKey.setId,
+    threshold: shareKey.threshold,
+    count: shareKey.count,
+    ...(await wrapDataKey(dataKey, kek, headerBytes)),
+  };
+}
+
+/**
+ * Tries to unwrap the data key from one slot
+ * @returns The raw data key, or null if the credentials do not open this slot
+ */
+export async function openKeySlot(
+  slot: KeySlot,
+  credentials: KeySlotCredentials,
+  headerBytes: Uint8Array
+): Promise<Uint8Array | null> {
+  if (slot.type === 'password') {
+    if (!credentials.password) return null;
+    let secret: string | Uint8Array = credentials.password;
+    if (slot.keyfile) {
+      if (!credentials.keyfile) return null;
+      secret = combineWithKeyfile(credentials.password, credentials.keyfile);
+    }
+    const kek = await deriveKey(secret, slot.kdf, 'decrypt');
+    return unwrapSlotKey(slot, kek, headerBytes);
+  }
+
+  if (slot.type === 'shares') {
+    const { shareKey } = credentials;
+    if (!shareKey || shareKey.setId !== slot.setId) return null;
+    const kek = await importDataKey(shareKey.key, 'decrypt');
+    return unwrapSlotKey(slot, kek, headerBytes);
+  }
+
+  const identity = slot.type === 'recovery' ? credentials.recoveryKey : credentials.identity;
+  if (!identity || slot.recipient !== identity.publicKey) return null;
+
+  const ephemeralKey = base64ToBytes(slot.ephemeralKey);
+  const kek = await deriveSharedKey(
+    identity.privateKey,
+    ephemeralKey,
+    concatBytes([ephemeralKey, decodePublicKey(identity.publicKey)]),
+    'decrypt'
+  );
+  return unwrapSlotKey(slot, kek, headerBytes);
+}
+
+/**
+ * Finds the slot the credentials open.
+ * Recipient, recovery and share slots are tried first because they need no key derivation.
+ * @returns The slot index and raw data key
+ * @throws KeyfileRequiredError if a password was given, no keyfile was, and
+ *   every password slot needs one
+ * @throws WrongPasswordError if no slot opens with the credentials
+ */
+export async function unwrapDataKey(
+  slots: KeySlot[],
+  credentials: KeySlotCredentials,
+  headerBytes: Uint8Array
+): Promise<{ index: number; dataKey: Uint8Array }> {
+  const order = slots
+    .map((slot, index) => ({ slot, index }))
+    .sort((a, b) => Number(a.slot.type === 'password') - Number(b.slot.type === 'password'));
+
+  for (const { slot, index } of order) {
+    const dataKey = await openKeySlot(slot, credentials, headerBytes);
+    if (dataKey) return { index, dataKey };
+  }
+
+  const passwordSlots = slots.filter((slot) => slot.type === 'password');
+  if (
+    credentials.password &&
+    !credentials.keyfile &&
+    passwordSlots.length > 0 &&
+    passwordSlots.every((slot) => slot.keyfile)
+  ) {
+    throw new KeyfileRequiredError();
+  }
+  throw new WrongPasswordError();
+}
+
+/**
+ * Serializes a slot for a KeySlot container section
+ */
+export function encodeKeySlot(slot: KeySlot): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(slot));
+}
+
+/**
+ * Parses a KeySlot container section
+ * @throws Error if the section is not a well-formed slot
+ */
+export function decodeKeySlot(data: Uint8Array): KeySlot {
+  let slot: KeySlot;
+  try {
+    slot = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new MalformedFileError();
+  }
+
+  const valid =
+    slot &&
+    typeof slot.iv === 'string' &&
+    typeof slot.wrappedKey === 'string' &&
+    (slot.type === 'password'
+      ? !!slot.kdf && (slot.keyfile === undefined || slot.keyfile === true)
+      : slot.type === 'shares'
+        ? typeof slot.setId === 'string' &&
+          Number.isInteger(slot.threshold) &&
+          Number.isInteger(slot.count) &&
+          slot.threshold >= 2 &&
+          slot.count >= slot.threshold
+        : (slot.type === 'recipient' || slot.type === 'recovery') &&
+          typeof slot.recipient === 'string' &&
+          typeof slot.ephemeralKey === 'string');
+  if (!valid) {
+    throw new MalformedFileError();
+  }
+  return slot;
+}
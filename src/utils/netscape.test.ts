@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { formatNetscape, formatNetscapeForDomain } from './netscape';
+import { formatNetscape, formatNetscapeForDomain, parseNetscape } from './netscape';
 import type { Cookie } from './crypto';
 
 describe('Netscape Cookie Format', () => {
@@ -98,6 +98,22 @@ describe('Netscape Cookie Format', () => {
       expect(parts[1]).toBe('TRUE');
     });
 
+    it('should leave HttpOnly cookies unmarked by default', () => {
+      const result = formatNetscape([baseCookie]);
+
+      expect(result).not.toContain('#HttpOnly_');
+      expect(result).toContain('\n.example.com\tTRUE\t/\tTRUE\t0\tsession_id\tabc123\n');
+    });
+
+    it('should mark HttpOnly cookies with the curl domain prefix when asked', () => {
+      const result = formatNetscape([baseCookie, { ...baseCookie, name: 'js', httpOnly: false }], {
+        markHttpOnly: true,
+      });
+
+      expect(result).toContain('#HttpOnly_.example.com\tTRUE\t/\tTRUE\t0\tsession_id\tabc123\n');
+      expect(result).toContain('\n.example.com\tTRUE\t/\tTRUE\t0\tjs\tabc123\n');
+    });
+
     it('should produce tab-separated values with 7 columns', () => {
       const result = formatNetscape([baseCookie]);
       const lines = result.split('\n').filter((l) => l && !l.startsWith('#'));
@@ -138,4 +154,49 @@ describe('Netscape Cookie Format', () => {
       expect(result).toContain('yt_cookie');
     });
   });
+
+  describe('parseNetscape', () => {
+    it('should read back what formatNetscape writes', () => {
+      const cookies: Cookie[] = [
+        { ...baseCookie, httpOnly: false, expirationDate: 1893456000, hostOnly: false },
+        { ...baseCookie, domain: 'example.com', httpOnly: false, secure: false, hostOnly: true },
+      ];
+
+      expect(parseNetscape(formatNetscape(cookies))).toEqual([
+        { ...cookies[0], session: false },
+        { ...cookies[1], session: true },
+      ]);
+    });
+
+    it('should read back HttpOnly cookies marked by formatNetscape', () => {
+      const cookies: Cookie[] = [{ ...baseCookie, expirationDate: 1893456000, hostOnly: false }];
+
+      expect(parseNetscape(formatNetscape(cookies, { markHttpOnly: true }))).toEqual([
+        { ...cookies[0], session: false },
+      ]);
+    });
+
+    it('should read curl HttpOnly lines and skip comments and bad lines', () => {
+      const text = [
+        '# Netscape HTTP Cookie File',
+        '#HttpOnly_.example.com\tTRUE\t/\tTRUE\t0\tsid\tx',
+        'not a cookie line',
+        '',
+      ].join('\r\n');
+
+      expect(parseNetscape(text)).toEqual([
+        {
+          name: 'sid',
+          value: 'x',
+          domain: '.example.com',
+          path: '/',
+          secure: true,
+          httpOnly: true,
+          storeId: '0',
+          session: true,
+          hostOnly: false,
+        },
+      ]);
+    });
+  });
 });
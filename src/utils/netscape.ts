@@ -86,16 +86,36 @@ function formatSubdomainFlag(_domain: string, hostOnly?: boolean): string {
   return 'TRUE';
 }
 
+/**
+ * curl marks HttpOnly cookies by prefixing the domain column with this
+ */
+const HTTP_ONLY_PREFIX = '#HttpOnly_';
+
+/**
+ * Options for formatNetscape
+ */
+export interface NetscapeFormatOptions {
+  /**
+   * Mark HttpOnly cookies with the #HttpOnly_ domain prefix, as curl writes
+   * them. Off by default: tools that treat every # line as a comment would
+   * drop those cookies. Used where parseNetscape reads the file back.
+   */
+  markHttpOnly?: boolean;
+}
+
 /**
  * Formats a single cookie as a Netscape line.
  *
  * Format: domain<TAB>flag<TAB>path<TAB>secure<TAB>expiration<TAB>name<TAB>value
  *
  * @param cookie - The cookie to format
+ * @param markHttpOnly - Whether HttpOnly cookies get the #HttpOnly_ domain prefix
  * @returns Tab-separated line (no trailing newline)
  */
-function formatCookieLine(cookie: Cookie): string {
-  const domain = formatDomain(cookie.domain, cookie.hostOnly);
+function formatCookieLine(cookie: Cookie, markHttpOnly = false): string {
+  const domain =
+    (markHttpOnly && cookie.httpOnly ? HTTP_ONLY_PREFIX : '') +
+    formatDomain(cookie.domain, cookie.hostOnly);
   const flag = formatSubdomainFlag(cookie.domain, cookie.hostOnly);
   const path = cookie.path || '/';
   const secure = boolToNetscape(cookie.secure);
@@ -116,11 +136,15 @@ function formatCookieLine(cookie: Cookie): string {
  * - curl (--cookie option)
  * - aria2c (--load-cookies option)
  *
+ * The format has no column for a CHIPS partition, so partitioned cookies are
+ * written like unpartitioned ones.
+ *
  * @param cookies - Array of cookies to format
+ * @param options - See NetscapeFormatOptions
  * @returns Complete file content with header
  */
-export function formatNetscape(cookies: Cookie[]): string {
-  const lines = cookies.map(formatCookieLine);
+export function formatNetscape(cookies: Cookie[], options: NetscapeFormatOptions = {}): string {
+  const lines = cookies.map((cookie) => formatCookieLine(cookie, options.markHttpOnly));
   return NETSCAPE_HEADER + lines.join('\n') + '\n';
 }
 
@@ -136,6 +160,47 @@ export function formatNetscapeForDomain(cookies: Cookie[], domain: string): stri
   return formatNetscape(filterByDomain(cookies, domain));
 }
 
+/**
+ * Parses a Netscape HTTP Cookie File back into cookies.
+ * Comment and blank lines are skipped, as are lines without 7 columns.
+ *
+ * @param text - File content, e.g. from formatNetscape
+ * @returns The cookies, with session cookies for expiration 0
+ */
+export function parseNetscape(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine;
+    let httpOnly = false;
+    if (line.startsWith(HTTP_ONLY_PREFIX)) {
+      line = line.slice(HTTP_ONLY_PREFIX.length);
+      httpOnly = true;
+    } else if (line.startsWith('#') || !line.trim()) {
+      continue;
+    }
+
+    const fields = line.split('\t');
+    if (fields.length !== 7) continue;
+    const [domain, flag, path, secure, expiration, name, value] = fields;
+    const expirationDate = Number(expiration);
+    const session = !(expirationDate > 0);
+
+    cookies.push({
+      name,
+      value,
+      domain,
+      path: path || '/',
+      secure: secure === 'TRUE',
+      httpOnly,
+      ...(session ? {} : { expirationDate }),
+      storeId: '0',
+      session,
+      hostOnly: flag !== 'TRUE',
+    });
+  }
+  return cookies;
+}
+
 /**
  * Downloads a Netscape cookie file.
  *
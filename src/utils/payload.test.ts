@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PAYLOAD_SCHEMA,
+  createPayload,
+  decryptPayload,
+  encryptPayload,
+  unwrapPayload,
+} from './payload';
+import { encryptData, type Cookie } from './crypto';
+import { InvalidPayloadError, UnsupportedVersionError } from './errors';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const cookies: Cookie[] = [
+  {
+    name: 'session',
+    value: 'abc123',
+    domain: '.example.com',
+    path: '/',
+    secure: true,
+    httpOnly: true,
+    storeId: '0',
+  },
+];
+
+describe('Payload envelope', () => {
+  it('should build an envelope with metadata', () => {
+    const payload = createPayload(cookies, {
+      notes: '  Before reinstalling  ',
+      tags: ['work', ' ', 'laptop '],
+      profile: 'Work',
+      extensions: { settings: { theme: 'dark' } },
+    });
+
+    expect(payload).toMatchObject({
+      schema: PAYLOAD_SCHEMA,
+      source: { profile: 'Work', extensionVersion: 'dev' },
+      notes: 'Before reinstalling',
+      tags: ['work', 'laptop'],
+      cookies,
+      extensions: { settings: { theme: 'dark' } },
+    });
+    expect(Date.parse(payload.createdAt!)).not.toBeNaN();
+  });
+
+  it('should leave out empty metadata', () => {
+    const payload = createPayload(cookies, { notes: ' ', tags: [''] });
+
+    expect(payload).not.toHaveProperty('notes');
+    expect(payload).not.toHaveProperty('tags');
+    expect(payload).not.toHaveProperty('extensions');
+  });
+
+  it('should round-trip through encryption', async () => {
+    const payload = createPayload(cookies, { notes: 'Hello' });
+    const file = await encryptPayload(payload, 'pw', undefined, { kdf: fastKdf });
+
+    expect(await decryptPayload(file, 'pw')).toEqual(payload);
+  });
+
+  it('should unwrap bare cookie arrays from older files', async () => {
+    const file = await encryptData(cookies, 'pw', undefined, { kdf: fastKdf });
+
+    expect(await decryptPayload(file, 'pw')).toEqual({ schema: PAYLOAD_SCHEMA, cookies });
+  });
+
+  it('should keep the names of the cookie stores', () => {
+    const stores = [{ id: 'firefox-container-1', name: 'Work', incognito: false }];
+
+    expect(createPayload([], { stores }).stores).toEqual(stores);
+    expect(unwrapPayload({ cookies: [], stores: [...stores, { id: 2 }] }).stores).toEqual(stores);
+  });
+
+  it('should drop malformed metadata but keep the cookies', () => {
+    expect(
+      unwrapPayload({
+        schema: 1,
+        createdAt: 5,
+        source: { browser: 'Firefox', profile: 7 },
+        notes: ['x'],
+        tags: ['a', 2],
+        cookies,
+        extensions: 'nope',
+      })
+    ).toEqual({ schema: 1, source: { browser: 'Firefox' }, tags: ['a'], cookies });
+  });
+
+  it('should reject payloads without cookies or from a newer schema', () => {
+    expect(() => unwrapPayload('cookies')).toThrow(InvalidPayloadError);
+    expect(() => unwrapPayload({ schema: 1 })).toThrow(InvalidPayloadError);
+    expect(() => unwrapPayload({ schema: 'one', cookies })).toThrow(InvalidPayloadError);
+    expect(() => unwrapPayload({ schema: PAYLOAD_SCHEMA + 1, cookies })).toThrow(
+      UnsupportedVersionError
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import type { Cookie, DecryptOptions, EncryptOptions } from './crypto';
+import type { CookieStore } from './cookieStores';
+import { decryptInWorker, encryptInWorker } from './cryptoWorker';
+import { InvalidPayloadError, UnsupportedVersionError } from './errors';
+
+/**
+ * Payload Envelope
+ *
+ * Backups used to encrypt a bare Cookie[]. New backups encrypt an envelope
+ * that also carries metadata (creation time, source browser, notes, tags)
+ * and an `extensions` map for non-cookie data added in future, all of it
+ * encrypted with the cookies. Old files holding a bare array are unwrapped
+ * into an envelope automatically, so readers only deal with one shape.
+ */
+
+/** Envelope schema version written by this build */
+export const PAYLOAD_SCHEMA = 1;
+
+/**
+ * Where a backup was made
+ */
+export interface PayloadSource {
+  /** Browser family, e.g. "Chrome" or "Firefox" */
+  browser?: string;
+  /** Profile name, when the user gives one */
+  profile?: string;
+  /** Version of the extension that wrote the file */
+  extensionVersion?: string;
+}
+
+/**
+ * Decrypted contents of a backup
+ */
+export interface BackupPayload {
+  schema: number;
+  /** ISO 8601 creation time (absent for files from before the envelope) */
+  createdAt?: string;
+  source?: PayloadSource;
+  notes?: string;
+  tags?: string[];
+  cookies: Cookie[];
+  /** Names of the cookie stores the cookies came from, for mapping them on restore */
+  stores?: CookieStore[];
+  /**
+   * Extra sections keyed by name. Unknown sections are kept as-is, so files
+   * written by newer versions survive a re-key or migration.
+   */
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Metadata the user or caller can add to a new payload
+ */
+export interface PayloadMetadata {
+  notes?: string;
+  tags?: string[];
+  profile?: string;
+  stores?: CookieStore[];
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * Version of the running extension ('dev' outside the extension)
+ */
+export function getExtensionVersion(): string {
+  return typeof chrome !== 'undefined' && chrome.runtime?.getManifest
+    ? chrome.runtime.getManifest().version
+    : 'dev';
+}
+
+/**
+ * Names the browser family from the user agent
+ */
+function detectBrowser(): string | undefined {
+  if (typeof navigator === 'undefined') return undefined;
+  const ua = navigator.userAgent;
+  if (ua.includes('Firefox/')) return 'Firefox';
+  if (ua.includes('Edg/')) return 'Edge';
+  if (ua.includes('OPR/')) return 'Opera';
+  if (ua.includes('Chrome/')) return 'Chrome';
+  return undefined;
+}
+
+/**
+ * Builds the envelope for a new backup
+ * @param cookies The cookies being backed up
+ * @param metadata Optional notes, tags, profile name and extra sections
+ */
+export function createPayload(cookies: Cookie[], metadata: PayloadMetadata = {}): BackupPayload {
+  const notes = metadata.notes?.trim();
+  const tags = metadata.tags?.map((t) => t.trim()).filter(Boolean);
+  const profile = metadata.profile?.trim();
+  const browser = detectBrowser();
+
+  return {
+    schema: PAYLOAD_SCHEMA,
+    createdAt: new Date().toISOString(),
+    source: {
+      ...(browser ? { browser } : {}),
+      ...(profile ? { profile } : {}),
+      extensionVersion: getExtensionVersion(),
+    },
+    ...(notes ? { notes } : {}),
+    ...(tags && tags.length > 0 ? { tags } : {}),
+    cookies,
+    ...(metadata.stores && metadata.stores.length > 0 ? { stores: metadata.stores } : {}),
+    ...(metadata.extensions ? { extensions: metadata.extensions } : {}),
+  };
+}
+
+/**
+ * Turns decrypted data into an envelope. A bare array (files from before the
+ * envelope) becomes the cookie list; malformed metadata fields are left out.
+ * Cookie entries are not checked here; see validateCookies.
+ * @throws InvalidPayloadError if the data holds no cookie list
+ * @throws UnsupportedVersionError if the envelope is from a newer schema
+ */
+export function unwrapPayload(data: unknown): BackupPayload {
+  if (Array.isArray(data)) {
+    return { schema: PAYLOAD_SCHEMA, cookies: data };
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new InvalidPayloadError();
+  }
+
+  const raw = data as Record<string, unknown>;
+  const schema = raw.schema ?? PAYLOAD_SCHEMA;
+  if (typeof schema !== 'number' || !Number.isInteger(schema) || schema < 1) {
+    throw new InvalidPayloadError();
+  }
+  if (schema > PAYLOAD_SCHEMA) {
+    throw new UnsupportedVersionError(`Unsupported payload schema: ${schema}`);
+  }
+  if (!Array.isArray(raw.cookies)) {
+    throw new InvalidPayloadError();
+  }
+
+  const isString = (value: unknown): value is string => typeof value === 'string';
+  const isStore = (value: unknown): value is CookieStore =>
+    typeof value === 'object' &&
+    value !== null &&
+    isString((value as CookieStore).id) &&
+    isString((value as CookieStore).name);
+  const source =
+    typeof raw.source === 'object' && raw.source !== null
+      ? (raw.source as Record<string, unknown>)
+      : undefined;
+
+  return {
+    schema,
+    ...(isString(raw.createdAt) ? { createdAt: raw.createdAt } : {}),
+    ...(source
+      ? {
+          source: {
+            ...(isString(source.browser) ? { browser: source.browser } : {}),
+            ...(isString(source.profile) ? { profile: source.profile } : {}),
+            ...(isString(source.extensionVersion)
+              ? { extensionVersion: source.extensionVersion }
+              : {}),
+          },
+        }
+      : {}),
+    ...(isString(raw.notes) ? { notes: raw.notes } : {}),
+    ...(Array.isArray(raw.tags) ? { tags: raw.tags.filter(isString) } : {}),
+    cookies: raw.cookies,
+    ...(Array.isArray(raw.stores)
+      ? {
+          stores: raw.stores
+            .filter(isStore)
+            .map((store) => ({ id: store.id, name: store.name, incognito: !!store.incognito })),
+        }
+      : {}),
+    ...(typeof raw.extensions === 'object' && raw.extensions !== null
+      ? { extensions: raw.extensions as Record<string, unknown> }
+      : {}),
+  };
+}
+
+/**
+ * Encrypts a payload envelope in the crypto worker (see encryptData)
+ */
+export function encryptPayload(
+  payload: BackupPayload,
+  password: string,
+  onProgress?: (current: number, total: number) => void,
+  options: EncryptOptions = {}
+): Promise<Blob> {
+  return encryptInWorker(payload, password, onProgress, options);
+}
+
+/**
+ * Decrypts a backup in the crypto worker and unwraps its envelope (see decryptData).
+ * Files holding a bare cookie array come back as a schema 1 envelope.
+ */
+export async function decryptPayload(
+  fileContent: string | Uint8Array | Blob,
+  password: string,
+  onProgress?: (current: number, total: number) => void,
+  options: DecryptOptions = {}
+): Promise<BackupPayload> {
+  return unwrapPayload(await decryptInWorker(fileContent, password, onProgress, options));
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRecoverySheet,
+  generateRecoveryKey,
+  isValidRecoveryKey,
+  normalizeRecoveryKey,
+  unlockRecoveryKey,
+  RECOVERY_KEY_WORDS,
+} from './recovery';
+
+// Helper to read Blob as text (jsdom compatible)
+async function blobToText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+}
+
+describe('Recovery Keys', () => {
+  it('should generate 24 valid words and store only the public key', async () => {
+    const { words, stored } = await generateRecoveryKey();
+
+    expect(words.split(' ')).toHaveLength(RECOVERY_KEY_WORDS);
+    expect(isValidRecoveryKey(words)).toBe(true);
+    expect(Object.keys(stored).sort()).toEqual(['createdAt', 'publicKey']);
+  });
+
+  it('should re-create the same keypair from the words', async () => {
+    const { words, stored } = await generateRecoveryKey();
+    const messy = `  ${words.toUpperCase().split(' ').join('\n  ')} `;
+
+    expect(normalizeRecoveryKey(messy)).toBe(words);
+    expect((await unlockRecoveryKey(messy)).publicKey).toBe(stored.publicKey);
+  });
+
+  it('should reject wrong words, counts and checksums', async () => {
+    // BIP39 test vector: 256 zero bits
+    const valid = `${'abandon '.repeat(23)}art`;
+
+    expect(isValidRecoveryKey(valid)).toBe(true);
+    expect(isValidRecoveryKey('abandon '.repeat(24))).toBe(false);
+    expect(isValidRecoveryKey(`${'abandon '.repeat(11)}about`)).toBe(false);
+    expect(isValidRecoveryKey(`${'abandon '.repeat(23)}notaword`)).toBe(false);
+    await expect(unlockRecoveryKey('abandon')).rejects.toThrow('Invalid recovery key');
+  });
+
+  it('should print the words and key ID on the recovery sheet', async () => {
+    const { words, stored } = await generateRecoveryKey();
+    const html = await blobToText(createRecoverySheet(words, stored));
+
+    for (const word of words.split(' ')) expect(html).toContain(`<li>${word}</li>`);
+    expect(html).toContain(stored.publicKey);
+  });
+});
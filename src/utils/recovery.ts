@@ -0,0 +1,133 @@
+import { generateMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english.js';
+import { deriveIdentity, type UnlockedIdentity } from './identity';
+
+/**
+ * Recovery Keys
+ *
+ * A recovery key is 256 bits of randomness written as 24 BIP39 English words.
+ * The words deterministically derive an ECDH P-256 keypair; only the public
+ * half is stored, and backups get an extra key slot wrapped to it (like a
+ * recipient slot). The words themselves are shown once and never saved, so
+ * they can open any of those backups when every password is forgotten.
+ */
+
+/** Number of words in a recovery key (256 bits of entropy) */
+export const RECOVERY_KEY_WORDS = 24;
+
+const RECOVERY_KEY_STRENGTH = 256;
+
+/** Separates recovery keypairs from any other use of the same words */
+const RECOVERY_KEY_INFO = new TextEncoder().encode('cookie-vault recovery key v1');
+
+/**
+ * Recovery key as saved in extension storage (public half only)
+ */
+export interface StoredRecoveryKey {
+  /** Encoded public key that recovery slots are wrapped to */
+  publicKey: string;
+  /** ISO 8601 creation time */
+  createdAt: string;
+}
+
+/**
+ * Lowercases a typed or pasted recovery key and collapses whitespace
+ */
+export function normalizeRecoveryKey(input: string): string {
+  return input.trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+/**
+ * Checks the word count, the words and the BIP39 checksum
+ */
+export function isValidRecoveryKey(input: string): boolean {
+  const words = normalizeRecoveryKey(input);
+  return words.split(' ').length === RECOVERY_KEY_WORDS && validateMnemonic(words, wordlist);
+}
+
+/**
+ * Re-creates the recovery keypair from its words
+ * @throws Error if the words are not a valid recovery key
+ */
+export async function unlockRecoveryKey(input: string): Promise<UnlockedIdentity> {
+  if (!isValidRecoveryKey(input)) {
+    throw new Error('Invalid recovery key');
+  }
+
+  const entropy = mnemonicToEntropy(normalizeRecoveryKey(input), wordlist);
+  const hkdfKey = await crypto.subtle.importKey(
+    'raw',
+    entropy as Uint8Array<ArrayBuffer>,
+    'HKDF',
+    false,
+    ['deriveBits']
+  );
+  // 384 bits, so reducing to a P-256 scalar has negligible bias
+  const seed = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: RECOVERY_KEY_INFO },
+    hkdfKey,
+    384
+  );
+  return deriveIdentity(new Uint8Array(seed));
+}
+
+/**
+ * Generates a new recovery key
+ * @returns The words to show the user once, and the public half to store
+ */
+export async function generateRecoveryKey(): Promise<{
+  words: string;
+  stored: StoredRecoveryKey;
+}> {
+  const words = generateMnemonic(wordlist, RECOVERY_KEY_STRENGTH);
+  const { publicKey } = await unlockRecoveryKey(words);
+  return { words, stored: { publicKey, createdAt: new Date().toISOString() } };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Builds a self-contained HTML recovery sheet to print or save as PDF
+ * @param words The recovery key words
+ * @param stored The stored public half, identifying which backups it opens
+ */
+export function createRecoverySheet(words: string, stored: StoredRecoveryKey): Blob {
+  const items = normalizeRecoveryKey(words)
+    .split(' ')
+    .map((word) => `<li>${escapeHtml(word)}</li>`)
+    .join('');
+  const created = escapeHtml(new Date(stored.createdAt).toUTCString());
+
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Cookie Vault Recovery Key</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 40rem; margin: 2rem auto; color: #111; }
+  ol { columns: 3; font-family: ui-monospace, monospace; font-size: 1.1rem; line-height: 2; }
+  code { word-break: break-all; }
+  .warning { border: 2px solid #111; padding: 0.75rem 1rem; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>Cookie Vault Recovery Key</h1>
+<p class="warning">Anyone with these words can open your backups. Print this sheet or write
+the words down, keep it somewhere safe and offline, and delete any digital copy.</p>
+<ol>${items}</ol>
+<p>Created: ${created}</p>
+<p>Key ID: <code>${escapeHtml(stored.publicKey)}</code></p>
+<p>To restore without your password, choose a backup in Cookie Vault's Restore tab, select
+"Use recovery key" and type these words in order.</p>
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+}
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from 'vitest';
+import sjcl from 'sjcl';
+import { unzipSync } from 'fflate';
+import { migrateBackups, rekeyBackup, rekeyBackups } from './rekey';
+import {
+  createBackupInfo,
+  decryptData,
+  encryptData,
+  readBackupHeader,
+  readKeySlots,
+  verifyBackupSignature,
+  type Cookie,
+} from './crypto';
+import { readBlobBytes } from './container';
+import { encryptAge } from './age';
+import { generateKeyfile, hashKeyfile } from './keyfile';
+import { generateSigningKey, importSigningKey } from './signing';
+import { encryptV3, encryptV4 } from '../test/legacyFixtures';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const cookies: Cookie[] = [
+  {
+    name: 'session',
+    value: 'abc123',
+    domain: '.example.com',
+    path: '/',
+    secure: true,
+    httpOnly: true,
+    storeId: '0',
+  },
+];
+
+function backupFile(name: string, password: string) {
+  return encryptData(cookies, password, undefined, { kdf: fastKdf }).then(
+    (blob) => new File([blob], name)
+  );
+}
+
+describe('Re-keying', () => {
+  it('should re-encrypt a backup with the new password only', async () => {
+    const info = createBackupInfo(cookies, '1.2.3', 'Laptop');
+    const original = await encryptData(cookies, 'old', undefined, { kdf: fastKdf, info });
+    const rekeyed = await rekeyBackup(original, 'old', 'new', { kdf: fastKdf });
+
+    expect(await decryptData(rekeyed, 'new')).toEqual(cookies);
+    await expect(decryptData(rekeyed, 'old')).rejects.toThrow(
+      'Incorrect password or corrupted file'
+    );
+    expect((await readBackupHeader(rekeyed))?.info).toEqual(info);
+  });
+
+  it('should keep the other key slots and the signature of v5 backups', async () => {
+    const stored = await generateSigningKey();
+    const original = await encryptData(cookies, 'old', undefined, {
+      kdf: fastKdf,
+      additionalPasswords: ['spare'],
+      signingKey: await importSigningKey(stored),
+    });
+    const rekeyed = await rekeyBackup(original, 'old', 'new', { kdf: fastKdf });
+
+    expect(await readKeySlots(rekeyed)).toHaveLength(2);
+    expect(await decryptData(rekeyed, 'spare')).toEqual(cookies);
+    expect(await verifyBackupSignature(rekeyed)).toEqual({
+      status: 'valid',
+      signer: stored.publicKey,
+    });
+  });
+
+  it('should re-key a backup that needs a keyfile, and keep needing it', async () => {
+    const keyfile = await hashKeyfile(generateKeyfile());
+    const original = await encryptData(cookies, 'old', undefined, { kdf: fastKdf, keyfile });
+
+    await expect(rekeyBackup(original, 'old', 'new')).rejects.toThrow(
+      'This backup needs its keyfile'
+    );
+    const rekeyed = await rekeyBackup(original, 'old', 'new', { kdf: fastKdf, keyfile });
+
+    expect(await decryptData(rekeyed, 'new', undefined, { keyfile })).toEqual(cookies);
+    await expect(decryptData(rekeyed, 'new')).rejects.toThrow('This backup needs its keyfile');
+  });
+
+  it('should stop re-keying a v5 backup when aborted', async () => {
+    const original = await encryptData(cookies, 'old', undefined, { kdf: fastKdf });
+    const controller = new AbortController();
+
+    // Aborted while the file is being read, before the new slot is written
+    const result = rekeyBackup(original, 'old', 'new', {
+      kdf: fastKdf,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(result).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+    await expect(
+      rekeyBackup(original, 'old', 'new', { kdf: fastKdf, signal: controller.signal })
+    ).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+  });
+
+  it('should upgrade legacy backups to v5', async () => {
+    const legacy = new Blob([await encryptV3(cookies, 'old')]);
+    const rekeyed = await rekeyBackup(legacy, 'old', 'new', { kdf: fastKdf });
+
+    expect((await readBackupHeader(rekeyed))?.version).toBe('v5');
+    expect(await decryptData(rekeyed, 'new')).toEqual(cookies);
+  });
+
+  it('should reject a wrong current password or an empty new one', async () => {
+    const original = await encryptData(cookies, 'old', undefined, { kdf: fastKdf });
+
+    await expect(rekeyBackup(original, 'wrong', 'new')).rejects.toThrow(
+      'Incorrect password or corrupted file'
+    );
+    await expect(rekeyBackup(original, 'old', '')).rejects.toThrow('New password is required');
+  });
+
+  it('should archive the files that re-key and report the ones that fail', async () => {
+    const files = [
+      await backupFile('a.cv', 'old'),
+      await backupFile('other.cv', 'different'),
+      await backupFile('a.cv', 'old'),
+    ];
+    const { archive, results } = await rekeyBackups(files, 'old', 'new', { kdf: fastKdf });
+
+    expect(results).toEqual([
+      { name: 'a.cv', outputName: 'a.cv' },
+      {
+        name: 'other.cv',
+        error: 'Incorrect password or corrupted file',
+        code: 'wrong-password',
+      },
+      { name: 'a.cv', outputName: 'a-2.cv' },
+    ]);
+
+    const entries = unzipSync(await readBlobBytes(archive!));
+    expect(Object.keys(entries).sort()).toEqual(['a-2.cv', 'a.cv']);
+    expect(await decryptData(entries['a-2.cv'], 'new')).toEqual(cookies);
+  });
+
+  it('should return no archive when nothing re-keys', async () => {
+    const { archive, results } = await rekeyBackups(
+      [await backupFile('a.cv', 'other')],
+      'old',
+      'new'
+    );
+
+    expect(archive).toBeNull();
+    expect(results[0].error).toBeDefined();
+  });
+});
+
+describe('Migration', () => {
+  it('should upgrade legacy files, keep their password and skip current ones', async () => {
+    const files = [
+      new File([await encryptV3(cookies, 'pw')], 'old.json'),
+      new File([sjcl.encrypt('pw', JSON.stringify(cookies)) as unknown as string], 'older.txt'),
+      await backupFile('new.cv', 'pw'),
+      new File(['not a backup'], 'notes.txt'),
+    ];
+    const onFile = vi.fn();
+    const { archive, results } = await migrateBackups(files, 'pw', { kdf: fastKdf }, onFile);
+
+    expect(results).toEqual([
+      { name: 'old.json', format: 'v3', status: 'migrated', outputName: 'old.cv' },
+      { name: 'older.txt', format: 'sjcl', status: 'migrated', outputName: 'older.cv' },
+      { name: 'new.cv', format: 'v5', status: 'current' },
+      {
+        name: 'notes.txt',
+        status: 'failed',
+        error: 'Invalid file format',
+        code: 'malformed-file',
+      },
+    ]);
+    expect(onFile).toHaveBeenCalledTimes(4);
+
+    const entries = unzipSync(await readBlobBytes(archive!));
+    expect(Object.keys(entries).sort()).toEqual(['old.cv', 'older.cv']);
+    expect((await readBackupHeader(entries['older.cv']))?.version).toBe('v5');
+    expect(await decryptData(entries['older.cv'], 'pw')).toEqual(cookies);
+  });
+
+  it('should report the format of files that fail to open', async () => {
+    const { archive, results } = await migrateBackups(
+      [new File([await encryptV4(cookies, 'other')], 'old.json')],
+      'pw'
+    );
+
+    expect(archive).toBeNull();
+    expect(results).toEqual([
+      {
+        name: 'old.json',
+        format: 'v4',
+        status: 'failed',
+        error: 'Incorrect password or corrupted file',
+        code: 'wrong-password',
+      },
+    ]);
+  });
+
+  it('should skip age exports instead of turning them into backups', async () => {
+    const age = await encryptAge(new TextEncoder().encode(JSON.stringify(cookies)), [
+      { type: 'scrypt', passphrase: 'pw', workFactor: 10 },
+    ]);
+    const { archive, results } = await migrateBackups([new File([age], 'cookies.age')], 'pw');
+
+    expect(archive).toBeNull();
+    expect(results).toEqual([
+      { name: 'cookies.age', format: 'age', status: 'skipped', reason: 'age export, not a backup' },
+    ]);
+  });
+});
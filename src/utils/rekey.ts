@@ -0,0 +1,230 @@
+import { zipSync } from 'fflate';
+import { changePassword, describeBackup, readBackupHeader, type BackupFormat } from './crypto';
+import { decryptInWorker, encryptInWorker } from './cryptoWorker';
+import { readBlobBytes } from './container';
+import { BackupError, type BackupErrorCode } from './errors';
+import type { KdfParams } from './kdf';
+import type { SigningKey } from './signing';
+
+/**
+ * Re-keying
+ *
+ * Changes the password of existing backup files without restoring them into
+ * the browser. In v5 files only the password's key slot is replaced; their
+ * other slots and cookie data are kept. Older formats (v2–v4, SJCL) have a
+ * single password, so they are decrypted and written again as v5 with the new
+ * one; migrateBackups does only that, keeping each file's password.
+ */
+
+/**
+ * Settings for the re-encrypted files
+ */
+export interface RekeyOptions {
+  /** Key derivation for the new password slot (defaults to the PBKDF2 preset) */
+  kdf?: KdfParams;
+  /** SHA-256 of the keyfile the files open with (see keyfile.ts); re-keyed files still require it */
+  keyfile?: Uint8Array;
+  /** Signs files upgraded from older formats (v5 files keep their signature) */
+  signingKey?: SigningKey;
+  /** Public half of a recovery key to add to files upgraded from older formats */
+  recoveryKey?: string;
+  /** Aborts between files, and within a file between chunks or key derivations */
+  signal?: AbortSignal;
+}
+
+/**
+ * Outcome for one file in a bulk re-key
+ */
+export interface RekeyFileResult {
+  /** Input file name */
+  name: string;
+  /** File name inside the archive, if re-keying succeeded */
+  outputName?: string;
+  /** Why the file was skipped */
+  error?: string;
+  /** Machine-readable reason, when the file could not be read */
+  code?: BackupErrorCode;
+}
+
+/**
+ * Re-encrypts one backup with a new password
+ * @param file The backup file
+ * @param oldPassword Password that opens the file today
+ * @param newPassword Password for the new file
+ * @returns The new v5 backup
+ */
+export async function rekeyBackup(
+  file: Blob,
+  oldPassword: string,
+  newPassword: string,
+  options: RekeyOptions = {}
+): Promise<Blob> {
+  if (!newPassword) {
+    throw new Error('New password is required');
+  }
+
+  // Swapping the slot keeps any other passwords, recipients, recovery key, shares and keyfile
+  if (await readBackupHeader(file).catch(() => null)) {
+    return changePassword(file, oldPassword, newPassword, {
+      kdf: options.kdf,
+      keyfile: options.keyfile,
+      signal: options.signal,
+    });
+  }
+
+  // The payload is passed through untouched, so envelope metadata and extensions are kept
+  const payload = await decryptInWorker(file, oldPassword, undefined, { signal: options.signal });
+
+  return encryptInWorker(payload, newPassword, undefined, {
+    kdf: options.kdf,
+    signingKey: options.signingKey,
+    recoveryKey: options.recoveryKey,
+    signal: options.signal,
+  });
+}
+
+/**
+ * Names the re-keyed copy of a file: same base name, .cv extension, unique in the archive
+ */
+function outputName(name: string, taken: Set<string>): string {
+  const base = name.replace(/\.(cv|ckz|json|txt)$/i, '') || 'backup';
+  let candidate = `${base}.cv`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${base}-${n}.cv`;
+  }
+  taken.add(candidate);
+  return candidate;
+}
+
+/**
+ * Outcome for one file in a bulk migration
+ */
+export interface MigrateFileResult {
+  name: string;
+  /** Format detected before migrating, if the file could be identified */
+  format?: BackupFormat;
+  /**
+   * 'current' files are already in the newest format and 'skipped' ones are not
+   * backups (age exports); both are left out of the archive
+   */
+  status: 'migrated' | 'current' | 'skipped' | 'failed';
+  /** File name inside the archive, if migrated */
+  outputName?: string;
+  /** Why the file was skipped */
+  reason?: string;
+  error?: string;
+  code?: BackupErrorCode;
+}
+
+/**
+ * Describes a failed file for a result list
+ */
+function failure(err: unknown, fallback: string): { error: string; code?: BackupErrorCode } {
+  return {
+    error: err instanceof Error ? err.message : fallback,
+    ...(err instanceof BackupError ? { code: err.code } : {}),
+  };
+}
+
+/**
+ * Packs files into an uncompressed zip archive
+ * @returns The archive, or null if there are no files
+ */
+function createArchive(entries: Record<string, Uint8Array>): Blob | null {
+  if (Object.keys(entries).length === 0) return null;
+  // Backups are already encrypted, so storing them uncompressed loses nothing
+  return new Blob([zipSync(entries, { level: 0 })], { type: 'application/zip' });
+}
+
+/**
+ * Re-keys several backups and packs the results into a zip archive.
+ * A file that fails (e.g. wrong password) is reported and left out; the others still succeed.
+ * @param onFile Called before each file with its index and the file count
+ * @returns The archive (null if no file succeeded) and a result per input file
+ */
+export async function rekeyBackups(
+  files: File[],
+  oldPassword: string,
+  newPassword: string,
+  options: RekeyOptions = {},
+  onFile?: (index: number, total: number) => void
+): Promise<{ archive: Blob | null; results: RekeyFileResult[] }> {
+  const entries: Record<string, Uint8Array> = {};
+  const results: RekeyFileResult[] = [];
+  const taken = new Set<string>();
+
+  for (const [index, file] of files.entries()) {
+    options.signal?.throwIfAborted();
+    onFile?.(index, files.length);
+
+    try {
+      const rekeyed = await rekeyBackup(file, oldPassword, newPassword, options);
+      const name = outputName(file.name, taken);
+      entries[name] = await readBlobBytes(rekeyed);
+      results.push({ name: file.name, outputName: name });
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') throw err;
+      results.push({ name: file.name, ...failure(err, 'Failed to re-key file') });
+    }
+  }
+
+  return { archive: createArchive(entries), results };
+}
+
+/**
+ * Upgrades legacy backups (v2–v4, SJCL) to the current format, keeping their password.
+ * Files are identified with the same detection as decryptData; files already
+ * in the current format, and age exports, are reported and skipped.
+ * @param password Password the files open with; the migrated files open with it too
+ * @param onFile Called before each file with its index and the file count
+ * @returns The archive of migrated files (null if none) and a result per input file
+ */
+export async function migrateBackups(
+  files: File[],
+  password: string,
+  options: RekeyOptions = {},
+  onFile?: (index: number, total: number) => void
+): Promise<{ archive: Blob | null; results: MigrateFileResult[] }> {
+  const entries: Record<string, Uint8Array> = {};
+  const results: MigrateFileResult[] = [];
+  const taken = new Set<string>();
+
+  for (const [index, file] of files.entries()) {
+    options.signal?.throwIfAborted();
+    onFile?.(index, files.length);
+
+    let format: BackupFormat | undefined;
+    try {
+      ({ format } = await describeBackup(file));
+      if (format === 'v5') {
+        results.push({ name: file.name, format, status: 'current' });
+        continue;
+      }
+      // age files are interoperable exports, so turning them into backups would lose that
+      if (format === 'age') {
+        results.push({
+          name: file.name,
+          format,
+          status: 'skipped',
+          reason: 'age export, not a backup',
+        });
+        continue;
+      }
+
+      const migrated = await rekeyBackup(file, password, password, options);
+      const name = outputName(file.name, taken);
+      entries[name] = await readBlobBytes(migrated);
+      results.push({ name: file.name, format, status: 'migrated', outputName: name });
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') throw err;
+      results.push({
+        name: file.name,
+        ...(format ? { format } : {}),
+        status: 'failed',
+        ...failure(err, 'Failed to migrate file'),
+      });
+    }
+  }
+
+  return { archive: createArchive(entries), results };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { looksLikeV4, salvageBackup, scanCookieRecords, summarizeSalvage } from './salvage';
+import { decryptData, describeBackup, encryptData } from './crypto';
+import { MalformedFileError, WrongPasswordError } from './errors';
+import { encryptV4 } from '../test/legacyFixtures';
+
+const cookies = Array.from({ length: 40 }, (_, i) => ({
+  name: `cookie${i}`,
+  value: i === 3 ? 'has "quotes", {braces} and },{"name":"fake"}' : `value${i}`,
+  domain: `.site${i}.example.com`,
+  path: '/',
+  secure: true,
+  httpOnly: false,
+  storeId: '0',
+}));
+
+/** Flips one byte inside the ciphertext of a chunk */
+function damageChunk(file: string, index: number): string {
+  const json = JSON.parse(file);
+  json.chunks[index].data[5] ^= 1;
+  return JSON.stringify(json);
+}
+
+describe('Salvage mode', () => {
+  it('should recover everything from an intact file', async () => {
+    const file = await encryptV4(cookies, 'pw', 512);
+    const { cookies: recovered, report } = await salvageBackup(file, 'pw');
+
+    expect(recovered).toEqual(cookies);
+    expect(report.damagedChunks).toEqual([]);
+    expect(summarizeSalvage(report)).toBe('Recovered 40 cookie records. No chunks were damaged.');
+  });
+
+  it('should skip a damaged chunk and keep the intact records', async () => {
+    const file = damageChunk(await encryptV4(cookies, 'pw', 512), 2);
+    await expect(decryptData(file, 'pw')).rejects.toBeInstanceOf(WrongPasswordError);
+
+    const { cookies: recovered, report } = await salvageBackup(file, 'pw');
+
+    expect(report.damagedChunks).toEqual([3]);
+    expect(report.lostBytes).toBe(512);
+    expect(recovered.length).toBeGreaterThan(30);
+    expect(recovered.length).toBeLessThan(cookies.length);
+    // Only whole, unmodified records come back
+    for (const record of recovered) {
+      expect(cookies).toContainEqual(record);
+    }
+    expect(report.estimatedLostCount).toBeGreaterThan(0);
+    expect(summarizeSalvage(report)).toMatch(
+      /1 of \d+ chunks \(3\) was damaged; about \d+ cookies/
+    );
+  });
+
+  it('should pick chunks out of a file whose JSON is damaged', async () => {
+    const file = damageChunk(await encryptV4(cookies, 'pw', 512), 1).replace(
+      /"data":\[(\d+),/,
+      '"data":[x,'
+    );
+    expect(() => JSON.parse(file)).toThrow();
+
+    const { report } = await salvageBackup(file, 'pw');
+
+    expect(report.damagedChunks).toEqual([1, 2]);
+    expect(report.recoveredCount).toBeGreaterThan(20);
+  });
+
+  it('should offer and salvage a truncated file that does not parse', async () => {
+    const intact = await encryptV4(cookies, 'pw', 512);
+    const chunkCount = JSON.parse(intact).chunks.length;
+    const file = new Blob([intact.slice(0, Math.floor(intact.length * 0.7))]);
+    await expect(decryptData(file, 'pw')).rejects.toBeInstanceOf(MalformedFileError);
+    await expect(describeBackup(file)).rejects.toBeInstanceOf(MalformedFileError);
+
+    expect(await looksLikeV4(file)).toBe(true);
+    const { cookies: recovered, report } = await salvageBackup(file, 'pw');
+
+    expect(report.damagedChunks).toEqual([]);
+    expect(report.chunkCount).toBeLessThan(chunkCount);
+    expect(recovered.length).toBeGreaterThan(10);
+    expect(recovered).toEqual(cookies.slice(0, recovered.length));
+  });
+
+  it('should not offer salvage for other formats', async () => {
+    expect(await looksLikeV4(await encryptData(cookies, 'pw'))).toBe(false);
+    expect(await looksLikeV4(new Blob(['{"version":"v3","salt":[1]}']))).toBe(false);
+  });
+
+  it('should report a wrong password when no chunk decrypts', async () => {
+    const file = await encryptV4(cookies, 'pw', 512);
+
+    await expect(salvageBackup(file, 'wrong')).rejects.toBeInstanceOf(WrongPasswordError);
+  });
+
+  it('should refuse other formats', async () => {
+    await expect(salvageBackup('{"version":"v3"}', 'pw')).rejects.toThrow(
+      'Salvage mode only reads v4 backups'
+    );
+  });
+
+  it('should find records in text that starts mid-record', () => {
+    const text = JSON.stringify(cookies.slice(2, 6)).slice(30);
+
+    expect(scanCookieRecords(text)).toEqual(cookies.slice(3, 6));
+  });
+});
@@ -0,0 +1,258 @@
+import { deriveKey, legacyKdfDescriptor } from './kdf';
+import { concatBytes, readBlobBytes } from './container';
+import { MalformedFileError, WrongPasswordError } from './errors';
+
+/**
+ * Salvage Mode
+ *
+ * A v4 backup is one JSON array split into chunks at byte offsets, each
+ * encrypted on its own with AES-GCM. Normal decryption stops at the first
+ * chunk that fails authentication. Salvage mode decrypts every chunk
+ * independently, skips the damaged ones and scans the surviving text for
+ * complete cookie records. Records that straddle a damaged chunk are lost,
+ * because chunk boundaries do not follow record boundaries.
+ *
+ * A flipped byte can also break the JSON that holds the chunks, so if the
+ * file does not parse, chunks are picked out of the text one by one.
+ */
+
+/** Largest record accepted by the scanner; cookies are at most about 4 KiB */
+const MAX_RECORD_LENGTH = 16 * 1024;
+
+/** AES-GCM tag length, which the plaintext is shorter than the ciphertext by */
+const TAG_LENGTH = 16;
+
+/** The version field of a v4 file, which the original writer put first */
+const V4_VERSION_PATTERN = /"version"\s*:\s*"v4"/;
+
+/** Bytes read when sniffing a file for the v4 version field */
+const SNIFF_LENGTH = 64;
+
+/**
+ * What salvage mode recovered and lost
+ */
+export interface SalvageReport {
+  chunkCount: number;
+  /** 1-based numbers of chunks that failed authentication or could not be read */
+  damagedChunks: number[];
+  /** Plaintext bytes in the damaged chunks */
+  lostBytes: number;
+  recoveredCount: number;
+  /** Records lost, estimated from the average size of those recovered */
+  estimatedLostCount: number;
+}
+
+interface RawChunk {
+  iv: number[];
+  data: number[];
+}
+
+const isByteArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((b) => Number.isInteger(b) && b >= 0 && b <= 255);
+
+/**
+ * Reads the salt and chunks of a v4 file, tolerating damage to the JSON itself
+ * @returns The salt, and each chunk (null where a chunk cannot be read)
+ */
+function readV4(text: string): { salt: number[]; chunks: (RawChunk | null)[] } {
+  let json: { version?: unknown; salt?: unknown; chunks?: unknown } | null = null;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    // Fall back to picking the fields out of the text below
+  }
+
+  if (json && typeof json === 'object') {
+    if (json.version !== 'v4' || !isByteArray(json.salt) || !Array.isArray(json.chunks)) {
+      throw new Error('Salvage mode only reads v4 backups');
+    }
+    const chunks = json.chunks.map((chunk: Partial<RawChunk> | null) =>
+      chunk && isByteArray(chunk.iv) && isByteArray(chunk.data) ? (chunk as RawChunk) : null
+    );
+    return { salt: json.salt, chunks };
+  }
+
+  if (!V4_VERSION_PATTERN.test(text)) {
+    throw new Error('Salvage mode only reads v4 backups');
+  }
+  const parseBytes = (list: string) => list.split(',').map((b) => Number(b.trim()));
+  const salt = parseBytes(/"salt"\s*:\s*\[([^\]]*)\]/.exec(text)?.[1] ?? '');
+  if (!isByteArray(salt) || salt.length === 0) {
+    throw new MalformedFileError('The backup salt is damaged, so nothing can be salvaged');
+  }
+  const chunks: (RawChunk | null)[] = [];
+  for (const match of text.matchAll(
+    /\{\s*"iv"\s*:\s*\[([^\]]*)\][^{]*?"data"\s*:\s*\[([^\]]*)\]/g
+  )) {
+    const chunk = { iv: parseBytes(match[1]), data: parseBytes(match[2]) };
+    chunks.push(isByteArray(chunk.iv) && isByteArray(chunk.data) ? chunk : null);
+  }
+  return { salt, chunks };
+}
+
+/**
+ * Whether a file looks like a v4 backup, judged from its first bytes only, so
+ * files whose JSON is damaged or truncated further on still qualify for salvage
+ */
+export async function looksLikeV4(file: Blob): Promise<boolean> {
+  const start = new TextDecoder().decode(await readBlobBytes(file.slice(0, SNIFF_LENGTH)));
+  return V4_VERSION_PATTERN.test(start);
+}
+
+/**
+ * Finds the end of the JSON object starting at `start`, honouring strings
+ * @returns The index after the closing brace, or -1 if the object does not close in time
+ */
+function findObjectEnd(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  const limit = Math.min(text.length, start + MAX_RECORD_LENGTH);
+  for (let i = start; i < limit; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{') {
+      depth++;
+    } else if (c === '}' && --depth === 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Whether a parsed object looks like a cookie record (validateCookies checks the rest)
+ */
+function looksLikeCookie(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.name === 'string' &&
+    (typeof record.domain === 'string' || typeof record.host === 'string')
+  );
+}
+
+/**
+ * Scans text for complete cookie records. The text may start or end in the
+ * middle of a record or string, so every "{" is tried until one parses.
+ */
+export function scanCookieRecords(text: string): Record<string, unknown>[] {
+  const records: Record<string, unknown>[] = [];
+  for (let i = text.indexOf('{'); i !== -1; i = text.indexOf('{', i + 1)) {
+    const end = findObjectEnd(text, i);
+    if (end === -1) continue;
+    try {
+      const value = JSON.parse(text.slice(i, end));
+      if (looksLikeCookie(value)) {
+        records.push(value);
+        i = end - 1;
+      }
+    } catch {
+      // Not a record boundary; try the next brace
+    }
+  }
+  return records;
+}
+
+/**
+ * Recovers the intact cookie records from a damaged v4 backup
+ * @param fileContent The backup file
+ * @param password The backup password
+ * @param onProgress Optional progress callback (current, total)
+ * @returns The recovered records (unvalidated; see validateCookies) and a report of what was lost
+ * @throws WrongPasswordError if no chunk decrypts
+ * @throws Error if the file is not a v4 backup
+ */
+export async function salvageBackup(
+  fileContent: string | Uint8Array | Blob,
+  password: string,
+  onProgress?: (current: number, total: number) => void
+): Promise<{ cookies: Record<string, unknown>[]; report: SalvageReport }> {
+  if (fileContent instanceof Blob) {
+    fileContent = await readBlobBytes(fileContent);
+  }
+  const text =
+    typeof fileContent === 'string' ? fileContent : new TextDecoder().decode(fileContent);
+  const { salt, chunks } = readV4(text);
+  const progressSteps = chunks.length + 1;
+
+  if (onProgress) onProgress(0, progressSteps);
+  const key = await deriveKey(password, legacyKdfDescriptor(new Uint8Array(salt)), 'decrypt');
+  if (onProgress) onProgress(1, progressSteps);
+
+  // Decrypt every chunk; consecutive intact chunks are joined so records spanning them survive
+  const runs: Uint8Array[][] = [[]];
+  const damagedChunks: number[] = [];
+  let lostBytes = 0;
+  for (const [i, chunk] of chunks.entries()) {
+    let plaintext: Uint8Array | null = null;
+    if (chunk) {
+      try {
+        plaintext = new Uint8Array(
+          await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: new Uint8Array(chunk.iv) },
+            key,
+            new Uint8Array(chunk.data)
+          )
+        );
+      } catch {
+        // Damaged chunk (or wrong password, if none decrypt)
+      }
+    }
+
+    if (plaintext) {
+      runs[runs.length - 1].push(plaintext);
+    } else {
+      damagedChunks.push(i + 1);
+      lostBytes += Math.max(0, (chunk?.data.length ?? 0) - TAG_LENGTH);
+      runs.push([]);
+    }
+    if (onProgress) onProgress(i + 2, progressSteps);
+  }
+
+  if (damagedChunks.length === chunks.length) {
+    throw new WrongPasswordError();
+  }
+
+  const cookies: Record<string, unknown>[] = [];
+  let recoveredBytes = 0;
+  for (const run of runs) {
+    if (run.length === 0) continue;
+    const bytes = concatBytes(run);
+    recoveredBytes += bytes.length;
+    for (const record of scanCookieRecords(new TextDecoder().decode(bytes))) {
+      cookies.push(record);
+    }
+  }
+
+  const bytesPerRecord = cookies.length > 0 ? recoveredBytes / cookies.length : 0;
+  return {
+    cookies,
+    report: {
+      chunkCount: chunks.length,
+      damagedChunks,
+      lostBytes,
+      recoveredCount: cookies.length,
+      estimatedLostCount: bytesPerRecord > 0 ? Math.round(lostBytes / bytesPerRecord) : 0,
+    },
+  };
+}
+
+/**
+ * Describes a salvage report in one or two sentences
+ */
+export function summarizeSalvage(report: SalvageReport): string {
+  const recovered = `Recovered ${report.recoveredCount} cookie record${report.recoveredCount === 1 ? '' : 's'}.`;
+  if (report.damagedChunks.length === 0) {
+    return `${recovered} No chunks were damaged.`;
+  }
+  const damaged = report.damagedChunks.length;
+  return (
+    `${recovered} ${damaged} of ${report.chunkCount} chunks ` +
+    `(${report.damagedChunks.join(', ')}) ${damaged === 1 ? 'was' : 'were'} damaged; ` +
+    `about ${report.estimatedLostCount} cookies were lost with them.`
+  );
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_SHARES,
+  combineSecret,
+  combineShares,
+  createShareKey,
+  decodeShare,
+  encodeShare,
+  splitSecret,
+} from './shamir';
+import { decryptData, encryptData, readKeySlots } from './crypto';
+import { WrongPasswordError } from './errors';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const data = [{ name: 'a', domain: 'example.com' }];
+
+describe('Shamir secret sharing', () => {
+  const secret = crypto.getRandomValues(new Uint8Array(32));
+
+  it('should rebuild the secret from any threshold of shares', () => {
+    const shares = splitSecret(secret, 3, 5);
+
+    expect(shares.map((s) => s.index)).toEqual([1, 2, 3, 4, 5]);
+    expect(combineSecret([shares[0], shares[1], shares[2]])).toEqual(secret);
+    expect(combineSecret([shares[4], shares[1], shares[3]])).toEqual(secret);
+    expect(combineSecret(shares)).toEqual(secret);
+  });
+
+  it('should not rebuild the secret from too few shares', () => {
+    const shares = splitSecret(secret, 3, 5);
+
+    expect(combineSecret([shares[0], shares[1]])).not.toEqual(secret);
+  });
+
+  it('should match a known GF(256) interpolation', () => {
+    // f(x) = 7 + 5x over GF(256): f(1) = 7 ^ 5, f(2) = 7 ^ (5 * 2)
+    expect(
+      combineSecret([
+        { index: 1, data: new Uint8Array([7 ^ 5]) },
+        { index: 2, data: new Uint8Array([7 ^ 10]) },
+      ])
+    ).toEqual(new Uint8Array([7]));
+  });
+
+  it('should reject bad parameters and mismatched shares', () => {
+    expect(() => splitSecret(secret, 1, 3)).toThrow('At least 2 shares');
+    expect(() => splitSecret(secret, 3, 2)).toThrow('Share count');
+    expect(() => splitSecret(secret, 2, MAX_SHARES + 1)).toThrow('Share count');
+    const [a] = splitSecret(secret, 2, 2);
+    expect(() => combineSecret([a, a])).toThrow('Shares do not belong together');
+  });
+
+  describe('share strings', () => {
+    it('should use QR alphanumeric characters and round-trip', () => {
+      const { shares } = createShareKey(2, 3);
+
+      expect(shares[0]).toMatch(/^CVSH1-[0-9A-F]{8}-2-1-[0-9A-F]{64}-[0-9A-F]{4}$/);
+      expect(encodeShare(decodeShare(` ${shares[1].toLowerCase()}\n`))).toBe(shares[1]);
+    });
+
+    it('should catch typos and foreign text', () => {
+      const { shares } = createShareKey(2, 3);
+      const typo = shares[0].replace(
+        /-(\w)(\w+-\w{4})$/,
+        (_, c, rest) => `-${c === '0' ? '1' : '0'}${rest}`
+      );
+
+      expect(() => decodeShare(typo)).toThrow('typo');
+      expect(() => decodeShare('hello')).toThrow('Not a Cookie Vault share');
+    });
+
+    it('should rebuild the key from enough shares of one set', () => {
+      const { shareKey, shares } = createShareKey(3, 5);
+
+      expect(combineShares([shares[4], '', shares[0], shares[2]])).toEqual({
+        setId: shareKey.setId,
+        key: shareKey.key,
+      });
+      expect(() => combineShares([shares[0], shares[0], shares[1]])).toThrow(
+        '3 different shares are needed, got 2'
+      );
+      expect(() => combineShares([shares[0], createShareKey(3, 5).shares[1]])).toThrow(
+        'different backups'
+      );
+    });
+  });
+
+  it('should open a backup with any threshold of its shares', async () => {
+    const { shareKey, shares } = createShareKey(3, 5);
+    const file = await encryptData(data, 'pw', undefined, { kdf: fastKdf, shareKey });
+
+    expect(await readKeySlots(file)).toMatchObject([
+      { type: 'password' },
+      { type: 'shares', setId: shareKey.setId, threshold: 3, count: 5 },
+    ]);
+    expect(await decryptData(file, '', undefined, { shares: shares.slice(2) })).toEqual(data);
+    expect(await decryptData(file, 'pw')).toEqual(data);
+
+    const other = createShareKey(3, 5).shares;
+    await expect(decryptData(file, '', undefined, { shares: other })).rejects.toBeInstanceOf(
+      WrongPasswordError
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils.js';
+
+/**
+ * Shamir Secret Sharing
+ *
+ * Splits a backup's key into N shares so that any M of them rebuild it and
+ * fewer reveal nothing. Each byte of the secret is the constant term of a
+ * random polynomial of degree M-1 over GF(256) (the AES field, x^8 + x^4 +
+ * x^3 + x + 1); share i holds the polynomial evaluated at x = i.
+ *
+ * Backups get a "shares" key slot that wraps the data key with a random
+ * share key, and the share key is what gets split. Shares are plain strings
+ * in the QR alphanumeric alphabet (digits, A-Z and "-"), so they can be
+ * copied as text or put in a compact QR code:
+ *
+ *   CVSH1-<set id>-<threshold>-<index>-<share bytes>-<check>
+ *
+ * The set id ties shares to one split, and the check (4 hex digits of
+ * SHA-256) catches typos in a single share.
+ */
+
+const SHARE_PREFIX = 'CVSH1';
+
+/** Length of the random key that is split, in bytes */
+export const SHARE_KEY_LENGTH = 32;
+
+/** Length of the random set id, in bytes */
+const SET_ID_LENGTH = 4;
+
+/** Largest number of shares: x coordinates are the non-zero field elements */
+export const MAX_SHARES = 255;
+
+// Log and antilog tables for GF(256) with generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    EXP[i + 255] = x;
+    LOG[x] = i;
+    // x * 3 = x * 2 + x, reducing by the field polynomial on overflow
+    x ^= ((x << 1) ^ (x & 0x80 ? 0x1b : 0)) & 0xff;
+  }
+}
+
+function mul(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * One point of the split secret
+ */
+export interface SecretShare {
+  /** x coordinate, 1-255 */
+  index: number;
+  /** The polynomials evaluated at `index`, one byte per secret byte */
+  data: Uint8Array;
+}
+
+/**
+ * Splits a secret into shares
+ * @param secret The bytes to split
+ * @param threshold How many shares rebuild the secret (2 or more)
+ * @param count How many shares to create (threshold to MAX_SHARES)
+ * @throws Error if the threshold or count is out of range
+ */
+export function splitSecret(secret: Uint8Array, threshold: number, count: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('At least 2 shares must be required');
+  }
+  if (!Number.isInteger(count) || count < threshold || count > MAX_SHARES) {
+    throw new Error(`Share count must be between ${threshold} and ${MAX_SHARES}`);
+  }
+
+  const shares = Array.from({ length: count }, (_, i) => ({
+    index: i + 1,
+    data: new Uint8Array(secret.length),
+  }));
+  const coefficients = new Uint8Array(threshold);
+  for (let b = 0; b < secret.length; b++) {
+    coefficients[0] = secret[b];
+    crypto.getRandomValues(coefficients.subarray(1));
+    for (const share of shares) {
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = mul(y, share.index) ^ coefficients[c];
+      }
+      share.data[b] = y;
+    }
+  }
+  coefficients.fill(0);
+  return shares;
+}
+
+/**
+ * Rebuilds a secret by interpolating the shares at x = 0.
+ * Given fewer shares than the threshold, this returns unrelated bytes.
+ * @throws Error if no shares are given, or they differ in length or repeat an index
+ */
+export function combineSecret(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+  const length = shares[0].data.length;
+  const indexes = new Set(shares.map((share) => share.index));
+  if (indexes.size !== shares.length || shares.some((share) => share.data.length !== length)) {
+    throw new Error('Shares do not belong together');
+  }
+
+  const secret = new Uint8Array(length);
+  for (const share of shares) {
+    // Lagrange basis polynomial for this share, evaluated at 0
+    let basis = 1;
+    for (const other of shares) {
+      if (other !== share) {
+        basis = mul(basis, div(other.index, other.index ^ share.index));
+      }
+    }
+    for (let b = 0; b < length; b++) {
+      secret[b] ^= mul(share.data[b], basis);
+    }
+  }
+  return secret;
+}
+
+/**
+ * A split share key, as passed to encryptData
+ */
+export interface ShareKey {
+  /** Hex id shared by all shares of this split */
+  setId: string;
+  threshold: number;
+  count: number;
+  /** The key that wraps the data key */
+  key: Uint8Array;
+}
+
+/**
+ * A share string, decoded
+ */
+export interface BackupShare extends SecretShare {
+  setId: string;
+  threshold: number;
+}
+
+function shareCheck(body: string): string {
+  return bytesToHex(sha256(new TextEncoder().encode(body)))
+    .slice(0, 4)
+    .toUpperCase();
+}
+
+/**
+ * Writes a share as text
+ */
+export function encodeShare(share: BackupShare): string {
+  const body = [
+    SHARE_PREFIX,
+    share.setId,
+    share.threshold,
+    share.index,
+    bytesToHex(share.data).toUpperCase(),
+  ].join('-');
+  return `${body}-${shareCheck(body)}`;
+}
+
+/**
+ * Reads a typed or pasted share. Case and whitespace are ignored.
+ * @throws Error if the text is not a share or fails its check
+ */
+export function decodeShare(text: string): BackupShare {
+  const normalized = text.replace(/\s+/g, '').toUpperCase();
+  const parts = normalized.split('-');
+  const [prefix, setId, threshold, index, data, check] = parts;
+  const valid =
+    parts.length === 6 &&
+    prefix === SHARE_PREFIX &&
+    /^[0-9A-F]{8}$/.test(setId) &&
+    /^[0-9]{1,3}$/.test(threshold) &&
+    /^[0-9]{1,3}$/.test(index) &&
+    /^([0-9A-F]{2})+$/.test(data);
+  if (!valid) {
+    throw new Error('Not a Cookie Vault share');
+  }
+  if (shareCheck(parts.slice(0, 5).join('-')) !== check) {
+    throw new Error('Share has a typo (check digits do not match)');
+  }
+
+  const share = {
+    setId,
+    threshold: Number(threshold),
+    index: Number(index),
+    data: hexToBytes(data),
+  };
+  if (share.threshold < 2 || share.index < 1 || share.index > MAX_SHARES) {
+    throw new Error('Not a Cookie Vault share');
+  }
+  return share;
+}
+
+/**
+ * Generates a random share key and splits it
+ * @param threshold How many shares open the backup
+ * @param count How many shares to hand out
+ * @returns The key for encryptData, and the share strings to hand out
+ */
+export function createShareKey(
+  threshold: number,
+  count: number
+): { shareKey: ShareKey; shares: string[] } {
+  const key = crypto.getRandomValues(new Uint8Array(SHARE_KEY_LENGTH));
+  const setId = bytesToHex(crypto.getRandomValues(new Uint8Array(SET_ID_LENGTH))).toUpperCase();
+  const shares = splitSecret(key, threshold, count).map((share) =>
+    encodeShare({ ...share, setId, threshold })
+  );
+  return { shareKey: { setId, threshold, count, key }, shares };
+}
+
+/**
+ * Rebuilds a share key from share strings. Blank lines are ignored.
+ * @returns The set id and the rebuilt key
+ * @throws Error if a share is invalid, shares are from different splits, or
+ *   there are fewer than the threshold
+ */
+export function combineShares(texts: string[]): { setId: string; key: Uint8Array } {
+  const shares = texts.filter((text) => text.trim()).map(decodeShare);
+  if (shares.length === 0) {
+    throw new Error('No shares given');
+  }
+
+  const { setId, threshold } = shares[0];
+  if (shares.some((share) => share.setId !== setId || share.threshold !== threshold)) {
+    throw new Error('Shares are from different backups');
+  }
+  // The same share pasted twice does not count twice
+  const unique = [...new Map(shares.map((share) => [share.index, share])).values()];
+  if (unique.length < threshold) {
+    throw new Error(`${threshold} different shares are needed, got ${unique.length}`);
+  }
+
+  return { setId, key: combineSecret(unique.slice(0, threshold)) };
+}
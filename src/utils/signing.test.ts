@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSignatureTranscript,
+  decodeSignature,
+  encodeSignature,
+  generateSigningKey,
+  importSigningKey,
+  signTranscript,
+  verifyTranscript,
+  SIGNING_KEY_PREFIX,
+} from './signing';
+import { SectionType, type ContainerSection } from './container';
+import { PUBLIC_KEY_PREFIX } from './identity';
+
+const sections: ContainerSection[] = [
+  { type: SectionType.Header, data: new TextEncoder().encode('{"version":"v5"}') },
+  { type: SectionType.Chunk, data: new Uint8Array([1, 2, 3]) },
+];
+
+function transcriptOf(list: ContainerSection[]) {
+  const transcript = createSignatureTranscript();
+  for (const section of list) transcript.add(section);
+  return transcript;
+}
+
+describe('Backup Signing', () => {
+  it('should generate signing keys with their own prefix', async () => {
+    const stored = await generateSigningKey();
+
+    expect(stored.publicKey.startsWith(SIGNING_KEY_PREFIX)).toBe(true);
+    expect(stored.publicKey.startsWith(PUBLIC_KEY_PREFIX)).toBe(false);
+  });
+
+  it('should sign and verify a transcript', async () => {
+    const key = await importSigningKey(await generateSigningKey());
+    const signature = await signTranscript(key, transcriptOf(sections));
+
+    expect(signature.signer).toBe(key.publicKey);
+    expect(await verifyTranscript(signature, transcriptOf(sections))).toBe(true);
+  });
+
+  it('should not verify changed or reordered sections', async () => {
+    const key = await importSigningKey(await generateSigningKey());
+    const signature = await signTranscript(key, transcriptOf(sections));
+    const changed = [sections[0], { type: SectionType.Chunk, data: new Uint8Array([1, 2, 4]) }];
+
+    expect(await verifyTranscript(signature, transcriptOf(changed))).toBe(false);
+    expect(await verifyTranscript(signature, transcriptOf([...sections].reverse()))).toBe(false);
+  });
+
+  it('should not verify with another signer key', async () => {
+    const key = await importSigningKey(await generateSigningKey());
+    const other = await generateSigningKey();
+    const signature = await signTranscript(key, transcriptOf(sections));
+
+    expect(
+      await verifyTranscript({ ...signature, signer: other.publicKey }, transcriptOf(sections))
+    ).toBe(false);
+    expect(
+      await verifyTranscript({ ...signature, signer: 'garbage' }, transcriptOf(sections))
+    ).toBe(false);
+  });
+
+  it('should round-trip signature sections and reject malformed ones', async () => {
+    const key = await importSigningKey(await generateSigningKey());
+    const signature = await signTranscript(key, transcriptOf(sections));
+
+    expect(decodeSignature(encodeSignature(signature))).toEqual(signature);
+    expect(decodeSignature(new TextEncoder().encode('{"signer":1}'))).toBeNull();
+    expect(decodeSignature(new Uint8Array([0xff]))).toBeNull();
+  });
+});
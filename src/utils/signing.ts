@@ -0,0 +1,185 @@
+import { sha256 } from '@noble/hashes/sha2.js';
+import { base64ToBytes, bytesToBase64, encodeSection, type ContainerSection } from './container';
+import { decodePublicKey, encodePublicKey } from './identity';
+
+/**
+ * Backup Signing
+ *
+ * The checksum in a v5 header only detects accidental corruption; it does not
+ * say who wrote the file. Each install can hold an ECDSA P-256 signing key,
+ * and a Signature section at the end of the container signs the header and
+ * every chunk exactly as stored. Because the signature covers ciphertext, it
+ * can be checked as soon as a file is picked, before the password is entered.
+ *
+ * Key slots are not covered, so adding or removing a password keeps the
+ * signature valid.
+ */
+
+/** Prefix of encoded signing public keys (format version 1) */
+export const SIGNING_KEY_PREFIX = 'cvsg1';
+
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+/** Separates backup signatures from any other use of the key */
+const TRANSCRIPT_TAG = new TextEncoder().encode('cookie-vault backup signature v1\0');
+
+/**
+ * Signing key as saved in extension storage.
+ * The private key is stored unencrypted so unattended auto-backups can sign.
+ */
+export interface StoredSigningKey {
+  /** Encoded public key (SIGNING_KEY_PREFIX + compressed point) */
+  publicKey: string;
+  /** Base64-encoded PKCS#8 private key */
+  privateKey: string;
+  /** ISO 8601 creation time */
+  createdAt: string;
+}
+
+/**
+ * Signing key ready for use
+ */
+export interface SigningKey {
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+/**
+ * A signer whose backups are trusted on restore
+ */
+export interface TrustedSigner {
+  name: string;
+  publicKey: string;
+}
+
+/**
+ * Contents of a Signature container section
+ */
+export interface BackupSignature {
+  /** Signer's encoded public key */
+  signer: string;
+  /** Base64-encoded ECDSA P-256 signature (IEEE P1363) */
+  signature: string;
+}
+
+/**
+ * Result of checking a backup's signature
+ */
+export type SignatureStatus =
+  | { status: 'unsigned' }
+  | { status: 'invalid' }
+  | { status: 'valid'; signer: string; trustedName?: string };
+
+/**
+ * Generates a new per-install signing key
+ */
+export async function generateSigningKey(): Promise<StoredSigningKey> {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+  const rawPublic = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', keyPair.privateKey));
+
+  return {
+    publicKey: encodePublicKey(rawPublic, SIGNING_KEY_PREFIX),
+    privateKey: bytesToBase64(pkcs8),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Imports a stored signing key for use
+ */
+export async function importSigningKey(stored: StoredSigningKey): Promise<SigningKey> {
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    base64ToBytes(stored.privateKey),
+    ECDSA_PARAMS,
+    false,
+    ['sign']
+  );
+  return { publicKey: stored.publicKey, privateKey };
+}
+
+/**
+ * Incremental hash of the signed sections (header and chunks, with their framing)
+ */
+export interface SignatureTranscript {
+  add(section: ContainerSection): void;
+  digest(): Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Starts a new signature transcript
+ */
+export function createSignatureTranscript(): SignatureTranscript {
+  const hash = sha256.create().update(TRANSCRIPT_TAG);
+  return {
+    add(section) {
+      for (const part of encodeSection(section)) hash.update(part);
+    },
+    digest() {
+      return hash.digest() as Uint8Array<ArrayBuffer>;
+    },
+  };
+}
+
+/**
+ * Signs a transcript digest
+ */
+export async function signTranscript(
+  key: SigningKey,
+  transcript: SignatureTranscript
+): Promise<BackupSignature> {
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, key.privateKey, transcript.digest());
+  return { signer: key.publicKey, signature: bytesToBase64(new Uint8Array(signature)) };
+}
+
+/**
+ * Checks a signature against a transcript digest
+ * @returns false for a bad signature or malformed signer key
+ */
+export async function verifyTranscript(
+  signature: BackupSignature,
+  transcript: SignatureTranscript
+): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'raw',
+      decodePublicKey(signature.signer, SIGNING_KEY_PREFIX),
+      ECDSA_PARAMS,
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      SIGN_PARAMS,
+      publicKey,
+      base64ToBytes(signature.signature),
+      transcript.digest()
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serializes a signature for a Signature container section
+ */
+export function encodeSignature(signature: BackupSignature): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(signature));
+}
+
+/**
+ * Parses a Signature container section
+ * @returns The signature, or null if the section is malformed
+ */
+export function decodeSignature(data: Uint8Array): BackupSignature | null {
+  try {
+    const signature = JSON.parse(new TextDecoder().decode(data));
+    if (typeof signature?.signer === 'string' && typeof signature?.signature === 'string') {
+      return signature;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
@@ -1,4 +1,7 @@
 import browser from 'webextension-polyfill';
+import type { Recipient, StoredIdentity } from './identity';
+import type { StoredRecoveryKey } from './recovery';
+import { generateSigningKey, type StoredSigningKey, type TrustedSigner } from './signing';
 
 export interface VaultSettings {
   autoBackupEnabled: boolean;
@@ -8,6 +11,11 @@ export interface VaultSettings {
   cloudProvider: 'google-drive' | 'dropbox' | null;
   googleDriveToken: string | null;
   dropboxToken: string | null;
+  identity: StoredIdentity | null;
+  recipients: Recipient[];
+  signingKey: StoredSigningKey | null;
+  trustedSigners: TrustedSigner[];
+  recoveryKey: StoredRecoveryKey | null;
 }
 
 const DEFAULT_SETTINGS: VaultSettings = {
@@ -18,6 +26,11 @@ const DEFAULT_SETTINGS: VaultSettings = {
   cloudProvider: null,
   googleDriveToken: null,
   dropboxToken: null,
+  identity: null,
+  recipients: [],
+  signingKey: null,
+  trustedSigners: [],
+  recoveryKey: null,
 };
 
 const SETTINGS_KEY = 'cookie-vault-settings';
@@ -46,3 +59,15 @@ export async function clearCloudToken(provider: 'google-drive' | 'dropbox'): Pro
     });
   }
 }
+
+/**
+ * Returns this install's signing key, generating it on first use
+ */
+export async function getOrCreateSigningKey(): Promise<StoredSigningKey> {
+  const { signingKey } = await getSettings();
+  if (signingKey) return signingKey;
+
+  const created = await generateSigningKey();
+  await setSettings({ signingKey: created });
+  return created;
+}
@@ -102,6 +102,25 @@ describe('useDomainSelection', () => {
     expect(result.current.totalCookiesSelected).toBe(2);
   });
 
+  it('should toggle partitioned copies of a cookie separately', () => {
+    const { result } = renderHook(() => useDomainSelection());
+    act(() => {
+      result.current.loadCookies([
+        mockCookies[0],
+        { ...mockCookies[0], partitionKey: { topLevelSite: 'https://site.test' } },
+      ]);
+    });
+
+    act(() => {
+      result.current.toggleCookie('example.com', 'a', '/', 'https://site.test');
+    });
+
+    expect(result.current.domainSelections[0].cookies.map((c) => c.selected)).toEqual([
+      true,
+      false,
+    ]);
+  });
+
   it('should expand and collapse domains', () => {
     const { result } = renderHook(() => useDomainSelection());
     act(() => {
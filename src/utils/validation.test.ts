@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeValidation, validateCookies } from './validation';
+import { InvalidPayloadError } from './errors';
+import type { Cookie } from './crypto';
+
+const cookie: Cookie = {
+  name: 'session',
+  value: 'abc123',
+  domain: '.example.com',
+  path: '/',
+  secure: true,
+  httpOnly: true,
+  expirationDate: 1767225600,
+  storeId: '0',
+  sameSite: 'lax',
+  session: false,
+  hostOnly: false,
+};
+
+describe('Payload validation', () => {
+  it('should pass valid cookies through unchanged', () => {
+    expect(validateCookies([cookie])).toEqual({ cookies: [cookie], dropped: 0, issues: [] });
+  });
+
+  it('should accept a cookie list inside an envelope', () => {
+    expect(validateCookies({ cookies: [cookie] }).cookies).toEqual([cookie]);
+  });
+
+  it('should reject payloads without a cookie list', () => {
+    for (const data of [null, 'cookies', 42, { items: [] }]) {
+      expect(() => validateCookies(data)).toThrow(InvalidPayloadError);
+    }
+  });
+
+  it('should coerce legacy and third-party shapes', () => {
+    const { cookies, dropped } = validateCookies([
+      {
+        name: 'a',
+        value: 1,
+        host: 'example.com',
+        secure: 'true',
+        httpOnly: 0,
+        expirationDate: '1767225600000',
+        sameSite: 'None',
+      },
+      { name: 'b', value: 'x', domain: 'example.com', path: '/', expires: -1 },
+      { name: 'c', value: 'x', domain: 'example.com', expiry: 1767225600, extra: 'dropped' },
+    ]);
+
+    expect(dropped).toBe(0);
+    expect(cookies).toEqual([
+      {
+        name: 'a',
+        value: '1',
+        domain: 'example.com',
+        path: '/',
+        secure: true,
+        httpOnly: false,
+        expirationDate: 1767225600,
+        storeId: '0',
+        sameSite: 'no_restriction',
+      },
+      {
+        name: 'b',
+        value: 'x',
+        domain: 'example.com',
+        path: '/',
+        secure: false,
+        httpOnly: false,
+        storeId: '0',
+        session: true,
+      },
+      {
+        name: 'c',
+        value: 'x',
+        domain: 'example.com',
+        path: '/',
+        secure: false,
+        httpOnly: false,
+        expirationDate: 1767225600,
+        storeId: '0',
+      },
+    ]);
+  });
+
+  it('should drop invalid entries with field-level reasons', () => {
+    const result = validateCookies([
+      cookie,
+      'not a cookie',
+      { name: 'a', value: 'x' },
+      { name: 'b', domain: '', secure: 'maybe' },
+      { name: 'c', domain: 'example.com', path: 'relative', expirationDate: 'soon' },
+    ]);
+
+    expect(result.cookies).toEqual([cookie]);
+    expect(result.dropped).toBe(4);
+    expect(result.issues).toEqual([
+      { index: 1, field: '', message: 'not an object' },
+      { index: 2, field: 'domain', message: 'must be a non-empty string' },
+      { index: 3, field: 'domain', message: 'must be a non-empty string' },
+      { index: 3, field: 'secure', message: 'must be a boolean' },
+      { index: 4, field: 'path', message: "must be a string starting with '/'" },
+      { index: 4, field: 'expirationDate', message: 'must be a number of seconds' },
+    ]);
+    expect(summarizeValidation(result)).toBe(
+      'Skipped 4 invalid entries (domain must be a non-empty string: 2, not an object: 1, ' +
+        "secure must be a boolean: 1, path must be a string starting with '/': 1, " +
+        'expirationDate must be a number of seconds: 1)'
+    );
+  });
+
+  it('should keep CHIPS partition keys', () => {
+    const partitioned: Cookie = {
+      ...cookie,
+      partitionKey: { topLevelSite: 'https://site.test', hasCrossSiteAncestor: false },
+    };
+
+    const result = validateCookies([
+      partitioned,
+      { ...cookie, partitionKey: 'https://puppeteer.test' },
+      { ...cookie, partitionKey: {} },
+      { ...cookie, partitionKey: { topLevelSite: 42 } },
+    ]);
+
+    expect(result.cookies).toEqual([
+      partitioned,
+      { ...cookie, partitionKey: { topLevelSite: 'https://puppeteer.test' } },
+      cookie,
+    ]);
+    expect(result.issues).toEqual([
+      {
+        index: 3,
+        field: 'partitionKey',
+        message: 'must have a string topLevelSite and boolean hasCrossSiteAncestor',
+      },
+    ]);
+  });
+
+  it('should keep first-party domains', () => {
+    const isolated: Cookie = { ...cookie, firstPartyDomain: 'site.test' };
+
+    const result = validateCookies([
+      isolated,
+      { ...cookie, firstPartyDomain: '' },
+      { ...cookie, firstPartyDomain: 42 },
+    ]);
+
+    expect(result.cookies).toEqual([isolated, cookie]);
+    expect(result.issues).toEqual([
+      { index: 2, field: 'firstPartyDomain', message: 'must be a string' },
+    ]);
+  });
+
+  it('should summarize nothing when no entry was dropped', () => {
+    expect(summarizeValidation(validateCookies([cookie]))).toBe('');
+  });
+});
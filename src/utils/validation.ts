@@ -0,0 +1,219 @@
+import type { Cookie } from './crypto';
+import { unwrapPayload } from './payload';
+
+/**
+ * Payload Validation
+ *
+ * decryptData returns whatever JSON the file held. Before cookies reach the
+ * preview or the browser, each entry is checked against the Cookie interface:
+ * shapes written by older versions and other tools are coerced (string
+ * booleans, millisecond or `expires` timestamps, `host` instead of `domain`),
+ * and entries that still do not fit are dropped with the reason.
+ */
+
+/**
+ * Why an entry was dropped
+ */
+export interface ValidationIssue {
+  /** Position of the entry in the payload */
+  index: number;
+  /** Offending field, or '' for the entry as a whole */
+  field: string;
+  message: string;
+}
+
+/**
+ * Result of validating a payload
+ */
+export interface CookieValidationResult {
+  /** Entries that passed, with only the known Cookie fields */
+  cookies: Cookie[];
+  /** Number of entries left out */
+  dropped: number;
+  /** One issue per dropped entry and field */
+  issues: ValidationIssue[];
+}
+
+const SAME_SITE_VALUES: Record<string, Cookie['sameSite']> = {
+  no_restriction: 'no_restriction',
+  none: 'no_restriction',
+  lax: 'lax',
+  strict: 'strict',
+  unspecified: 'unspecified',
+};
+
+/** Timestamps above this are taken to be in milliseconds */
+const MAX_SECONDS_TIMESTAMP = 9999999999;
+
+/**
+ * Reads a boolean written as true/false, "true"/"false" or 1/0
+ * @returns The boolean, or undefined if the value is none of these
+ */
+function coerceBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 1 || value === '1') return true;
+  if (value === 'false' || value === 0 || value === '0') return false;
+  return undefined;
+}
+
+/**
+ * Reads an expiry in seconds from a number or numeric string, converting milliseconds
+ * @returns The expiry, null if it marks a session cookie, or undefined if it is not a number
+ */
+function coerceExpiration(value: unknown): number | null | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+  // Puppeteer and Playwright write -1 for session cookies
+  if (number <= 0) return null;
+  return number > MAX_SECONDS_TIMESTAMP ? Math.floor(number / 1000) : number;
+}
+
+/**
+ * Reads a CHIPS partition key. Puppeteer writes just the top-level site as a string.
+ * @returns The key, null if the cookie is unpartitioned, or undefined if it is malformed
+ */
+function coercePartitionKey(value: unknown): Cookie['partitionKey'] | null | undefined {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return value ? { topLevelSite: value } : null;
+  if (typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const raw = value as Record<string, unknown>;
+  if (raw.topLevelSite !== undefined && typeof raw.topLevelSite !== 'string') return undefined;
+  if (raw.hasCrossSiteAncestor !== undefined && typeof raw.hasCrossSiteAncestor !== 'boolean') {
+    return undefined;
+  }
+  // Browsers report an empty key for some unpartitioned cookies
+  if (!raw.topLevelSite) return null;
+  return {
+    topLevelSite: raw.topLevelSite,
+    ...(raw.hasCrossSiteAncestor !== undefined
+      ? { hasCrossSiteAncestor: raw.hasCrossSiteAncestor }
+      : {}),
+  };
+}
+
+/**
+ * Checks one entry and builds a clean Cookie from it
+ * @returns The cookie, or the issues that kept it out
+ */
+function validateCookie(entry: unknown, index: number): Cookie | ValidationIssue[] {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    return [{ index, field: '', message: 'not an object' }];
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const issues: ValidationIssue[] = [];
+  const fail = (field: string, message: string) => issues.push({ index, field, message });
+
+  const domain = raw.domain ?? raw.host;
+  if (typeof domain !== 'string' || domain.trim() === '') {
+    fail('domain', 'must be a non-empty string');
+  }
+  if (typeof raw.name !== 'string') {
+    fail('name', 'must be a string');
+  }
+  const value =
+    typeof raw.value === 'number' || typeof raw.value === 'boolean'
+      ? String(raw.value)
+      : (raw.value ?? '');
+  if (typeof value !== 'string') {
+    fail('value', 'must be a string');
+  }
+  const path = raw.path ?? '/';
+  if (typeof path !== 'string' || !path.startsWith('/')) {
+    fail('path', "must be a string starting with '/'");
+  }
+
+  const flags: Partial<Record<'secure' | 'httpOnly' | 'session' | 'hostOnly', boolean>> = {};
+  for (const field of ['secure', 'httpOnly', 'session', 'hostOnly'] as const) {
+    if (raw[field] === undefined) continue;
+    const flag = coerceBoolean(raw[field]);
+    if (flag === undefined) fail(field, 'must be a boolean');
+    else flags[field] = flag;
+  }
+
+  // Selenium writes `expiry`, Puppeteer and Playwright `expires`
+  const rawExpiration = raw.expirationDate ?? raw.expires ?? raw.expiry;
+  const expiration = rawExpiration === undefined ? undefined : coerceExpiration(rawExpiration);
+  if (rawExpiration !== undefined && expiration === undefined) {
+    fail('expirationDate', 'must be a number of seconds');
+  }
+
+  let sameSite: Cookie['sameSite'];
+  if (raw.sameSite !== undefined && raw.sameSite !== null) {
+    sameSite =
+      typeof raw.sameSite === 'string' ? SAME_SITE_VALUES[raw.sameSite.toLowerCase()] : undefined;
+    if (!sameSite) fail('sameSite', 'must be no_restriction, lax, strict or unspecified');
+  }
+
+  const partitionKey = coercePartitionKey(raw.partitionKey);
+  if (partitionKey === undefined) {
+    fail('partitionKey', 'must have a string topLevelSite and boolean hasCrossSiteAncestor');
+  }
+
+  const firstPartyDomain = raw.firstPartyDomain ?? undefined;
+  if (firstPartyDomain !== undefined && typeof firstPartyDomain !== 'string') {
+    fail('firstPartyDomain', 'must be a string');
+  }
+
+  if (issues.length > 0) return issues;
+
+  return {
+    name: raw.name as string,
+    value: value as string,
+    domain: (domain as string).trim(),
+    path: path as string,
+    secure: flags.secure ?? false,
+    httpOnly: flags.httpOnly ?? false,
+    ...(typeof expiration === 'number' ? { expirationDate: expiration } : {}),
+    storeId: typeof raw.storeId === 'string' ? raw.storeId : '0',
+    ...(sameSite ? { sameSite } : {}),
+    ...(flags.session !== undefined || expiration === null
+      ? { session: flags.session ?? true }
+      : {}),
+    ...(flags.hostOnly !== undefined ? { hostOnly: flags.hostOnly } : {}),
+    ...(partitionKey ? { partitionKey } : {}),
+    // '' is Firefox's value for cookies that are not isolated
+    ...(firstPartyDomain ? { firstPartyDomain: firstPartyDomain as string } : {}),
+  };
+}
+
+/**
+ * Validates the cookies of a decrypted payload.
+ * Accepts a bare array, or an envelope (see payload.ts) whose `cookies` are checked.
+ * @throws InvalidPayloadError if the payload holds no cookie list at all
+ */
+export function validateCookies(data: unknown): CookieValidationResult {
+  const entries: unknown[] = unwrapPayload(data).cookies;
+
+  const cookies: Cookie[] = [];
+  const issues: ValidationIssue[] = [];
+  entries.forEach((entry, index) => {
+    const result = validateCookie(entry, index);
+    if (Array.isArray(result)) issues.push(...result);
+    else cookies.push(result);
+  });
+
+  return { cookies, dropped: entries.length - cookies.length, issues };
+}
+
+/**
+ * Summarizes why entries were dropped, most common reason first
+ * @example "Skipped 3 invalid entries (domain must be a non-empty string: 2, not an object: 1)"
+ */
+export function summarizeValidation(result: CookieValidationResult): string {
+  if (result.dropped === 0) return '';
+
+  const counts = new Map<string, number>();
+  for (const issue of result.issues) {
+    const reason = issue.field ? `${issue.field} ${issue.message}` : issue.message;
+    counts.set(reason, (counts.get(reason) ?? 0) + 1);
+  }
+  const reasons = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([reason, count]) => `${reason}: ${count}`)
+    .join(', ');
+
+  const noun = result.dropped === 1 ? 'entry' : 'entries';
+  return `Skipped ${result.dropped} invalid ${noun} (${reasons})`;
+}
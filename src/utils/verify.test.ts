@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import sjcl from 'sjcl';
+import { verifyBackup } from './verify';
+import { describeBackup, encryptData, type Cookie } from './crypto';
+import { generateSigningKey, importSigningKey } from './signing';
+import { encryptV3, encryptV4 } from '../test/legacyFixtures';
+
+const fastKdf = { algorithm: 'PBKDF2-SHA256' as const, iterations: 1000 };
+const now = Date.UTC(2026, 0, 1);
+const cookies: Cookie[] = [
+  {
+    name: 'session',
+    value: 'abc123',
+    domain: '.example.com',
+    path: '/',
+    secure: true,
+    httpOnly: true,
+    storeId: '0',
+    session: true,
+  },
+  {
+    name: 'old',
+    value: 'x',
+    domain: 'example.com',
+    path: '/',
+    secure: false,
+    httpOnly: false,
+    storeId: '0',
+    expirationDate: now / 1000 - 60,
+  },
+  {
+    name: 'pref',
+    value: 'y',
+    domain: 'app.test',
+    path: '/',
+    secure: false,
+    httpOnly: false,
+    storeId: '0',
+    expirationDate: now / 1000 + 3600,
+  },
+];
+
+describe('Backup verification', () => {
+  it('should report on a v5 backup', async () => {
+    const stored = await generateSigningKey();
+    const signingKey = await importSigningKey(stored);
+    const file = await encryptData(cookies, 'pw', undefined, { kdf: fastKdf, signingKey });
+
+    const report = await verifyBackup(
+      file,
+      'pw',
+      { trustedSigners: [{ name: 'Laptop', publicKey: stored.publicKey }] },
+      now
+    );
+
+    expect(report).toEqual({
+      format: 'v5',
+      kdf: [fastKdf],
+      chunkCount: 1,
+      checksum: 'verified',
+      cookieCount: 3,
+      invalidCount: 0,
+      domains: ['app.test', 'example.com'],
+      expiredCount: 1,
+      signature: { status: 'valid', signer: stored.publicKey, trustedName: 'Laptop' },
+    });
+  });
+
+  it('should report on legacy backups', async () => {
+    const v4 = await verifyBackup(new Blob([await encryptV4(cookies, 'pw')]), 'pw', {}, now);
+    expect(v4).toMatchObject({ format: 'v4', checksum: 'verified', cookieCount: 3 });
+    expect(v4.kdf).toEqual([{ algorithm: 'PBKDF2-SHA256', iterations: 100000 }]);
+    expect(v4.signature).toEqual({ status: 'unsigned' });
+
+    const v3 = await verifyBackup(new Blob([await encryptV3(cookies, 'pw')]), 'pw', {}, now);
+    expect(v3).toMatchObject({ format: 'v3', chunkCount: 1, checksum: 'verified' });
+
+    const legacy = sjcl.encrypt('pw', JSON.stringify(cookies)) as unknown as string;
+    const report = await verifyBackup(new Blob([legacy]), 'pw', {}, now);
+    expect(report).toMatchObject({ format: 'sjcl', checksum: 'none', expiredCount: 1 });
+  });
+
+  it('should fail on a wrong password', async () => {
+    const file = await encryptData(cookies, 'pw', undefined, { kdf: fastKdf });
+    await expect(verifyBackup(file, 'wrong')).rejects.toThrow(
+      'Incorrect password or corrupted file'
+    );
+  });
+
+  it('should describe a file without its password', async () => {
+    const file = await encryptData(cookies, 'pw', undefined, {
+      kdf: { algorithm: 'Argon2id', iterations: 1, memoryCost: 64, parallelism: 1 },
+    });
+    expect(await describeBackup(file)).toEqual({
+      format: 'v5',
+      kdf: [{ algorithm: 'Argon2id', iterations: 1, memoryCost: 64, parallelism: 1 }],
+      chunkCount: 1,
+      hasChecksum: true,
+    });
+    await expect(describeBackup('{"hello":1}')).rejects.toThrow('Unknown file format');
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  describeBackup,
+  verifyBackupSignature,
+  type BackupFormatInfo,
+  type DecryptOptions,
+} from './crypto';
+import { decryptPayload } from './payload';
+import { validateCookies } from './validation';
+import type { SignatureStatus, TrustedSigner } from './signing';
+
+/**
+ * Verification
+ *
+ * Checks that a backup still opens and is intact, without restoring it into
+ * the browser: the file is fully decrypted (every chunk authenticated and the
+ * plaintext checksum compared), then the cookies are only counted.
+ */
+
+/**
+ * Options for verifyBackup
+ */
+export interface VerifyOptions extends DecryptOptions {
+  /** Signers to match the signing key against */
+  trustedSigners?: TrustedSigner[];
+}
+
+/**
+ * Result of verifying a backup
+ */
+export interface VerifyReport extends Omit<BackupFormatInfo, 'hasChecksum'> {
+  /** 'verified' if the plaintext matched the file's checksum, 'none' if the format has none */
+  checksum: 'verified' | 'none';
+  /** Valid cookies (entries a restore would offer) */
+  cookieCount: number;
+  /** Entries that are not valid cookies and would be skipped (see validation.ts) */
+  invalidCount: number;
+  /** Distinct cookie domains without the leading dot, sorted */
+  domains: string[];
+  /** Cookies that have expired and would be skipped on restore */
+  expiredCount: number;
+  signature: SignatureStatus;
+}
+
+/**
+ * Decrypts a backup and reports on its contents. Nothing is written to the browser.
+ * @param file The backup file
+ * @param password The password (may be empty when opening with an identity or recovery key)
+ * @param now Current time in milliseconds, for counting expired cookies
+ * @throws Error if the file cannot be decrypted, is damaged, fails its checksum or holds no cookie list
+ */
+export async function verifyBackup(
+  file: Blob,
+  password: string,
+  options: VerifyOptions = {},
+  now = Date.now()
+): Promise<VerifyReport> {
+  const { trustedSigners, ...decryptOptions } = options;
+  const { hasChecksum, ...format } = await describeBackup(file);
+
+  // decryptData authenticates every chunk and throws on a checksum mismatch
+  const payload = await decryptPayload(file, password, undefined, decryptOptions);
+  const { cookies, dropped } = validateCookies(payload.cookies);
+
+  const domains = new Set(
+    cookies.map((c) => (c.domain.startsWith('.') ? c.domain.slice(1) : c.domain))
+  );
+
+  return {
+    ...format,
+    checksum: hasChecksum ? 'verified' : 'none',
+    cookieCount: cookies.length,
+    invalidCount: dropped,
+    domains: [...domains].sort(),
+    expiredCount: cookies.filter((c) => c.expirationDate && c.expirationDate < now / 1000).length,
+    signature: await verifyBackupSignature(file, trustedSigners),
+  };
+}